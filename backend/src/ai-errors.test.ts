@@ -0,0 +1,74 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  APIConnectionError,
+  APIConnectionTimeoutError,
+  APIError,
+  BadRequestError,
+  PermissionDeniedError,
+  RateLimitError,
+} from 'openai';
+import { ContentFilterFinishReasonError } from 'openai/error';
+
+import { AIError, ERROR_MESSAGES, toAIError } from './ai-errors.js';
+import { ProviderConfigError } from './providers/index.js';
+
+function badRequest(code: string) {
+  return new BadRequestError(400, { message: 'Bad request', type: 'invalid_request_error', code }, undefined, {});
+}
+
+describe('toAIError', () => {
+  test('classifies SDK errors by class and API error code', () => {
+    const cases: Array<[unknown, string]> = [
+      [new APIConnectionTimeoutError(), 'timeout'],
+      [new APIConnectionError({ message: 'Connection error.' }), 'network'],
+      [new PermissionDeniedError(403, { message: 'Not allowed' }, undefined, {}), 'auth'],
+      [new RateLimitError(429, { message: 'Slow down', type: 'requests' }, undefined, {}), 'rate_limited'],
+      [new RateLimitError(429, { message: 'No credit', code: 'insufficient_quota' }, undefined, {}), 'quota_exceeded'],
+      [badRequest('context_length_exceeded'), 'context_too_long'],
+      [badRequest('content_filter'), 'content_filter'],
+      [badRequest('invalid_value'), 'invalid_request'],
+      [APIError.generate(404, { message: 'The model does not exist' }, undefined, {}), 'invalid_request'],
+      [APIError.generate(422, { message: 'Unprocessable' }, undefined, {}), 'invalid_request'],
+      [new ContentFilterFinishReasonError(), 'content_filter'],
+      [APIError.generate(408, { message: 'Timed out' }, undefined, {}), 'timeout'],
+      [APIError.generate(503, { message: 'Overloaded' }, undefined, {}), 'unavailable'],
+      [new APIError(undefined, { message: 'An error occurred during streaming' }, undefined, undefined), 'unavailable'],
+      [new ProviderConfigError('OPENAI_API_KEY is required when LLM_PROVIDER=openai'), 'auth'],
+      [new TypeError('Cannot read properties of undefined'), 'internal'],
+    ];
+
+    for (const [error, code] of cases) {
+      const aiError = toAIError(error);
+      assert.equal(aiError.code, code, String(error));
+      assert.equal(aiError.message, ERROR_MESSAGES[aiError.code]);
+    }
+  });
+
+  test('classifies connections dropped outside the SDK as network errors', () => {
+    const reset = Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' });
+    const socket = Object.assign(new Error('other side closed'), { code: 'UND_ERR_SOCKET' });
+    const bodyTimeout = Object.assign(new Error('Body Timeout Error'), { code: 'UND_ERR_BODY_TIMEOUT' });
+
+    assert.equal(toAIError(reset).code, 'network');
+    assert.equal(toAIError(new TypeError('terminated', { cause: socket })).code, 'network');
+    assert.equal(toAIError(new TypeError('terminated')).code, 'network');
+    assert.equal(toAIError(new TypeError('terminated', { cause: bodyTimeout })).code, 'timeout');
+  });
+
+  test('keeps the retry delay a rate limit asked for', () => {
+    const error = new RateLimitError(429, { message: 'Slow down' }, undefined, { 'retry-after': '7' });
+
+    assert.deepEqual(toAIError(error).toStreamError(), {
+      error: 'AI service is busy. Please try again in a moment.',
+      code: 'rate_limited',
+      retryAfter: 7,
+    });
+    assert.equal(toAIError(new RateLimitError(429, undefined, undefined, {})).retryAfter, undefined);
+  });
+
+  test('passes AIErrors through unchanged', () => {
+    const error = new AIError('empty_response');
+    assert.equal(toAIError(error), error);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * AI Errors
+ *
+ * Turns whatever a provider throws into an AIError with a stable code (see
+ * errorCodeSchema in contract.ts) and a message fit to show users. Codes
+ * come from the OpenAI SDK's error classes and API error codes, which the
+ * OpenAI-compatible and mock providers throw as well. The code is stored
+ * with a failed message and sent in SSE `error` events so the UI can offer
+ * the right way forward.
+ */
+
+import {
+  APIConnectionError,
+  APIConnectionTimeoutError,
+  APIError,
+  AuthenticationError,
+  BadRequestError,
+  PermissionDeniedError,
+  RateLimitError,
+} from 'openai';
+import { ContentFilterFinishReasonError } from 'openai/error';
+
+import type { ErrorCode, StreamError } from './contract.js';
+import { ProviderConfigError } from './providers/index.js';
+
+export const ERROR_MESSAGES: Record<ErrorCode, string> = {
+  rate_limited: 'AI service is busy. Please try again in a moment.',
+  quota_exceeded: 'AI service quota exceeded. Please contact support.',
+  auth: 'AI service configuration error. Please contact support.',
+  timeout: 'AI service took too long to respond. Please try again.',
+  content_filter: 'The response was blocked by the content filter. Try rephrasing your message.',
+  context_too_long: 'This conversation is too long for the model. Start a new chat to continue.',
+  network: 'Could not reach the AI service. Please try again.',
+  empty_response: 'AI service returned an empty response. Please try again.',
+  unavailable: 'AI service temporarily unavailable. Please try again.',
+  invalid_request: 'AI service rejected the request. Check the conversation settings or contact support.',
+  interrupted: 'Response was interrupted. Please try again.',
+  internal: 'Something went wrong while generating the response. Please try again.',
+};
+
+export class AIError extends Error {
+  constructor(
+    public readonly code: ErrorCode,
+    message = ERROR_MESSAGES[code],
+    /** Seconds the provider asked us to wait, if it said */
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'AIError';
+  }
+
+  /** Data for an SSE `error` event */
+  toStreamError(): StreamError {
+    return {
+      error: this.message,
+      code: this.code,
+      ...(this.retryAfter !== undefined ? { retryAfter: this.retryAfter } : {}),
+    };
+  }
+}
+
+function parseRetryAfter(error: APIError): number | undefined {
+  const seconds = parseInt(error.headers?.['retry-after'] ?? '', 10);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+}
+
+/** Socket failures, as Node and fetch (undici) report them */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CLOSED',
+]);
+
+const TIMEOUT_ERROR_CODES = new Set([
+  'ETIMEDOUT',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+]);
+
+/**
+ * Classify a connection that failed outside the SDK's own checks, e.g. one
+ * dropped mid-stream. fetch throws `TypeError: terminated` with the socket
+ * error as its `cause`.
+ */
+function classifySocketError(error: Error): ErrorCode | undefined {
+  let current: unknown = error;
+  for (let depth = 0; current instanceof Error && depth < 5; current = current.cause, depth++) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code !== 'string') continue;
+    if (NETWORK_ERROR_CODES.has(code)) return 'network';
+    if (TIMEOUT_ERROR_CODES.has(code)) return 'timeout';
+  }
+  return error instanceof TypeError && error.message === 'terminated' ? 'network' : undefined;
+}
+
+/**
+ * Classify an error thrown while generating a reply. Anything that isn't
+ * from the AI service or the connection to it is `internal`.
+ */
+export function toAIError(error: unknown): AIError {
+  if (error instanceof AIError) return error;
+  if (error instanceof ContentFilterFinishReasonError) return new AIError('content_filter');
+  if (error instanceof ProviderConfigError) return new AIError('auth');
+  if (!(error instanceof APIError)) {
+    const socketCode = error instanceof Error ? classifySocketError(error) : undefined;
+    return new AIError(socketCode ?? 'internal');
+  }
+
+  // The timeout class extends the connection one, so it goes first
+  if (error instanceof APIConnectionTimeoutError) return new AIError('timeout');
+  if (error instanceof APIConnectionError) return new AIError('network');
+  if (error instanceof AuthenticationError || error instanceof PermissionDeniedError) return new AIError('auth');
+
+  if (error instanceof RateLimitError) {
+    // OpenAI reports an exhausted balance as a 429 too
+    if (error.code === 'insufficient_quota' || error.type === 'insufficient_quota') {
+      return new AIError('quota_exceeded');
+    }
+    return new AIError('rate_limited', undefined, parseRetryAfter(error));
+  }
+
+  if (error instanceof BadRequestError) {
+    if (error.code === 'context_length_exceeded') return new AIError('context_too_long');
+    // Azure OpenAI rejects flagged prompts up front
+    if (error.code === 'content_filter' || error.code === 'content_policy_violation') {
+      return new AIError('content_filter');
+    }
+  }
+
+  if (error.status === 408) return new AIError('timeout');
+  // Other 4xx won't succeed on a retry; 5xx and errors reported mid-stream may
+  if (error.status !== undefined && error.status >= 400 && error.status < 500) {
+    return new AIError('invalid_request');
+  }
+  return new AIError('unavailable');
+}
@@ -0,0 +1,78 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  APIConnectionError,
+  APIError,
+  BadRequestError,
+  InternalServerError,
+  RateLimitError,
+} from 'openai';
+
+import { AIError, toAIError } from './ai-errors.js';
+import { retryDelay, type RetryPolicy } from './ai-retry.js';
+import { ProviderConfigError } from './providers/index.js';
+
+const policy: RetryPolicy = { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 1500 };
+
+describe('retryDelay', () => {
+  test('backs off exponentially up to the cap, with full jitter', () => {
+    const network = new AIError('network');
+
+    assert.deepEqual([1, 2, 3].map((retry) => retryDelay(network, retry, policy, () => 1)), [500, 1000, 1500]);
+    assert.deepEqual([1, 2, 3].map((retry) => retryDelay(network, retry, policy, () => 0.5)), [250, 500, 750]);
+    assert.equal(retryDelay(network, 1, policy, () => 0), 0);
+  });
+
+  test('stops after the last retry', () => {
+    assert.equal(retryDelay(new AIError('timeout'), 4, policy, () => 1), undefined);
+    assert.equal(retryDelay(new AIError('timeout'), 1, { ...policy, maxRetries: 0 }), undefined);
+  });
+
+  test('only retries transient errors', () => {
+    for (const code of ['rate_limited', 'network', 'timeout', 'unavailable'] as const) {
+      assert.notEqual(retryDelay(new AIError(code), 1, policy), undefined, code);
+    }
+    for (const code of [
+      'quota_exceeded',
+      'auth',
+      'content_filter',
+      'context_too_long',
+      'empty_response',
+      'invalid_request',
+      'internal',
+    ] as const) {
+      assert.equal(retryDelay(new AIError(code), 1, policy), undefined, code);
+    }
+  });
+
+  test('retries 5xx, non-quota 429s and dropped connections, but not other failures', () => {
+    const retried = [
+      new InternalServerError(500, { message: 'Server error' }, undefined, {}),
+      APIError.generate(503, { message: 'Overloaded' }, undefined, {}),
+      new RateLimitError(429, { message: 'Slow down', type: 'requests' }, undefined, {}),
+      new APIConnectionError({ message: 'Connection error.' }),
+      new TypeError('terminated', { cause: Object.assign(new Error('other side closed'), { code: 'UND_ERR_SOCKET' }) }),
+    ];
+    const notRetried = [
+      new RateLimitError(429, { message: 'No credit', code: 'insufficient_quota' }, undefined, {}),
+      new BadRequestError(400, { message: 'Bad request', code: 'invalid_value' }, undefined, {}),
+      APIError.generate(404, { message: 'The model does not exist' }, undefined, {}),
+      new ProviderConfigError('OPENAI_API_KEY is required when LLM_PROVIDER=openai'),
+      new TypeError('Cannot read properties of undefined'),
+    ];
+
+    for (const error of retried) {
+      assert.notEqual(retryDelay(toAIError(error), 1, policy), undefined, String(error));
+    }
+    for (const error of notRetried) {
+      assert.equal(retryDelay(toAIError(error), 1, policy), undefined, String(error));
+    }
+  });
+
+  test("waits at least a rate limit's Retry-After, unless it is longer than the cap", () => {
+    assert.equal(retryDelay(new AIError('rate_limited', undefined, 1), 1, policy, () => 0), 1000);
+    assert.equal(retryDelay(new AIError('rate_limited', undefined, 1), 3, policy, () => 1), 1500);
+    assert.equal(retryDelay(new AIError('rate_limited', undefined, 2), 1, policy, () => 0), undefined);
+  });
+});
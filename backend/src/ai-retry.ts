@@ -0,0 +1,80 @@
+/**
+ * Upstream Retries
+ *
+ * A reply that fails with a transient error (rate limit, 5xx, dropped
+ * connection, timeout) before its first chunk is retried with jittered
+ * exponential backoff, so the user doesn't have to press Retry. Once any
+ * text has been streamed the failure is reported as is: a retry would
+ * start the reply over.
+ *
+ * Configured by environment variables:
+ *
+ *   AI_MAX_RETRIES        retries after the first attempt (default 2, 0 disables)
+ *   AI_RETRY_BASE_DELAY_MS  delay before the first retry, doubled each time (default 500)
+ *   AI_RETRY_MAX_DELAY_MS   cap on any one delay (default 8000)
+ */
+
+import type { AIError } from './ai-errors.js';
+import type { ErrorCode } from './contract.js';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Failures that may pass on their own: non-quota 429s, 5xx (`unavailable`),
+ * dropped connections and timeouts. Other 4xx (`invalid_request`) and bugs
+ * here (`internal`) would fail the same way again.
+ */
+const RETRYABLE_CODES = new Set<ErrorCode>(['rate_limited', 'network', 'timeout', 'unavailable']);
+
+function parseCount(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export function retryPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): RetryPolicy {
+  return {
+    maxRetries: parseCount(env.AI_MAX_RETRIES, 2),
+    baseDelayMs: parseCount(env.AI_RETRY_BASE_DELAY_MS, 500),
+    maxDelayMs: parseCount(env.AI_RETRY_MAX_DELAY_MS, 8000),
+  };
+}
+
+let policy = retryPolicyFromEnv();
+
+export function getRetryPolicy(): RetryPolicy {
+  return policy;
+}
+
+/**
+ * Replace the retry policy, e.g. with no delays in tests.
+ */
+export function setRetryPolicy(next: RetryPolicy) {
+  policy = next;
+}
+
+/**
+ * How long to wait before retry number `retry` (1-based), or undefined if
+ * the error shouldn't be retried. Delays are "full jitter": a random point
+ * up to the exponential step, so clients that failed together don't retry
+ * together. A rate limit's Retry-After is a floor; if it is longer than the
+ * cap the user is better served by the error and its countdown.
+ */
+export function retryDelay(
+  error: AIError,
+  retry: number,
+  { maxRetries, baseDelayMs, maxDelayMs }: RetryPolicy = policy,
+  random: () => number = Math.random
+): number | undefined {
+  if (retry > maxRetries || !RETRYABLE_CODES.has(error.code)) return undefined;
+
+  const step = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+  const delay = Math.round(random() * step);
+  if (error.retryAfter === undefined) return delay;
+
+  const retryAfterMs = error.retryAfter * 1000;
+  return retryAfterMs > maxDelayMs ? undefined : Math.max(delay, retryAfterMs);
+}
@@ -0,0 +1,117 @@
+/**
+ * Authentication
+ *
+ * Local username/password accounts. Passwords are hashed with scrypt;
+ * logging in starts a session identified by a random bearer token, of
+ * which only a SHA-256 hash is stored. Every API route except /api/auth
+ * and the health check requires `Authorization: Bearer <token>`.
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { NextFunction, Request, Response } from 'express';
+
+import type { User } from './contract.js';
+import { conversationRepository, userRepository } from './repositories/index.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** The signed-in user, set by requireAuth */
+      user?: User;
+    }
+  }
+}
+
+/** How long a session stays valid after login */
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const KEY_LENGTH = 64;
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+/**
+ * Hash a password as `scrypt$<salt>$<key>`, both base64.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, key] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+
+  const expected = Buffer.from(key, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Checked against unknown usernames so they take as long as wrong passwords
+const DUMMY_HASH = hashPassword(randomBytes(16).toString('hex'));
+
+/**
+ * Check a username and password.
+ * @returns The user, or undefined if either is wrong
+ */
+export async function authenticate(username: string, password: string): Promise<User | undefined> {
+  const credentials = userRepository.findCredentials(username);
+  const valid = await verifyPassword(password, credentials?.password_hash ?? (await DUMMY_HASH));
+  if (!credentials || !valid) return undefined;
+
+  const { password_hash, ...user } = credentials;
+  return user;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Start a session for a user.
+ * @returns The bearer token; it can't be recovered from the database later
+ */
+export function startSession(userId: string): string {
+  const token = randomBytes(32).toString('base64url');
+  userRepository.deleteExpiredSessions();
+  userRepository.createSession(userId, hashToken(token), new Date(Date.now() + SESSION_TTL_MS));
+  return token;
+}
+
+export function endSession(token: string) {
+  userRepository.deleteSession(hashToken(token));
+}
+
+/**
+ * The bearer token sent with a request, if any.
+ */
+export function getBearerToken(req: Request): string | undefined {
+  const match = /^Bearer (\S+)$/i.exec(req.get('authorization') ?? '');
+  return match?.[1];
+}
+
+/**
+ * Reject requests without a valid session with 401; otherwise set `req.user`.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const token = getBearerToken(req);
+  const user = token ? userRepository.findSessionUser(hashToken(token)) : undefined;
+  if (!user) {
+    res.set('WWW-Authenticate', 'Bearer');
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  req.user = user;
+  next();
+}
+
+/**
+ * 404 unless the conversation in `req.params.id` belongs to the signed-in
+ * user, so other users' conversations look the same as missing ones.
+ * Mount after requireAuth.
+ */
+export function requireConversationOwner(req: Request, res: Response, next: NextFunction) {
+  if (!conversationRepository.exists(req.params.id, req.user!.id)) {
+    return res.status(404).json({ error: 'Conversation not found' });
+  }
+  next();
+}
@@ -0,0 +1,42 @@
+/**
+ * Change Events
+ *
+ * Fans out changes to a user's conversations to every GET /api/events
+ * stream that user has open, so other tabs stay current without
+ * refetching. Routes publish after their write succeeds; events are not
+ * stored, so a client that reconnects refetches instead of replaying.
+ *
+ * Subscribers live in this process's memory, like generations.
+ */
+
+import type { ChangeEvent } from './contract.js';
+
+type Listener = (event: ChangeEvent) => void;
+
+const listeners = new Map<string, Set<Listener>>();
+
+/**
+ * Receive every change to `userId`'s conversations.
+ * @returns Unsubscribe function
+ */
+export function subscribeToChanges(userId: string, listener: Listener): () => void {
+  let userListeners = listeners.get(userId);
+  if (!userListeners) {
+    userListeners = new Set();
+    listeners.set(userId, userListeners);
+  }
+  userListeners.add(listener);
+
+  return () => {
+    userListeners.delete(listener);
+    if (userListeners.size === 0 && listeners.get(userId) === userListeners) {
+      listeners.delete(userId);
+    }
+  };
+}
+
+export function publishChange(userId: string, event: ChangeEvent) {
+  for (const listener of listeners.get(userId) ?? []) {
+    listener(event);
+  }
+}
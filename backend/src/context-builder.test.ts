@@ -0,0 +1,67 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { logger } from './logger.js';
+import type { MessageRow } from './message-tree.js';
+import { assemblePrompt, type SourcePassage } from './prompt.js';
+import { createMockProvider, setProvider } from './providers/index.js';
+import { countMessagesTokens } from './tokens.js';
+
+// The database connection is opened on import, so point it at a throwaway
+// database before loading anything that uses it
+process.env.DATABASE_PATH = ':memory:';
+const { db, initDb } = await import('./db.js');
+const { buildContext, CONTEXT_TOKEN_BUDGET } = await import('./context-builder.js');
+
+/** A long exchange, about 400 tokens per message */
+const history: MessageRow[] = Array.from({ length: 30 }, (_, i) => ({
+  id: `m${i}`,
+  conversation_id: 'c1',
+  parent_id: i > 0 ? `m${i - 1}` : null,
+  role: i % 2 === 0 ? 'user' : 'assistant',
+  content: `Turn ${i}: ${'riser '.repeat(266)}`,
+  status: 'sent',
+  error_message: null,
+  error_code: null,
+  citations: null,
+  created_at: '2024-01-01T00:00:00.000Z',
+}));
+
+const passages: SourcePassage[] = Array.from({ length: 4 }, (_, i) => ({
+  filename: 'spec.pdf',
+  page: i + 1,
+  content: 'Fire-rated enclosure. '.repeat(45),
+}));
+
+describe('buildContext', () => {
+  before(() => {
+    logger.silent = true;
+    initDb();
+    db.prepare("INSERT INTO users (id, username, password_hash) VALUES ('u1', 'alice', 'x')").run();
+    db.prepare("INSERT INTO conversations (id, user_id, title) VALUES ('c1', 'u1', 'Risers')").run();
+  });
+
+  test('fits instructions, passages, summary and history into the budget', async () => {
+    const provider = createMockProvider({ chunkDelayMs: 0 });
+    provider.enqueue({ response: 'The user is reviewing riser sizes.' });
+    setProvider(provider);
+
+    const instructions = 'You review mechanical specifications. '.repeat(200);
+    const userMessage = 'Which riser is largest?';
+    const context = await buildContext('c1', 'u1', history, userMessage, { instructions, passages });
+
+    const prompt = assemblePrompt({
+      instructions,
+      passages,
+      summary: context.summary,
+      history: context.conversationHistory,
+      userMessage,
+    });
+    assert.ok(countMessagesTokens(prompt) <= CONTEXT_TOKEN_BUDGET, `${countMessagesTokens(prompt)} tokens`);
+    assert.equal(context.summary, 'The user is reviewing riser sizes.');
+
+    // Without the passages and instructions, more of the history would fit
+    const bare = await buildContext('c1', 'u1', history, userMessage);
+    assert.ok(bare.conversationHistory.length > context.conversationHistory.length);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Context Builder
+ *
+ * Fits conversation history into a token budget before it is sent to the
+ * model. The newest turns are kept verbatim; older turns are folded into a
+ * rolling summary stored per conversation, which createAIStream sends as
+ * extra system context. The instructions and document passages sent with
+ * the request come out of the same budget.
+ *
+ * Summaries are incremental: the stored summary remembers the last message
+ * it covers, so only turns that have newly fallen out of the budget are
+ * summarized on each request. If that message is not on the current branch
+ * (the user switched branches), the summary is rebuilt from scratch.
+ */
+
+import { db } from './db.js';
+import { logger as baseLogger } from './logger.js';
+import { DEFAULT_INSTRUCTIONS, getAIResponse, type Message } from './openai-stream.js';
+import type { MessageRow } from './message-tree.js';
+import { assemblePrompt, type SourcePassage } from './prompt.js';
+import { countMessageTokens, countMessagesTokens } from './tokens.js';
+import { recordTokenUsage } from './rate-limits.js';
+
+const logger = baseLogger.child({ service: 'context-service' });
+
+/** Tokens available for the whole prompt: instructions, passages, summary, history and the new user message */
+export const CONTEXT_TOKEN_BUDGET = parseInt(process.env.CONTEXT_TOKEN_BUDGET || '', 10) || 8000;
+
+/** Share of the budget reserved for the rolling summary */
+const SUMMARY_SHARE = 0.2;
+
+const SUMMARY_INSTRUCTIONS = `You maintain a running summary of a conversation between a user and an AI assistant on a construction document platform.
+Update the existing summary with the new messages. Preserve concrete facts: project names, bid amounts, spec sections, decisions and open questions.
+Write at most 200 words of plain prose. Reply with the summary only.`;
+
+export interface BuiltContext {
+  /** Newest turns that fit in the budget, oldest first */
+  conversationHistory: Message[];
+  /** Summary of every turn before `conversationHistory`, if any */
+  summary?: string;
+}
+
+/** The parts of the prompt sent alongside the history */
+export interface FixedPromptParts {
+  /** Conversation instructions; defaults to the assistant's */
+  instructions?: string;
+  passages?: SourcePassage[];
+}
+
+interface StoredSummary {
+  summary: string;
+  through_message_id: string;
+}
+
+/**
+ * Select the newest messages whose combined size fits in `budget` tokens.
+ * @returns Index of the first kept message
+ */
+function findCutoff(history: MessageRow[], budget: number): number {
+  let used = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    used += countMessageTokens(history[i]);
+    if (used > budget) return i + 1;
+  }
+  return 0;
+}
+
+function formatTranscript(rows: MessageRow[]): string {
+  return rows
+    .map((row) => `${row.role === 'user' ? 'User' : 'Assistant'}: ${row.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Fold `rows` into the previous summary with the model. The tokens count
+ * against `userId`'s daily budget.
+ */
+async function summarize(userId: string, previous: string | undefined, rows: MessageRow[]): Promise<string> {
+  const prompt = [
+    previous ? `Existing summary:\n${previous}` : 'Existing summary: (none)',
+    `New messages:\n${formatTranscript(rows)}`,
+  ].join('\n\n');
+
+  const response = await getAIResponse(prompt, { instructions: SUMMARY_INSTRUCTIONS });
+  recordTokenUsage(userId, response.usage.totalTokens);
+  return response.text.trim();
+}
+
+/**
+ * Build the context for a request in `conversationId`.
+ *
+ * @param history - Messages on the active branch preceding the new user message
+ * @param userMessage - The message being answered
+ * @param fixed - Instructions and passages the prompt will also carry
+ */
+export async function buildContext(
+  conversationId: string,
+  userId: string,
+  history: MessageRow[],
+  userMessage: string,
+  fixed: FixedPromptParts = {}
+): Promise<BuiltContext> {
+  const fixedTokens = countMessagesTokens(assemblePrompt({
+    instructions: fixed.instructions ?? DEFAULT_INSTRUCTIONS,
+    passages: fixed.passages,
+    history: [],
+    userMessage,
+  }));
+  const summaryBudget = Math.floor(CONTEXT_TOKEN_BUDGET * SUMMARY_SHARE);
+  const historyBudget = Math.max(0, CONTEXT_TOKEN_BUDGET - summaryBudget - fixedTokens);
+
+  const cutoff = findCutoff(history, historyBudget);
+  const kept = history.slice(cutoff);
+  const conversationHistory = kept.map((row) => ({ role: row.role, content: row.content }));
+
+  if (cutoff === 0) {
+    return { conversationHistory };
+  }
+
+  const dropped = history.slice(0, cutoff);
+  const lastDroppedId = dropped[dropped.length - 1].id;
+  const stored = db.prepare(
+    'SELECT summary, through_message_id FROM conversation_summaries WHERE conversation_id = ?'
+  ).get(conversationId) as StoredSummary | undefined;
+
+  // Reuse as much of the stored summary as is still on this branch
+  const coveredIndex = stored
+    ? dropped.findIndex((row) => row.id === stored.through_message_id)
+    : -1;
+  if (stored && coveredIndex === dropped.length - 1) {
+    return { conversationHistory, summary: stored.summary };
+  }
+
+  const previous = coveredIndex >= 0 ? stored!.summary : undefined;
+  const pending = dropped.slice(coveredIndex + 1);
+
+  try {
+    const summary = await summarize(userId, previous, pending);
+    db.prepare(
+      `INSERT INTO conversation_summaries (conversation_id, summary, through_message_id, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(conversation_id) DO UPDATE SET
+         summary = excluded.summary,
+         through_message_id = excluded.through_message_id,
+         updated_at = excluded.updated_at`
+    ).run(conversationId, summary, lastDroppedId, new Date().toISOString());
+
+    return { conversationHistory, summary };
+  } catch (error) {
+    // Answering without the newest summary beats not answering at all
+    logger.warn('Summarization failed', { error: error instanceof Error ? error.message : error, conversationId });
+    return { conversationHistory, summary: previous };
+  }
+}
@@ -0,0 +1,416 @@
+/**
+ * API Contract
+ *
+ * Schemas for the API: request bodies are parsed with them at
+ * runtime, and the response types are inferred from them. The frontend
+ * re-exports the types from here (frontend/src/types.ts), so this module
+ * must only depend on zod.
+ */
+
+import { z } from 'zod';
+
+export const MAX_TITLE_LENGTH = 200;
+export const MAX_MESSAGE_LENGTH = 10000;
+export const MAX_INSTRUCTIONS_LENGTH = 20000;
+export const MAX_TOKENS_LIMIT = 16384;
+export const MAX_PRESET_NAME_LENGTH = 100;
+export const MAX_STARTER_QUESTIONS = 10;
+export const MAX_STARTER_QUESTION_LENGTH = 500;
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 200;
+
+// Shared fields
+
+export const messageRoleSchema = z.enum(['user', 'assistant']);
+export const messageStatusSchema = z.enum(['sending', 'sent', 'failed', 'cancelled']);
+
+/** Why an assistant reply failed (see backend/src/ai-errors.ts) */
+export const errorCodeSchema = z.enum([
+  'rate_limited',
+  'quota_exceeded',
+  'auth',
+  'timeout',
+  'content_filter',
+  'context_too_long',
+  'network',
+  'empty_response',
+  'unavailable',
+  'invalid_request',
+  'interrupted',
+  'internal',
+]);
+
+export const conversationSettingsSchema = z.object({
+  /** System prompt; null uses the default assistant persona */
+  instructions: z.string().nullable(),
+  model: z.string().nullable(),
+  temperature: z.number().nullable(),
+  max_tokens: z.number().int().nullable(),
+});
+
+/** A document passage an assistant answer cites as [index] */
+export const citationSchema = z.object({
+  index: z.number().int(),
+  documentId: z.string(),
+  filename: z.string(),
+  page: z.number().int().nullable(),
+});
+
+// Responses
+
+export const conversationSchema = conversationSettingsSchema.extend({
+  id: z.string(),
+  title: z.string().nullable(),
+  /** True once the user renamed the chat; generated titles never replace it */
+  title_is_custom: z.boolean(),
+  active_leaf_id: z.string().nullable(),
+  /** Preset the conversation was created from, if any */
+  preset_id: z.string().nullable(),
+  /** Suggested first questions copied from the preset */
+  starter_questions: z.array(z.string()),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const messageVersionSchema = z.object({
+  id: z.string(),
+  message_id: z.string(),
+  content: z.string(),
+  status: messageStatusSchema,
+  error_message: z.string().nullable(),
+  error_code: errorCodeSchema.nullable(),
+  created_at: z.string(),
+});
+
+export const branchInfoSchema = z.object({
+  /** Position of this message among its siblings */
+  index: z.number().int(),
+  total: z.number().int(),
+  /** Sibling message ids in creation order, including this one */
+  siblingIds: z.array(z.string()),
+});
+
+export const messageSchema = z.object({
+  id: z.string(),
+  conversation_id: z.string(),
+  parent_id: z.string().nullable(),
+  role: messageRoleSchema,
+  content: z.string(),
+  status: messageStatusSchema,
+  error_message: z.string().nullable(),
+  error_code: errorCodeSchema.nullable(),
+  created_at: z.string(),
+  /** Earlier attempts of an assistant message, oldest first */
+  versions: z.array(messageVersionSchema).optional(),
+  /** Present when this message is one of several branches at a fork */
+  branch: branchInfoSchema.optional(),
+  /** Uploaded documents the answer cites */
+  citations: z.array(citationSchema).optional(),
+});
+
+/** One page of a cursor-paginated list */
+export function pageSchema<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    items: z.array(item),
+    /** Pass as `before` to load the next page; null when there are no more */
+    nextCursor: z.string().nullable(),
+  });
+}
+
+export const userSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  created_at: z.string(),
+});
+
+/** POST /api/auth/register and /api/auth/login; send the token as `Authorization: Bearer <token>` */
+export const sessionSchema = z.object({
+  token: z.string(),
+  user: userSchema,
+});
+
+/** GET /api/presets */
+export const presetSchema = conversationSettingsSchema.extend({
+  id: z.string(),
+  /** Null for presets made by `npm run seed`, which nobody can change */
+  user_id: z.string().nullable(),
+  /** Listed for every user; only the owner can change it */
+  shared: z.boolean(),
+  name: z.string(),
+  description: z.string().nullable(),
+  starter_questions: z.array(z.string()),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+/** GET /api/chats/:id/documents */
+export const conversationDocumentSchema = z.object({
+  id: z.string(),
+  conversation_id: z.string(),
+  filename: z.string(),
+  mime_type: z.string(),
+  size_bytes: z.number().int(),
+  /** Null for text and Markdown files */
+  page_count: z.number().int().nullable(),
+  chunk_count: z.number().int(),
+  created_at: z.string(),
+});
+
+/** A message matching a search; snippets mark matched terms with \u0002 ... \u0003 */
+export const messageSearchResultSchema = z.object({
+  id: z.string(),
+  conversation_id: z.string(),
+  conversation_title: z.string().nullable(),
+  role: messageRoleSchema,
+  created_at: z.string(),
+  snippet: z.string(),
+});
+
+/** A conversation whose title matches a search */
+export const conversationSearchResultSchema = z.object({
+  id: z.string(),
+  title: z.string().nullable(),
+  updated_at: z.string(),
+  snippet: z.string(),
+});
+
+/** GET /api/search */
+export const searchResultsSchema = z.object({
+  conversations: z.array(conversationSearchResultSchema),
+  messages: z.array(messageSearchResultSchema),
+});
+
+/** Data of an SSE `start` event: the assistant message being written */
+export const streamStartSchema = z.object({
+  messageId: z.string(),
+});
+
+/** Data of an SSE `chunk` event */
+export const streamChunkSchema = z.object({
+  content: z.string(),
+});
+
+export const tokenUsageSchema = z.object({
+  promptTokens: z.number().int(),
+  completionTokens: z.number().int(),
+  totalTokens: z.number().int(),
+  /** True when counted locally rather than reported by the provider */
+  estimated: z.boolean(),
+});
+
+/** Data of an SSE `done` event */
+export const streamDoneSchema = z.object({
+  messageId: z.string(),
+  content: z.string(),
+  usage: tokenUsageSchema,
+  citations: z.array(citationSchema),
+});
+
+/** Data of an SSE `cancelled` event: the text kept when the reply was stopped */
+export const streamCancelledSchema = z.object({
+  messageId: z.string(),
+  content: z.string(),
+});
+
+/** Data of an SSE `status` event, sent while a reply is being retried */
+export const streamStatusSchema = z.object({
+  state: z.literal('retrying'),
+  /** The attempt about to start; 2 is the first retry */
+  attempt: z.number().int(),
+});
+
+/** Data of an SSE `error` event */
+export const streamErrorSchema = z.object({
+  error: z.string(),
+  code: errorCodeSchema,
+  /** Seconds to wait before retrying, when the provider said */
+  retryAfter: z.number().int().optional(),
+});
+
+/**
+ * Data of an event on GET /api/events; the SSE event name is its `type`.
+ * `messages` means the conversation's messages changed and should be
+ * refetched; `reply_chunk` carries text streamed into a reply, starting at
+ * `offset` in its content.
+ */
+export const changeEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('conversation'), conversation: conversationSchema }),
+  z.object({ type: z.literal('conversation_deleted'), conversationId: z.string() }),
+  z.object({ type: z.literal('messages'), conversationId: z.string() }),
+  z.object({
+    type: z.literal('reply_chunk'),
+    conversationId: z.string(),
+    messageId: z.string(),
+    content: z.string(),
+    offset: z.number().int(),
+  }),
+]);
+
+export const conversationPageSchema = pageSchema(conversationSchema);
+export const messagePageSchema = pageSchema(messageSchema);
+
+// Requests
+
+const titleSchema = z
+  .string({ invalid_type_error: 'title must be a string' })
+  .trim()
+  .max(MAX_TITLE_LENGTH, `title too long (max ${MAX_TITLE_LENGTH} characters)`);
+
+/** Settings fields of a request body; absent fields stay unchanged, null resets to the default */
+export const settingsUpdateSchema = z.object({
+  instructions: z
+    .string({ invalid_type_error: 'instructions must be a string' })
+    .max(MAX_INSTRUCTIONS_LENGTH, `instructions too long (max ${MAX_INSTRUCTIONS_LENGTH} characters)`)
+    .transform((value) => value.trim() || null)
+    .nullable()
+    .optional(),
+  model: z
+    .string({ invalid_type_error: 'model must be a string' })
+    .transform((value) => value.trim() || null)
+    .nullable()
+    .optional(),
+  temperature: z
+    .number({ invalid_type_error: 'temperature must be a number between 0 and 2' })
+    .min(0, 'temperature must be a number between 0 and 2')
+    .max(2, 'temperature must be a number between 0 and 2')
+    .nullable()
+    .optional(),
+  max_tokens: z
+    .number({ invalid_type_error: `max_tokens must be an integer between 1 and ${MAX_TOKENS_LIMIT}` })
+    .int(`max_tokens must be an integer between 1 and ${MAX_TOKENS_LIMIT}`)
+    .min(1, `max_tokens must be an integer between 1 and ${MAX_TOKENS_LIMIT}`)
+    .max(MAX_TOKENS_LIMIT, `max_tokens must be an integer between 1 and ${MAX_TOKENS_LIMIT}`)
+    .nullable()
+    .optional(),
+});
+
+/** POST /api/chats */
+export const createConversationRequestSchema = z.object({
+  /** Without a title, one is generated after the first reply */
+  title: titleSchema.optional(),
+  presetId: z.string({ invalid_type_error: 'presetId must be a string' }).optional(),
+});
+
+/** PATCH /api/chats/:id; an empty or null title goes back to a generated one */
+export const updateConversationRequestSchema = settingsUpdateSchema.extend({
+  title: titleSchema.nullable().optional(),
+});
+
+/** POST /api/chats/:id/messages and PATCH /api/chats/:id/messages/:messageId */
+export const messageContentRequestSchema = z.object({
+  content: z
+    .string({ required_error: 'Message content is required', invalid_type_error: 'Message content is required' })
+    .trim()
+    .min(1, 'Message content cannot be empty')
+    .max(MAX_MESSAGE_LENGTH, `Message too long (max ${MAX_MESSAGE_LENGTH} characters)`),
+});
+
+const presetNameSchema = z
+  .string({ required_error: 'Preset name is required', invalid_type_error: 'Preset name is required' })
+  .trim()
+  .min(1, 'Preset name is required')
+  .max(MAX_PRESET_NAME_LENGTH, `Preset name too long (max ${MAX_PRESET_NAME_LENGTH} characters)`);
+
+const starterQuestionsError = `starter_questions must be a list of strings (max ${MAX_STARTER_QUESTION_LENGTH} characters each)`;
+
+/** PATCH /api/presets/:id; absent fields stay unchanged */
+export const updatePresetRequestSchema = settingsUpdateSchema.extend({
+  name: presetNameSchema.optional(),
+  description: z
+    .string({ invalid_type_error: 'description must be a string' })
+    .transform((value) => value.trim() || null)
+    .nullable()
+    .optional(),
+  starter_questions: z
+    .array(
+      z.string({ invalid_type_error: starterQuestionsError }).max(MAX_STARTER_QUESTION_LENGTH, starterQuestionsError),
+      { invalid_type_error: starterQuestionsError }
+    )
+    .max(MAX_STARTER_QUESTIONS, `Too many starter questions (max ${MAX_STARTER_QUESTIONS})`)
+    .transform((questions) => questions.map((question) => question.trim()).filter(Boolean))
+    .optional(),
+  /** List the preset for every user; only the owner can change it */
+  shared: z.boolean({ invalid_type_error: 'shared must be a boolean' }).optional(),
+});
+
+/** POST /api/presets */
+export const createPresetRequestSchema = updatePresetRequestSchema.extend({
+  name: presetNameSchema,
+});
+
+/** POST /api/auth/register */
+export const registerRequestSchema = z.object({
+  username: z
+    .string({ required_error: 'username is required', invalid_type_error: 'username must be a string' })
+    .trim()
+    .regex(/^[A-Za-z0-9_.-]{3,32}$/, 'username must be 3-32 letters, digits, dots, dashes or underscores'),
+  password: z
+    .string({ required_error: 'password is required', invalid_type_error: 'password must be a string' })
+    .min(MIN_PASSWORD_LENGTH, `password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+    .max(MAX_PASSWORD_LENGTH, `password too long (max ${MAX_PASSWORD_LENGTH} characters)`),
+});
+
+/** POST /api/auth/login; the password rules are only enforced when registering */
+export const loginRequestSchema = z.object({
+  username: z.string({ required_error: 'username is required', invalid_type_error: 'username must be a string' }).trim(),
+  password: z
+    .string({ required_error: 'password is required', invalid_type_error: 'password must be a string' })
+    .max(MAX_PASSWORD_LENGTH, `password too long (max ${MAX_PASSWORD_LENGTH} characters)`),
+});
+
+export type MessageRole = z.infer<typeof messageRoleSchema>;
+export type MessageStatus = z.infer<typeof messageStatusSchema>;
+export type ErrorCode = z.infer<typeof errorCodeSchema>;
+export type ConversationSettings = z.infer<typeof conversationSettingsSchema>;
+export type Citation = z.infer<typeof citationSchema>;
+export type Conversation = z.infer<typeof conversationSchema>;
+export type MessageVersion = z.infer<typeof messageVersionSchema>;
+export type BranchInfo = z.infer<typeof branchInfoSchema>;
+export type Message = z.infer<typeof messageSchema>;
+export type Page<T> = { items: T[]; nextCursor: string | null };
+export type User = z.infer<typeof userSchema>;
+export type Session = z.infer<typeof sessionSchema>;
+export type Preset = z.infer<typeof presetSchema>;
+export type ConversationDocument = z.infer<typeof conversationDocumentSchema>;
+export type MessageSearchResult = z.infer<typeof messageSearchResultSchema>;
+export type ConversationSearchResult = z.infer<typeof conversationSearchResultSchema>;
+export type SearchResults = z.infer<typeof searchResultsSchema>;
+/** Query filters of GET /api/search, checked by validateSearch in search.ts */
+export type SearchFilters = {
+  role?: MessageRole;
+  /** Inclusive start date, YYYY-MM-DD */
+  from?: string;
+  /** Inclusive end date, YYYY-MM-DD */
+  to?: string;
+};
+export type StreamStart = z.infer<typeof streamStartSchema>;
+export type StreamChunk = z.infer<typeof streamChunkSchema>;
+export type StreamDone = z.infer<typeof streamDoneSchema>;
+export type StreamCancelled = z.infer<typeof streamCancelledSchema>;
+export type StreamStatus = z.infer<typeof streamStatusSchema>;
+export type StreamError = z.infer<typeof streamErrorSchema>;
+export type ChangeEvent = z.infer<typeof changeEventSchema>;
+
+export type SettingsUpdate = z.infer<typeof settingsUpdateSchema>;
+export type CreateConversationRequest = z.infer<typeof createConversationRequestSchema>;
+export type UpdateConversationRequest = z.infer<typeof updateConversationRequestSchema>;
+export type MessageContentRequest = z.infer<typeof messageContentRequestSchema>;
+export type CreatePresetRequest = z.infer<typeof createPresetRequestSchema>;
+export type UpdatePresetRequest = z.infer<typeof updatePresetRequestSchema>;
+export type RegisterRequest = z.infer<typeof registerRequestSchema>;
+export type LoginRequest = z.infer<typeof loginRequestSchema>;
+
+/**
+ * Parse a request value against a schema.
+ * @returns The parsed value, or the first validation message
+ */
+export function validate<T extends z.ZodTypeAny>(
+  schema: T,
+  value: unknown
+): { data: z.output<T> } | { error: string } {
+  const result = schema.safeParse(value ?? {});
+  if (!result.success) {
+    return { error: result.error.issues[0].message };
+  }
+  return { data: result.data };
+}
@@ -0,0 +1,31 @@
+/**
+ * Conversation Settings
+ *
+ * Each conversation can override the assistant persona (system
+ * instructions) and generation parameters. NULL columns fall back to the
+ * defaults in openai-stream.ts and the active provider.
+ */
+
+import { db } from './db.js';
+import type { ConversationSettings } from './contract.js';
+import type { StreamOptions } from './openai-stream.js';
+
+export type { ConversationSettings } from './contract.js';
+
+export function getConversationSettings(conversationId: string): ConversationSettings | undefined {
+  return db.prepare(
+    'SELECT instructions, model, temperature, max_tokens FROM conversations WHERE id = ?'
+  ).get(conversationId) as ConversationSettings | undefined;
+}
+
+/**
+ * Map stored settings to createAIStream options, omitting defaults.
+ */
+export function toStreamOptions(settings: ConversationSettings | undefined): StreamOptions {
+  return {
+    instructions: settings?.instructions ?? undefined,
+    model: settings?.model ?? undefined,
+    temperature: settings?.temperature ?? undefined,
+    maxTokens: settings?.max_tokens ?? undefined,
+  };
+}
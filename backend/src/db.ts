@@ -2,33 +2,26 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const dbPath = path.join(__dirname, '..', 'data', 'chat.db');
+import { runMigrations } from './migrations/index.js';
 
-export const db = new Database(dbPath);
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+// DATABASE_PATH=:memory: gives a throwaway database, e.g. for tests
+const dbPath = process.env.DATABASE_PATH || path.join(__dirname, '..', 'data', 'chat.db');
 
-export function initDb() {
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS conversations (
-      id TEXT PRIMARY KEY,
-      title TEXT,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
+export const db: Database.Database = new Database(dbPath);
 
-    CREATE TABLE IF NOT EXISTS messages (
-      id TEXT PRIMARY KEY,
-      conversation_id TEXT NOT NULL,
-      role TEXT NOT NULL CHECK(role IN ('user', 'assistant')),
-      content TEXT NOT NULL,
-      status TEXT DEFAULT 'sent' CHECK(status IN ('sending', 'sent', 'failed')),
-      error_message TEXT,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
-    );
+// Foreign key clauses, ON DELETE CASCADE included, only apply on connections
+// that enable them; don't rely on the driver's build default
+db.pragma('foreign_keys = ON');
 
-    CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id);
-  `);
+/**
+ * Bring the schema up to date. Schema changes live in src/migrations.
+ */
+export function initDb() {
+  const applied = runMigrations(db);
+  for (const name of applied) {
+    console.log('Applied migration:', name);
+  }
 
   console.log('Database initialized at:', dbPath);
 }
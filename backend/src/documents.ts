@@ -0,0 +1,232 @@
+/**
+ * Documents
+ *
+ * Files uploaded to a conversation (specs, bid forms, RFIs) are split into
+ * overlapping chunks and indexed with SQLite FTS5. Each user question
+ * retrieves the best-matching chunks, which are passed to the model as
+ * numbered sources; the `[n]` markers in the answer become citations that
+ * point back to the document and page.
+ */
+
+import path from 'path';
+import { extractText } from 'unpdf';
+import { v4 as uuidv4 } from 'uuid';
+
+import { db } from './db.js';
+import type { SourcePassage } from './prompt.js';
+import type { Citation, ConversationDocument } from './contract.js';
+
+export type { Citation } from './contract.js';
+
+export interface RetrievedPassage extends SourcePassage {
+  documentId: string;
+}
+
+/** Raised for uploads that can't be indexed; the message is shown to the user */
+export class DocumentError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'DocumentError';
+  }
+}
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+/** Passages sent with each question */
+const TOP_PASSAGES = 4;
+
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 200;
+
+const TEXT_EXTENSIONS = new Set(['.txt', '.md', '.markdown']);
+
+interface ExtractedText {
+  mimeType: string;
+  /** Text of each page; a single unpaged entry for text files */
+  pages: Array<{ page: number | null; text: string }>;
+  pageCount: number | null;
+}
+
+/**
+ * Extract text from an uploaded PDF, plain-text or Markdown file. The file
+ * extension decides the type, since browsers report Markdown inconsistently.
+ */
+async function extractDocumentText(filename: string, buffer: Buffer): Promise<ExtractedText> {
+  const extension = path.extname(filename).toLowerCase();
+
+  if (extension === '.pdf') {
+    let result: { totalPages: number; text: string[] };
+    try {
+      result = await extractText(new Uint8Array(buffer), { mergePages: false });
+    } catch {
+      throw new DocumentError('Could not read PDF', 422);
+    }
+    return {
+      mimeType: 'application/pdf',
+      pages: result.text.map((text, i) => ({ page: i + 1, text })),
+      pageCount: result.totalPages,
+    };
+  }
+
+  if (TEXT_EXTENSIONS.has(extension)) {
+    return {
+      mimeType: extension === '.txt' ? 'text/plain' : 'text/markdown',
+      pages: [{ page: null, text: buffer.toString('utf8') }],
+      pageCount: null,
+    };
+  }
+
+  throw new DocumentError('Unsupported file type (PDF, .txt and .md files are supported)', 415);
+}
+
+/**
+ * Split text into chunks of about `CHUNK_SIZE` characters that overlap by
+ * `CHUNK_OVERLAP`, so a passage cut at a boundary is still found whole in
+ * one of its neighbours. Breaks fall on whitespace where possible.
+ */
+export function chunkText(text: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): string[] {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const chunks: string[] = [];
+
+  let start = 0;
+  while (start < normalized.length) {
+    let end = Math.min(start + size, normalized.length);
+    if (end < normalized.length) {
+      const lastSpace = normalized.lastIndexOf(' ', end);
+      if (lastSpace > start + size / 2) end = lastSpace;
+    }
+    chunks.push(normalized.slice(start, end).trim());
+    if (end >= normalized.length) break;
+
+    // Step back by the overlap, then forward to the start of a word
+    let next = Math.max(end - overlap, start + 1);
+    const wordStart = normalized.indexOf(' ', next);
+    if (wordStart !== -1 && wordStart < end) next = wordStart + 1;
+    start = next;
+  }
+
+  return chunks.filter((chunk) => chunk.length > 0);
+}
+
+/**
+ * Extract, chunk and index an uploaded file.
+ */
+export async function addDocument(
+  conversationId: string,
+  file: { originalname: string; buffer: Buffer; size: number }
+): Promise<ConversationDocument> {
+  const extracted = await extractDocumentText(file.originalname, file.buffer);
+
+  const chunks = extracted.pages.flatMap(({ page, text }) =>
+    chunkText(text).map((content) => ({ page, content }))
+  );
+  if (chunks.length === 0) {
+    throw new DocumentError('No text could be extracted from this file', 422);
+  }
+
+  const id = uuidv4();
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO documents (id, conversation_id, filename, mime_type, size_bytes, page_count, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id,
+      conversationId,
+      file.originalname,
+      extracted.mimeType,
+      file.size,
+      extracted.pageCount,
+      new Date().toISOString()
+    );
+
+    const insertChunk = db.prepare(
+      'INSERT INTO document_chunks (document_id, chunk_index, page, content) VALUES (?, ?, ?, ?)'
+    );
+    chunks.forEach((chunk, i) => insertChunk.run(id, i, chunk.page, chunk.content));
+  })();
+
+  return getDocument(conversationId, id)!;
+}
+
+const DOCUMENT_COLUMNS = `d.*, (SELECT COUNT(*) FROM document_chunks c WHERE c.document_id = d.id) AS chunk_count`;
+
+export function listDocuments(conversationId: string): ConversationDocument[] {
+  return db.prepare(
+    `SELECT ${DOCUMENT_COLUMNS} FROM documents d WHERE d.conversation_id = ? ORDER BY d.created_at ASC`
+  ).all(conversationId) as ConversationDocument[];
+}
+
+export function getDocument(conversationId: string, documentId: string): ConversationDocument | undefined {
+  return db.prepare(
+    `SELECT ${DOCUMENT_COLUMNS} FROM documents d WHERE d.id = ? AND d.conversation_id = ?`
+  ).get(documentId, conversationId) as ConversationDocument | undefined;
+}
+
+/**
+ * Delete a document and its chunks (the FTS index follows via trigger).
+ * @returns Whether the document existed
+ */
+export function deleteDocument(conversationId: string, documentId: string): boolean {
+  return db.transaction(() => {
+    const result = db.prepare('DELETE FROM documents WHERE id = ? AND conversation_id = ?')
+      .run(documentId, conversationId);
+    if (result.changes === 0) return false;
+    db.prepare('DELETE FROM document_chunks WHERE document_id = ?').run(documentId);
+    return true;
+  })();
+}
+
+/**
+ * Turn free text into an FTS5 query matching any of its words. Each term is
+ * quoted so punctuation and FTS operators in the question are taken literally.
+ */
+function toMatchQuery(text: string): string | null {
+  const terms = new Set(
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((term) => term.length > 1)
+  );
+  if (terms.size === 0) return null;
+  return [...terms].slice(0, 32).map((term) => `"${term}"`).join(' OR ');
+}
+
+/**
+ * Best-matching passages for a question among a conversation's documents,
+ * ranked by BM25.
+ */
+export function retrievePassages(conversationId: string, question: string, limit = TOP_PASSAGES): RetrievedPassage[] {
+  const query = toMatchQuery(question);
+  if (!query) return [];
+
+  return db.prepare(
+    `SELECT d.id AS documentId, d.filename, c.page, c.content
+     FROM document_chunks_fts
+     JOIN document_chunks c ON c.id = document_chunks_fts.rowid
+     JOIN documents d ON d.id = c.document_id
+     WHERE document_chunks_fts MATCH ? AND d.conversation_id = ?
+     ORDER BY bm25(document_chunks_fts)
+     LIMIT ?`
+  ).all(query, conversationId, limit) as RetrievedPassage[];
+}
+
+/**
+ * Citations for the sources an answer actually refers to, in source order.
+ */
+export function extractCitations(text: string, passages: RetrievedPassage[]): Citation[] {
+  const cited = new Set<number>();
+  // Matches [1] as well as [1, 3]
+  for (const match of text.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const number of match[1].split(',')) cited.add(parseInt(number, 10));
+  }
+
+  return passages.flatMap((passage, i) =>
+    cited.has(i + 1)
+      ? [{ index: i + 1, documentId: passage.documentId, filename: passage.filename, page: passage.page }]
+      : []
+  );
+}
+
+/**
+ * Decode the stored `messages.citations` column.
+ */
+export function parseCitations(value: string | null): Citation[] | undefined {
+  return value ? (JSON.parse(value) as Citation[]) : undefined;
+}
@@ -0,0 +1,221 @@
+/**
+ * Resumable Generations
+ *
+ * Each assistant reply is produced by a server-side generation that outlives
+ * the HTTP request that started it. Every SSE frame gets a monotonically
+ * increasing event id and is buffered, so a client that drops its connection
+ * can reconnect with `Last-Event-ID` and pick up exactly where it left off.
+ *
+ * Finished generations are kept for a short retention window so late
+ * reconnects can still replay the tail of the stream. A generation nobody
+ * is listening to is cancelled once the reconnect grace period runs out,
+ * so abandoned streams stop spending tokens.
+ */
+
+import type { Request, Response } from 'express';
+
+export interface GenerationEvent {
+  id: number;
+  event: string;
+  data: unknown;
+}
+
+type Listener = (event: GenerationEvent) => void;
+
+/** Events after which no further frames will be emitted */
+const TERMINAL_EVENTS = new Set(['done', 'error', 'cancelled']);
+
+/** How long a finished generation stays replayable */
+const RETENTION_MS = 5 * 60 * 1000;
+
+/** How long a generation may run without subscribers before it is cancelled */
+const ABANDON_GRACE_MS = 30 * 1000;
+
+export type CancelReason = 'user' | 'disconnected';
+
+export class Generation {
+  readonly events: GenerationEvent[] = [];
+  private listeners = new Set<Listener>();
+  private nextId = 1;
+  private cancelHandler: ((reason: CancelReason) => void) | null = null;
+  private abandonTimer: NodeJS.Timeout | null = null;
+  private finishHandlers: Array<() => void> = [];
+  finished = false;
+
+  constructor(
+    public readonly messageId: string,
+    public readonly conversationId: string
+  ) {}
+
+  /**
+   * Buffer an event and fan it out to every live subscriber.
+   */
+  emit(event: string, data: unknown) {
+    if (this.finished) return;
+
+    const frame: GenerationEvent = { id: this.nextId++, event, data };
+    this.events.push(frame);
+    if (TERMINAL_EVENTS.has(event)) {
+      this.finished = true;
+    }
+
+    for (const listener of this.listeners) {
+      listener(frame);
+    }
+    if (this.finished) {
+      this.listeners.clear();
+      this.clearAbandonTimer();
+      releaseLater(this);
+      for (const handler of this.finishHandlers) handler();
+      this.finishHandlers = [];
+    }
+  }
+
+  /** Text streamed so far, from the buffered `chunk` events */
+  streamedText(): string {
+    return this.events
+      .filter((frame) => frame.event === 'chunk')
+      .map((frame) => (frame.data as { content: string }).content)
+      .join('');
+  }
+
+  /**
+   * Run `handler` once the terminal event has been emitted, or right away
+   * if it already has.
+   */
+  onFinished(handler: () => void) {
+    if (this.finished) handler();
+    else this.finishHandlers.push(handler);
+  }
+
+  /**
+   * Register how to stop the generation. A later call replaces the
+   * handler, e.g. once the upstream request has finished.
+   */
+  onCancel(handler: (reason: CancelReason) => void) {
+    this.cancelHandler = handler;
+  }
+
+  /**
+   * Stop the generation. The cancel handler is expected to emit the
+   * terminal `cancelled` event.
+   * @returns false if the generation had already finished
+   */
+  cancel(reason: CancelReason): boolean {
+    if (this.finished || !this.cancelHandler) return false;
+
+    const handler = this.cancelHandler;
+    this.cancelHandler = null;
+    this.clearAbandonTimer();
+    handler(reason);
+    return true;
+  }
+
+  /**
+   * Replay buffered events newer than `lastEventId`, then follow live.
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: Listener, lastEventId = 0): () => void {
+    for (const frame of this.events) {
+      if (frame.id > lastEventId) listener(frame);
+    }
+    if (this.finished) return () => {};
+
+    this.listeners.add(listener);
+    this.clearAbandonTimer();
+    return () => {
+      this.listeners.delete(listener);
+      if (!this.finished && this.listeners.size === 0) {
+        this.abandonTimer = setTimeout(() => this.cancel('disconnected'), ABANDON_GRACE_MS);
+        this.abandonTimer.unref();
+      }
+    };
+  }
+
+  private clearAbandonTimer() {
+    if (this.abandonTimer) {
+      clearTimeout(this.abandonTimer);
+      this.abandonTimer = null;
+    }
+  }
+}
+
+const generations = new Map<string, Generation>();
+
+/**
+ * Register a new generation for an assistant message.
+ */
+export function startGeneration(messageId: string, conversationId: string): Generation {
+  const generation = new Generation(messageId, conversationId);
+  generations.set(messageId, generation);
+  return generation;
+}
+
+/**
+ * Drop a finished generation once its retention window has passed.
+ */
+function releaseLater(generation: Generation) {
+  setTimeout(() => {
+    if (generations.get(generation.messageId) === generation) {
+      generations.delete(generation.messageId);
+    }
+  }, RETENTION_MS).unref();
+}
+
+export function getGeneration(messageId: string): Generation | undefined {
+  return generations.get(messageId);
+}
+
+/**
+ * Parse the `Last-Event-ID` header sent by a reconnecting client.
+ */
+export function parseLastEventId(req: Request): number {
+  const header = req.header('Last-Event-ID');
+  const id = header ? parseInt(header, 10) : 0;
+  return Number.isFinite(id) && id > 0 ? id : 0;
+}
+
+export function setSSEHeaders(res: Response) {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+}
+
+/**
+ * Write one SSE frame in a single write so its lines travel together.
+ */
+export function writeSSE(res: Response, frame: { id?: number; event: string; data: unknown }) {
+  const idLine = frame.id !== undefined ? `id: ${frame.id}\n` : '';
+  res.write(`${idLine}event: ${frame.event}\ndata: ${JSON.stringify(frame.data)}\n\n`);
+}
+
+/**
+ * Pipe a generation to an SSE response, starting after `lastEventId`.
+ * The response ends once a terminal event has been written, or right after
+ * the replay if the generation finished before `lastEventId`; a client
+ * disconnect only detaches this subscriber, the generation keeps running
+ * until the abandon grace period expires.
+ */
+export function pipeGeneration(
+  res: Response,
+  generation: Generation,
+  lastEventId = 0
+) {
+  setSSEHeaders(res);
+  res.flushHeaders();
+
+  const unsubscribe = generation.subscribe((frame) => {
+    writeSSE(res, frame);
+    if (TERMINAL_EVENTS.has(frame.event)) {
+      res.end();
+    }
+  }, lastEventId);
+
+  // Already finished and the client has every frame: nothing more will come
+  if (generation.finished && !res.writableEnded) {
+    res.end();
+    return;
+  }
+
+  res.on('close', unsubscribe);
+}
@@ -1,47 +1,82 @@
 import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
+import { pathToFileURL } from 'url';
 import { initDb } from './db.js';
+import { requireAuth } from './auth.js';
+import authRouter from './routes/auth.js';
 import chatsRouter from './routes/chats.js';
+import presetsRouter from './routes/presets.js';
+import documentsRouter from './routes/documents.js';
+import searchRouter from './routes/search.js';
+import eventsRouter from './routes/events.js';
+import { MAX_IMPORT_BYTES } from './transcripts.js';
+import { getProvider, ProviderConfigError } from './providers/index.js';
+import { startRecoverySweep } from './recovery.js';
 
-// Validate required env vars
-if (!process.env.OPENAI_API_KEY) {
-  console.error('ERROR: OPENAI_API_KEY is required in .env file');
-  console.error('Copy .env.example to .env and add your API key');
-  process.exit(1);
+/**
+ * Build the Express app and bring the database schema up to date.
+ * Exported so tests can serve it on an ephemeral port.
+ */
+export function createApp() {
+  const app = express();
+
+  // Middleware
+  app.use(cors({ origin: 'http://localhost:5173' }));
+  // Imported transcripts may be larger than the default 100kb body limit
+  app.use('/api/chats/import', express.json({ limit: MAX_IMPORT_BYTES }));
+  app.use(express.json());
+
+  // Initialize database
+  initDb();
+
+  // Routes; everything but sign-in and the health check needs a session
+  app.use('/api/auth', authRouter);
+  app.use('/api/chats/:id/documents', requireAuth, documentsRouter);
+  app.use('/api/chats', requireAuth, chatsRouter);
+  app.use('/api/presets', requireAuth, presetsRouter);
+  app.use('/api/search', requireAuth, searchRouter);
+  app.use('/api/events', requireAuth, eventsRouter);
+
+  // Health check
+  app.get('/api/health', (req, res) => {
+    res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  });
+
+  // Error handler
+  app.use(
+    (
+      err: Error,
+      req: express.Request,
+      res: express.Response,
+      next: express.NextFunction
+    ) => {
+      console.error('Error:', err);
+      res.status(500).json({ error: err.message || 'Internal server error' });
+    }
+  );
+
+  return app;
 }
 
-const app = express();
-const PORT = process.env.PORT || 3001;
-
-// Middleware
-app.use(cors({ origin: 'http://localhost:5173' }));
-app.use(express.json());
-
-// Initialize database
-initDb();
-
-// Routes
-app.use('/api/chats', chatsRouter);
-
-// Health check
-app.get('/api/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
-
-// Error handler
-app.use(
-  (
-    err: Error,
-    req: express.Request,
-    res: express.Response,
-    next: express.NextFunction
-  ) => {
-    console.error('Error:', err);
-    res.status(500).json({ error: err.message || 'Internal server error' });
+// Only start the server when run directly, not when imported by tests
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  // Validate LLM provider configuration
+  try {
+    const provider = getProvider();
+    console.log(`Using LLM provider: ${provider.name} (${provider.defaultModel})`);
+  } catch (error) {
+    if (!(error instanceof ProviderConfigError)) throw error;
+    console.error(`ERROR: ${error.message}`);
+    console.error('Copy .env.example to .env and configure a provider (set LLM_PROVIDER=mock to run offline)');
+    process.exit(1);
   }
-);
 
-app.listen(PORT, () => {
-  console.log(`Backend running on http://localhost:${PORT}`);
-});
+  const PORT = process.env.PORT || 3001;
+  const app = createApp();
+  // Replies that were streaming when the last process stopped will never finish
+  startRecoverySweep();
+  app.listen(PORT, () => {
+    console.log(`Backend running on http://localhost:${PORT}`);
+  });
+}
@@ -0,0 +1,14 @@
+import winston from 'winston';
+
+/**
+ * Shared application logger. Routers derive a child logger tagged with
+ * their service name.
+ */
+export const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.json(),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'combined.log' })
+  ]
+});
@@ -0,0 +1,77 @@
+/**
+ * Message Tree
+ *
+ * Messages form a tree through `parent_id`: editing an earlier user message
+ * adds a sibling under the same parent and starts a new branch. The branch a
+ * conversation is currently showing is the path from the root down to
+ * `conversations.active_leaf_id`.
+ *
+ * These helpers work on rows already loaded; MessageRepository does the
+ * queries.
+ */
+
+import type { ErrorCode, MessageRole, MessageStatus } from './contract.js';
+
+export type { BranchInfo } from './contract.js';
+
+export interface MessageRow {
+  id: string;
+  conversation_id: string;
+  parent_id: string | null;
+  role: MessageRole;
+  content: string;
+  status: MessageStatus;
+  error_message: string | null;
+  error_code: ErrorCode | null;
+  /** JSON-encoded Citation[] for answers that cite uploaded documents */
+  citations: string | null;
+  created_at: string;
+}
+
+export interface MessageTree {
+  byId: Map<string, MessageRow>;
+  /** Children of each message in creation order; roots are under `null` */
+  children: Map<string | null, MessageRow[]>;
+}
+
+/**
+ * Index a conversation's messages, given in creation order.
+ */
+export function buildMessageTree(rows: MessageRow[]): MessageTree {
+  const byId = new Map<string, MessageRow>();
+  const children = new Map<string | null, MessageRow[]>();
+  for (const row of rows) {
+    byId.set(row.id, row);
+    const siblings = children.get(row.parent_id) ?? [];
+    siblings.push(row);
+    children.set(row.parent_id, siblings);
+  }
+
+  return { byId, children };
+}
+
+/**
+ * Follow the most recent child from `messageId` (or from the roots when
+ * null) down to a leaf.
+ */
+export function findLatestLeaf(tree: MessageTree, messageId: string | null): string | null {
+  let current = messageId;
+  while (true) {
+    const children = tree.children.get(current);
+    if (!children || children.length === 0) return current;
+    current = children[children.length - 1].id;
+  }
+}
+
+/**
+ * Root-to-leaf path ending at `leafId`.
+ */
+export function getPath(tree: MessageTree, leafId: string | null): MessageRow[] {
+  const path: MessageRow[] = [];
+  let current = leafId ? tree.byId.get(leafId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parent_id ? tree.byId.get(current.parent_id) : undefined;
+  }
+  return path;
+}
@@ -0,0 +1,41 @@
+import { db } from './db.js';
+import { getMigrationStatus, getSchemaVersion, migrations, runMigrations } from './migrations/index.js';
+import { conversationRepository, userRepository } from './repositories/index.js';
+
+// Usage: npm run migrate                    apply pending migrations
+//        npm run migrate:status             list migrations and whether they are applied
+//        npm run migrate claim <username>   give conversations created before
+//                                           accounts to an existing account
+
+const command = process.argv[2] ?? 'up';
+
+if (command === 'status') {
+  for (const migration of getMigrationStatus(db)) {
+    console.log(`${migration.applied ? '[x]' : '[ ]'} ${migration.name}`);
+  }
+  console.log(`Schema version ${getSchemaVersion(db)} of ${migrations.length}`);
+} else if (command === 'up') {
+  const applied = runMigrations(db);
+  if (applied.length === 0) {
+    console.log('Database is up to date');
+  }
+  for (const name of applied) {
+    console.log('Applied migration:', name);
+  }
+} else if (command === 'claim') {
+  if (getSchemaVersion(db) < migrations.length) {
+    console.error('Apply pending migrations first: npm run migrate');
+    process.exit(1);
+  }
+  const username = process.argv[3];
+  const user = username ? userRepository.findCredentials(username) : undefined;
+  if (!user) {
+    console.error(username ? `No account named "${username}"` : 'Usage: npm run migrate claim <username>');
+    process.exit(1);
+  }
+  const claimed = conversationRepository.claimUnowned(user.id);
+  console.log(`Gave ${claimed} conversation(s) to ${user.username}`);
+} else {
+  console.error(`Unknown command: ${command} (expected "up", "status" or "claim")`);
+  process.exit(1);
+}
@@ -0,0 +1,35 @@
+import type { Migration } from './types.js';
+
+/**
+ * The schema the project started with. IF NOT EXISTS lets databases created
+ * before migrations existed adopt this version.
+ */
+export const migration: Migration = {
+  name: '001_initial',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        title TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS messages (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        role TEXT NOT NULL CHECK(role IN ('user', 'assistant')),
+        content TEXT NOT NULL,
+        status TEXT DEFAULT 'sent' CHECK(status IN ('sending', 'sent', 'failed')),
+        error_message TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id);
+
+      -- Left behind by deletes on connections without foreign keys enabled
+      DELETE FROM messages WHERE conversation_id NOT IN (SELECT id FROM conversations);
+    `);
+  },
+};
@@ -0,0 +1,112 @@
+import type { Migration } from './types.js';
+import { getColumns, rebuildTable } from './helpers.js';
+
+/**
+ * Shared presets, per-conversation settings and titles, message branches
+ * (`parent_id`), regenerated versions, citations, the 'cancelled' status
+ * and rolling summaries.
+ *
+ * Rows orphaned while foreign keys weren't enforced are removed so the
+ * integrity check passes.
+ */
+export const migration: Migration = {
+  name: '002_branches_and_settings',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS presets (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT,
+        instructions TEXT,
+        model TEXT,
+        temperature REAL CHECK(temperature IS NULL OR (temperature >= 0 AND temperature <= 2)),
+        max_tokens INTEGER CHECK(max_tokens IS NULL OR max_tokens > 0),
+        starter_questions TEXT NOT NULL DEFAULT '[]',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    rebuildTable(db, 'conversations', `
+      id TEXT PRIMARY KEY,
+      title TEXT,
+      -- Set once the user names the chat; generated titles never replace it
+      title_is_custom INTEGER NOT NULL DEFAULT 0,
+      active_leaf_id TEXT,
+      instructions TEXT,
+      model TEXT,
+      temperature REAL CHECK(temperature IS NULL OR (temperature >= 0 AND temperature <= 2)),
+      max_tokens INTEGER CHECK(max_tokens IS NULL OR max_tokens > 0),
+      preset_id TEXT REFERENCES presets(id) ON DELETE SET NULL,
+      starter_questions TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    `);
+
+    const hadBranches = getColumns(db, 'messages').includes('parent_id');
+    rebuildTable(db, 'messages', `
+      id TEXT PRIMARY KEY,
+      conversation_id TEXT NOT NULL,
+      parent_id TEXT REFERENCES messages(id) ON DELETE CASCADE,
+      role TEXT NOT NULL CHECK(role IN ('user', 'assistant')),
+      content TEXT NOT NULL,
+      status TEXT DEFAULT 'sent' CHECK(status IN ('sending', 'sent', 'failed', 'cancelled')),
+      error_message TEXT,
+      citations TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+    `);
+
+    if (!hadBranches) {
+      // Flat histories become a single branch, each message under the one before it
+      db.exec(`
+        UPDATE messages SET parent_id = (
+          SELECT prev.id FROM messages prev
+          WHERE prev.conversation_id = messages.conversation_id
+            AND (prev.created_at < messages.created_at
+              OR (prev.created_at = messages.created_at AND prev.rowid < messages.rowid))
+          ORDER BY prev.created_at DESC, prev.rowid DESC LIMIT 1
+        )
+      `);
+    }
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_conversations_updated ON conversations(updated_at, id);
+      CREATE INDEX IF NOT EXISTS idx_messages_conversation_created ON messages(conversation_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_messages_parent ON messages(parent_id);
+
+      CREATE TABLE IF NOT EXISTS message_versions (
+        id TEXT PRIMARY KEY,
+        message_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        status TEXT NOT NULL CHECK(status IN ('sent', 'failed', 'cancelled')),
+        error_message TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_message_versions_message ON message_versions(message_id);
+
+      CREATE TABLE IF NOT EXISTS conversation_summaries (
+        conversation_id TEXT PRIMARY KEY,
+        summary TEXT NOT NULL,
+        through_message_id TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+      );
+
+      DELETE FROM messages WHERE id IN (
+        WITH RECURSIVE orphans(id) AS (
+          SELECT id FROM messages WHERE parent_id IS NOT NULL AND parent_id NOT IN (SELECT id FROM messages)
+          UNION
+          SELECT m.id FROM messages m JOIN orphans o ON m.parent_id = o.id
+        )
+        SELECT id FROM orphans
+      );
+      DELETE FROM message_versions WHERE message_id NOT IN (SELECT id FROM messages);
+      DELETE FROM conversation_summaries WHERE conversation_id NOT IN (SELECT id FROM conversations);
+      UPDATE conversations SET preset_id = NULL
+        WHERE preset_id IS NOT NULL AND preset_id NOT IN (SELECT id FROM presets);
+    `);
+  },
+};
@@ -0,0 +1,56 @@
+import type { Migration } from './types.js';
+
+/**
+ * Uploaded documents, split into chunks with a full-text index for
+ * retrieval.
+ */
+export const migration: Migration = {
+  name: '004_documents',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS documents (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        page_count INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_documents_conversation ON documents(conversation_id);
+
+      CREATE TABLE IF NOT EXISTS document_chunks (
+        id INTEGER PRIMARY KEY,
+        document_id TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        page INTEGER,
+        content TEXT NOT NULL,
+        FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_document_chunks_document ON document_chunks(document_id);
+
+      -- Full-text index over chunk content, kept in sync by the triggers below
+      CREATE VIRTUAL TABLE IF NOT EXISTS document_chunks_fts USING fts5(
+        content,
+        content='document_chunks',
+        content_rowid='id',
+        tokenize='porter unicode61'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS document_chunks_ai AFTER INSERT ON document_chunks BEGIN
+        INSERT INTO document_chunks_fts (rowid, content) VALUES (new.id, new.content);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS document_chunks_ad AFTER DELETE ON document_chunks BEGIN
+        INSERT INTO document_chunks_fts (document_chunks_fts, rowid, content) VALUES ('delete', old.id, old.content);
+      END;
+
+      -- Uploads to conversations deleted while foreign keys were off
+      DELETE FROM documents WHERE conversation_id NOT IN (SELECT id FROM conversations);
+      DELETE FROM document_chunks WHERE document_id NOT IN (SELECT id FROM documents);
+    `);
+  },
+};
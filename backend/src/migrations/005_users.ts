@@ -0,0 +1,35 @@
+import type { Migration } from './types.js';
+
+/**
+ * User accounts, login sessions and conversation ownership.
+ *
+ * Conversations created before accounts existed have no owner until an
+ * admin hands them to an account with `npm run migrate claim <username>`.
+ */
+export const migration: Migration = {
+  name: '005_users',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS sessions (
+        token_hash TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
+
+      ALTER TABLE conversations ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE CASCADE;
+
+      CREATE INDEX IF NOT EXISTS idx_conversations_user ON conversations(user_id, updated_at, id);
+    `);
+  },
+};
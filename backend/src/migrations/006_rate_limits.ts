@@ -0,0 +1,42 @@
+import type { Migration } from './types.js';
+
+/**
+ * Usage counters behind the rate limits: recent requests per user, the
+ * replies currently streaming, and tokens spent per user per UTC day.
+ * Times are epoch milliseconds so windows can be compared directly.
+ */
+export const migration: Migration = {
+  name: '006_rate_limits',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS request_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_request_log_user ON request_log(user_id, created_at);
+
+      CREATE TABLE IF NOT EXISTS active_streams (
+        message_id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE,
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_active_streams_conversation ON active_streams(conversation_id, started_at);
+
+      CREATE TABLE IF NOT EXISTS token_usage (
+        user_id TEXT NOT NULL,
+        day TEXT NOT NULL,
+        tokens INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (user_id, day),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+    `);
+  },
+};
@@ -0,0 +1,30 @@
+import type { Migration } from './types.js';
+
+/**
+ * Machine-readable error codes next to `error_message`, for failed replies
+ * and their archived versions.
+ *
+ * Failures stored before codes existed are matched on the friendly message
+ * they were saved with.
+ */
+export const migration: Migration = {
+  name: '007_error_codes',
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE messages ADD COLUMN error_code TEXT;
+      ALTER TABLE message_versions ADD COLUMN error_code TEXT;
+    `);
+
+    for (const table of ['messages', 'message_versions']) {
+      db.exec(`
+        UPDATE ${table} SET error_code = CASE
+          WHEN error_message LIKE 'AI service is busy%' THEN 'rate_limited'
+          WHEN error_message LIKE 'AI service quota exceeded%' THEN 'quota_exceeded'
+          WHEN error_message LIKE 'AI service configuration error%' THEN 'auth'
+          ELSE 'unavailable'
+        END
+        WHERE status = 'failed'
+      `);
+    }
+  },
+};
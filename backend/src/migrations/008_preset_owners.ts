@@ -0,0 +1,30 @@
+import type { Migration } from './types.js';
+import { rebuildTable } from './helpers.js';
+
+/**
+ * Preset owners. Presets without one are shared: every user sees them, but
+ * they can only be changed outside the API (e.g. by `npm run seed`). The
+ * presets that exist already become shared. Names are unique per owner.
+ */
+export const migration: Migration = {
+  name: '008_preset_owners',
+  up: (db) => {
+    rebuildTable(db, 'presets', `
+      id TEXT PRIMARY KEY,
+      user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      description TEXT,
+      instructions TEXT,
+      model TEXT,
+      temperature REAL CHECK(temperature IS NULL OR (temperature >= 0 AND temperature <= 2)),
+      max_tokens INTEGER CHECK(max_tokens IS NULL OR max_tokens > 0),
+      starter_questions TEXT NOT NULL DEFAULT '[]',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    `);
+
+    db.exec(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_presets_owner_name ON presets(COALESCE(user_id, ''), name);
+    `);
+  },
+};
@@ -0,0 +1,17 @@
+import type { Migration } from './types.js';
+
+/**
+ * A `shared` flag on presets. Shared presets are listed for every user;
+ * only their owner can change them, including whether they are shared.
+ * Presets without an owner (from `npm run seed`, or from before owners
+ * existed) were shared already and stay that way.
+ */
+export const migration: Migration = {
+  name: '009_shared_presets',
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE presets ADD COLUMN shared INTEGER NOT NULL DEFAULT 0 CHECK(shared IN (0, 1));
+      UPDATE presets SET shared = 1 WHERE user_id IS NULL;
+    `);
+  },
+};
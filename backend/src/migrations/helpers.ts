@@ -0,0 +1,27 @@
+import type Database from 'better-sqlite3';
+
+export function getColumns(db: Database.Database, table: string): string[] {
+  return (db.prepare('SELECT name FROM pragma_table_info(?)').all(table) as Array<{ name: string }>)
+    .map((column) => column.name);
+}
+
+/**
+ * Recreate `table` from a new column definition, keeping its rows and
+ * rowids. SQLite can't change constraints in place, so this follows its
+ * documented copy-and-rename procedure. Columns the old table lacks get
+ * their defaults; columns left out of the definition are dropped.
+ *
+ * Indexes and triggers on the table are dropped along with it and have to
+ * be recreated by the caller.
+ */
+export function rebuildTable(db: Database.Database, table: string, definition: string) {
+  const oldColumns = getColumns(db, table);
+  db.exec(`CREATE TABLE ${table}_new (${definition})`);
+
+  const newColumns = new Set(getColumns(db, `${table}_new`));
+  const shared = oldColumns.filter((column) => newColumns.has(column)).join(', ');
+  db.exec(`INSERT INTO ${table}_new (rowid, ${shared}) SELECT rowid, ${shared} FROM ${table}`);
+
+  db.exec(`DROP TABLE ${table}`);
+  db.exec(`ALTER TABLE ${table}_new RENAME TO ${table}`);
+}
@@ -0,0 +1,97 @@
+/**
+ * Migrations
+ *
+ * Schema changes are ordered migration files listed below. The number of
+ * applied migrations is stored in the database's `PRAGMA user_version`, so
+ * adding a column or changing a constraint is a new file here, never an
+ * edit to an old one. Pending migrations run at startup (initDb) or with
+ * `npm run migrate`.
+ */
+
+import type Database from 'better-sqlite3';
+
+import type { Migration } from './types.js';
+import { migration as initial } from './001_initial.js';
+import { migration as branchesAndSettings } from './002_branches_and_settings.js';
+import { migration as search } from './003_search.js';
+import { migration as documents } from './004_documents.js';
+import { migration as users } from './005_users.js';
+import { migration as rateLimits } from './006_rate_limits.js';
+import { migration as errorCodes } from './007_error_codes.js';
+import { migration as presetOwners } from './008_preset_owners.js';
+import { migration as sharedPresets } from './009_shared_presets.js';
+
+export type { Migration } from './types.js';
+
+/** In order; a migration's version is its position plus one */
+export const migrations: Migration[] = [
+  initial,
+  branchesAndSettings,
+  search,
+  documents,
+  users,
+  rateLimits,
+  errorCodes,
+  presetOwners,
+  sharedPresets,
+];
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+export function getMigrationStatus(db: Database.Database): MigrationStatus[] {
+  const current = getSchemaVersion(db);
+  return migrations.map((migration, i) => ({
+    version: i + 1,
+    name: migration.name,
+    applied: i + 1 <= current,
+  }));
+}
+
+/**
+ * Apply pending migrations, each in its own transaction. Foreign keys are
+ * off while they run so tables can be rebuilt, and checked before each
+ * migration commits.
+ *
+ * @returns Names of the migrations applied
+ */
+export function runMigrations(db: Database.Database): string[] {
+  const current = getSchemaVersion(db);
+  if (current > migrations.length) {
+    throw new Error(
+      `Database schema version ${current} is newer than this build (${migrations.length}); update the code`
+    );
+  }
+
+  const pending = migrations.slice(current);
+  if (pending.length === 0) return [];
+
+  // Has no effect inside a transaction, so toggled around them
+  db.pragma('foreign_keys = OFF');
+  try {
+    pending.forEach((migration, i) => {
+      db.transaction(() => {
+        migration.up(db);
+
+        const violations = db.pragma('foreign_key_check') as Array<{ table: string }>;
+        if (violations.length > 0) {
+          throw new Error(
+            `Migration ${migration.name} left ${violations.length} foreign key violation(s) in ${violations[0].table}`
+          );
+        }
+        db.pragma(`user_version = ${current + i + 1}`);
+      })();
+    });
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+
+  return pending.map((migration) => migration.name);
+}
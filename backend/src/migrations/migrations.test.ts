@@ -0,0 +1,263 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+
+import { migrations, runMigrations } from './index.js';
+
+/** The schema databases had before migrations, as the first version created it */
+const BASELINE_SCHEMA = `
+  CREATE TABLE conversations (
+    id TEXT PRIMARY KEY,
+    title TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE messages (
+    id TEXT PRIMARY KEY,
+    conversation_id TEXT NOT NULL,
+    role TEXT NOT NULL CHECK(role IN ('user', 'assistant')),
+    content TEXT NOT NULL,
+    status TEXT DEFAULT 'sent' CHECK(status IN ('sending', 'sent', 'failed')),
+    error_message TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+  );
+`;
+
+/** Tables and columns the branching build added (parent_id, active leaf, versions) */
+const BRANCHES_SCHEMA = BASELINE_SCHEMA
+  .replace("'sent', 'failed')", "'sent', 'failed', 'cancelled')")
+  .replace('title TEXT,', 'title TEXT,\n    active_leaf_id TEXT,')
+  .replace('conversation_id TEXT NOT NULL,', 'conversation_id TEXT NOT NULL,\n    parent_id TEXT REFERENCES messages(id) ON DELETE CASCADE,') + `
+  CREATE TABLE message_versions (
+    id TEXT PRIMARY KEY,
+    message_id TEXT NOT NULL,
+    content TEXT NOT NULL,
+    status TEXT NOT NULL CHECK(status IN ('sent', 'failed', 'cancelled')),
+    error_message TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+  );
+`;
+
+/** Per-conversation settings columns */
+const SETTINGS_SCHEMA = BRANCHES_SCHEMA.replace(
+  'active_leaf_id TEXT,',
+  'active_leaf_id TEXT,\n    instructions TEXT,\n    model TEXT,\n    temperature REAL,\n    max_tokens INTEGER,'
+);
+
+/** Shared presets, and the preset a conversation was started from */
+const PRESETS_SCHEMA = SETTINGS_SCHEMA.replace(
+  'max_tokens INTEGER,',
+  'max_tokens INTEGER,\n    preset_id TEXT REFERENCES presets(id) ON DELETE SET NULL,\n    starter_questions TEXT,'
+) + `
+  CREATE TABLE presets (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    instructions TEXT,
+    model TEXT,
+    temperature REAL,
+    max_tokens INTEGER,
+    starter_questions TEXT NOT NULL DEFAULT '[]',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`;
+
+/** Uploaded documents with their chunk index, and citations on replies */
+const DOCUMENTS_SCHEMA = PRESETS_SCHEMA.replace(
+  'error_message TEXT,\n    created_at',
+  'error_message TEXT,\n    citations TEXT,\n    created_at'
+) + `
+  CREATE TABLE documents (
+    id TEXT PRIMARY KEY,
+    conversation_id TEXT NOT NULL,
+    filename TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    size_bytes INTEGER NOT NULL,
+    page_count INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+  );
+
+  CREATE TABLE document_chunks (
+    id INTEGER PRIMARY KEY,
+    document_id TEXT NOT NULL,
+    chunk_index INTEGER NOT NULL,
+    page INTEGER,
+    content TEXT NOT NULL,
+    FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE
+  );
+
+  CREATE VIRTUAL TABLE document_chunks_fts USING fts5(
+    content,
+    content='document_chunks',
+    content_rowid='id',
+    tokenize='porter unicode61'
+  );
+
+  CREATE TRIGGER document_chunks_ai AFTER INSERT ON document_chunks BEGIN
+    INSERT INTO document_chunks_fts (rowid, content) VALUES (new.id, new.content);
+  END;
+
+  CREATE TRIGGER document_chunks_ad AFTER DELETE ON document_chunks BEGIN
+    INSERT INTO document_chunks_fts (document_chunks_fts, rowid, content) VALUES ('delete', old.id, old.content);
+  END;
+`;
+
+/** Full-text indexes over message content and conversation titles */
+const SEARCH_SCHEMA = DOCUMENTS_SCHEMA + `
+  CREATE VIRTUAL TABLE messages_fts USING fts5(content, content='messages', tokenize='porter unicode61');
+
+  CREATE TRIGGER messages_fts_ai AFTER INSERT ON messages BEGIN
+    INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+  END;
+
+  CREATE TRIGGER messages_fts_ad AFTER DELETE ON messages BEGIN
+    INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+  END;
+
+  CREATE VIRTUAL TABLE conversations_fts USING fts5(title, content='conversations', tokenize='porter unicode61');
+
+  CREATE TRIGGER conversations_fts_ai AFTER INSERT ON conversations BEGIN
+    INSERT INTO conversations_fts (rowid, title) VALUES (new.rowid, new.title);
+  END;
+
+  CREATE TRIGGER conversations_fts_ad AFTER DELETE ON conversations BEGIN
+    INSERT INTO conversations_fts (conversations_fts, rowid, title) VALUES ('delete', old.rowid, old.title);
+  END;
+`;
+
+/** Whether the user renamed a conversation, so titles aren't generated over it */
+const TITLES_SCHEMA = SEARCH_SCHEMA.replace('title TEXT,', 'title TEXT,\n    title_is_custom INTEGER NOT NULL DEFAULT 0,');
+
+/**
+ * A database in the shape an earlier build left it, holding one exchange,
+ * then brought up to date.
+ */
+function upgrade(schema: string, rows = ''): Database.Database {
+  const db = new Database(':memory:');
+  db.exec(schema);
+  db.exec(`
+    INSERT INTO conversations (id, title) VALUES ('c1', 'Riser layout');
+    INSERT INTO messages (id, conversation_id, role, content, created_at)
+      VALUES ('m1', 'c1', 'user', 'Where is the riser?', '2024-01-01 09:00:00');
+    INSERT INTO messages (id, conversation_id, role, content, created_at)
+      VALUES ('m2', 'c1', 'assistant', 'In the north core.', '2024-01-01 09:00:05');
+    ${rows}
+  `);
+  runMigrations(db);
+  assert.equal(db.pragma('user_version', { simple: true }), migrations.length);
+  return db;
+}
+
+describe('upgrading databases created before migrations', () => {
+  test("a baseline database accepts the 'cancelled' status", () => {
+    const db = upgrade(BASELINE_SCHEMA);
+
+    db.prepare("UPDATE messages SET status = 'cancelled' WHERE id = 'm2'").run();
+    assert.equal((db.prepare("SELECT status FROM messages WHERE id = 'm2'").get() as { status: string }).status, 'cancelled');
+  });
+
+  test('flat histories become a single branch', () => {
+    const db = upgrade(BASELINE_SCHEMA);
+
+    const rows = db.prepare('SELECT id, parent_id FROM messages ORDER BY created_at').all();
+    assert.deepEqual(rows, [{ id: 'm1', parent_id: null }, { id: 'm2', parent_id: 'm1' }]);
+  });
+
+  test('a database from the branching build keeps its tree, active leaf and versions', () => {
+    const db = upgrade(BRANCHES_SCHEMA, `
+      UPDATE messages SET parent_id = 'm1' WHERE id = 'm2';
+      UPDATE conversations SET active_leaf_id = 'm2';
+      INSERT INTO message_versions (id, message_id, content, status) VALUES ('v1', 'm2', 'East core.', 'sent');
+    `);
+
+    assert.equal((db.prepare("SELECT parent_id FROM messages WHERE id = 'm2'").get() as { parent_id: string }).parent_id, 'm1');
+    assert.equal((db.prepare("SELECT active_leaf_id FROM conversations WHERE id = 'c1'").get() as { active_leaf_id: string }).active_leaf_id, 'm2');
+    assert.deepEqual(db.prepare('SELECT id, content FROM message_versions').all(), [{ id: 'v1', content: 'East core.' }]);
+  });
+
+  test('conversation settings survive the upgrade', () => {
+    const db = upgrade(SETTINGS_SCHEMA, `
+      UPDATE conversations SET instructions = 'Cite spec sections.', model = 'gpt-4o', temperature = 0.2, max_tokens = 800;
+    `);
+
+    assert.deepEqual(
+      { ...(db.prepare("SELECT instructions, model, temperature, max_tokens FROM conversations WHERE id = 'c1'").get() as object) },
+      { instructions: 'Cite spec sections.', model: 'gpt-4o', temperature: 0.2, max_tokens: 800 }
+    );
+  });
+
+  test('presets and the chats started from them survive the upgrade', () => {
+    const db = upgrade(PRESETS_SCHEMA, `
+      INSERT INTO presets (id, name, starter_questions) VALUES ('p1', 'Spec Reviewer', '["Which sections changed?"]');
+      UPDATE conversations SET preset_id = 'p1', starter_questions = '["Which sections changed?"]';
+    `);
+
+    assert.deepEqual(
+      { ...(db.prepare("SELECT name, starter_questions FROM presets WHERE id = 'p1'").get() as object) },
+      { name: 'Spec Reviewer', starter_questions: '["Which sections changed?"]' }
+    );
+    assert.equal((db.prepare("SELECT preset_id FROM conversations WHERE id = 'c1'").get() as { preset_id: string }).preset_id, 'p1');
+    // Presets from before owners are shared
+    assert.deepEqual(
+      { ...(db.prepare("SELECT user_id, shared FROM presets WHERE id = 'p1'").get() as { user_id: string | null; shared: number }) },
+      { user_id: null, shared: 1 }
+    );
+  });
+
+  test('uploaded documents and citations survive the upgrade', () => {
+    const citations = JSON.stringify([{ index: 1, documentId: 'd1', filename: 'spec.pdf', page: 3 }]);
+    const db = upgrade(DOCUMENTS_SCHEMA, `
+      INSERT INTO documents (id, conversation_id, filename, mime_type, size_bytes, page_count)
+        VALUES ('d1', 'c1', 'spec.pdf', 'application/pdf', 2048, 4);
+      INSERT INTO document_chunks (document_id, chunk_index, page, content)
+        VALUES ('d1', 0, 3, 'The riser sits in the north core.');
+      UPDATE messages SET citations = '${citations}' WHERE id = 'm2';
+    `);
+
+    assert.equal((db.prepare("SELECT citations FROM messages WHERE id = 'm2'").get() as { citations: string }).citations, citations);
+    const matches = db
+      .prepare("SELECT c.document_id FROM document_chunks_fts f JOIN document_chunks c ON c.id = f.rowid WHERE document_chunks_fts MATCH 'riser'")
+      .all();
+    assert.deepEqual(matches, [{ document_id: 'd1' }]);
+
+    // Deleting the conversation still removes its uploads
+    db.prepare("DELETE FROM conversations WHERE id = 'c1'").run();
+    assert.equal((db.prepare('SELECT COUNT(*) AS n FROM document_chunks').get() as { n: number }).n, 0);
+  });
+
+  test('a database from the search build keeps finding old and new messages', () => {
+    const db = upgrade(SEARCH_SCHEMA);
+    const search = (query: string) =>
+      (db
+        .prepare('SELECT m.id FROM messages_fts f JOIN messages m ON m.rowid = f.rowid WHERE messages_fts MATCH ? ORDER BY m.id')
+        .all(query) as Array<{ id: string }>)
+        .map((row) => row.id);
+
+    assert.deepEqual(search('core'), ['m2']);
+    assert.deepEqual(
+      db.prepare("SELECT c.id FROM conversations_fts f JOIN conversations c ON c.rowid = f.rowid WHERE conversations_fts MATCH 'riser'").all(),
+      [{ id: 'c1' }]
+    );
+
+    db.prepare("INSERT INTO messages (id, conversation_id, parent_id, role, content) VALUES ('m3', 'c1', 'm2', 'user', 'And the south core?')").run();
+    db.prepare("UPDATE messages SET content = 'In the east shaft.' WHERE id = 'm2'").run();
+    assert.deepEqual(search('core'), ['m3']);
+  });
+
+  test('renamed conversations keep their custom title', () => {
+    const db = upgrade(TITLES_SCHEMA, `
+      INSERT INTO conversations (id, title) VALUES ('c2', 'New Conversation');
+      UPDATE conversations SET title_is_custom = 1 WHERE id = 'c1';
+    `);
+
+    assert.deepEqual(db.prepare('SELECT id, title_is_custom FROM conversations ORDER BY id').all(), [
+      { id: 'c1', title_is_custom: 1 },
+      { id: 'c2', title_is_custom: 0 },
+    ]);
+  });
+});
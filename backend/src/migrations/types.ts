@@ -0,0 +1,8 @@
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  /** Shown by `npm run migrate:status`, e.g. "001_initial" */
+  name: string;
+  /** Apply the migration; runs inside a transaction with foreign keys off */
+  up: (db: Database.Database) => void;
+}
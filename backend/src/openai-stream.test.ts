@@ -0,0 +1,59 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { AIError } from './ai-errors.js';
+import { setRetryPolicy } from './ai-retry.js';
+import { logger } from './logger.js';
+import { createAIStream } from './openai-stream.js';
+import { createMockProvider, setProvider } from './providers/index.js';
+
+/** Run a stream to its end, collecting what each callback received */
+function runStream(callbacks: { onChunk?: (text: string) => void; onDone?: () => void } = {}) {
+  return new Promise<{ chunks: string[]; error?: AIError; done: boolean }>((resolve) => {
+    const chunks: string[] = [];
+    createAIStream(
+      'Fire rating?',
+      (text) => {
+        chunks.push(text);
+        callbacks.onChunk?.(text);
+      },
+      (error) => resolve({ chunks, error, done: false }),
+      () => {
+        callbacks.onDone?.();
+        resolve({ chunks, done: true });
+      }
+    );
+  });
+}
+
+describe('createAIStream', () => {
+  before(() => {
+    logger.silent = true;
+    setRetryPolicy({ maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 });
+  });
+
+  test('retries a transient failure before the first chunk', async () => {
+    const provider = createMockProvider({ chunkDelayMs: 0 });
+    provider.enqueue({ error: 'server' }, { chunks: ['Two ', 'hours.'] });
+    setProvider(provider);
+
+    assert.deepEqual(await runStream(), { chunks: ['Two ', 'hours.'], done: true });
+    assert.equal(provider.requests.length, 2);
+  });
+
+  test('reports an error in its own callbacks as internal, without retrying', async () => {
+    const provider = createMockProvider({ chunkDelayMs: 0 });
+    provider.enqueue({ chunks: ['Two ', 'hours.'] });
+    setProvider(provider);
+
+    const result = await runStream({
+      onChunk: () => {
+        throw new Error('Cannot write to a closed response');
+      },
+    });
+
+    assert.equal(result.error?.code, 'internal');
+    assert.deepEqual(result.chunks, ['Two ']);
+    assert.equal(provider.requests.length, 1);
+  });
+});
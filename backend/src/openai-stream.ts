@@ -1,21 +1,29 @@
 /**
- * OpenAI Streaming Helper
+ * AI Streaming Helper
  *
- * Uses the OpenAI API to generate AI responses and stream them
+ * Uses the configured LLM provider to generate AI responses and stream them
  * back to the client word-by-word via callbacks.
  *
  * Features:
- * - Real AI responses from gpt-4o-mini (fast and cheap)
+ * - Pluggable providers: OpenAI, OpenAI-compatible servers, offline mock
  * - Streaming output for real-time UX
  * - Conversation context support
+ * - Retrieved document passages for cited answers
  * - Cleanup function to cancel mid-stream
+ * - Failures classified into error codes (see ai-errors.ts)
+ * - Transient failures before the first chunk retried with backoff (see ai-retry.ts)
  */
 
-import OpenAI from 'openai';
+import { logger as baseLogger } from './logger.js';
+import { getProvider, type ChatMessage, type TokenUsage } from './providers/index.js';
+import { AIError, toAIError } from './ai-errors.js';
+import { retryDelay } from './ai-retry.js';
+import { assemblePrompt, type SourcePassage } from './prompt.js';
+import { countMessagesTokens, estimateTokens } from './tokens.js';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+export type { TokenUsage } from './providers/index.js';
+
+const logger = baseLogger.child({ service: 'ai-service' });
 
 export interface Message {
   role: 'user' | 'assistant';
@@ -27,133 +35,184 @@ export interface StreamOptions {
   instructions?: string;
   /** Previous messages for context */
   conversationHistory?: Message[];
+  /** Rolling summary of older turns that no longer fit in the history */
+  summary?: string;
+  /** Document passages retrieved for this question, cited by number */
+  passages?: SourcePassage[];
+  /** Model override; defaults to the provider's model */
+  model?: string;
+  /** Sampling temperature (0-2) */
+  temperature?: number;
+  /** Maximum tokens in the reply */
+  maxTokens?: number;
+  /**
+   * Called when a failed attempt will be retried, with the number of the
+   * attempt about to start (2 for the first retry) and the wait before it
+   */
+  onRetry?: (attempt: number, delayMs: number, error: AIError) => void;
 }
 
-const DEFAULT_INSTRUCTIONS = `You are a helpful AI assistant for a construction document management platform called Muro.
+export const DEFAULT_INSTRUCTIONS = `You are a helpful AI assistant for a construction document management platform called Muro.
 You help users analyze construction documents, compare bids, review specifications, and answer questions about their projects.
 Keep responses concise but informative. Use markdown formatting when helpful (bullet points, bold for emphasis).
 If you don't have enough context to answer a question, ask for clarification.`;
 
 /**
- * Creates a streaming AI response using the OpenAI API.
+ * Build the chat messages sent to the provider.
+ */
+function buildMessages(userMessage: string, options: StreamOptions): ChatMessage[] {
+  return assemblePrompt({
+    instructions: options.instructions ?? DEFAULT_INSTRUCTIONS,
+    summary: options.summary,
+    passages: options.passages,
+    history: options.conversationHistory ?? [],
+    userMessage,
+  });
+}
+
+/**
+ * Token usage counted locally, for providers that report none.
+ */
+function estimateUsage(messages: ChatMessage[], reply: string): TokenUsage {
+  const promptTokens = countMessagesTokens(messages);
+  const completionTokens = estimateTokens(reply);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+}
+
+/**
+ * Creates a streaming AI response using the configured provider.
  *
  * @param userMessage - The user's message to respond to
  * @param onChunk - Called for each chunk of text as it streams
- * @param onError - Called if an error occurs
+ * @param onError - Called if an error occurs, classified by toAIError. If
+ *   part of the reply had streamed, also with the tokens spent on it
  * @param onDone - Called when streaming is complete, with the full response
+ *   and the request's token usage (estimated if the provider reports none)
  * @param options - Optional configuration
- * @returns Cleanup function to cancel the stream
+ * @returns Cleanup function to cancel the stream. It returns the estimated
+ *   tokens spent on the request it stopped, if one was under way
  */
 export function createAIStream(
   userMessage: string,
   onChunk: (text: string) => void,
-  onError: (error: Error) => void,
-  onDone: (fullResponse: string) => void,
+  onError: (error: AIError, usage?: TokenUsage) => void,
+  onDone: (fullResponse: string, usage: TokenUsage) => void,
   options: StreamOptions = {}
-): () => void {
-  const {
-    instructions = DEFAULT_INSTRUCTIONS,
-    conversationHistory = [],
-  } = options;
-
+): () => TokenUsage | undefined {
   let cancelled = false;
+  const controller = new AbortController();
 
   // Build messages array for chat completion
-  const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-    { role: 'system', content: instructions },
-    ...conversationHistory.map((msg) => ({
-      role: msg.role as 'user' | 'assistant',
-      content: msg.content,
-    })),
-    { role: 'user', content: userMessage },
-  ];
+  const messages = buildMessages(userMessage, options);
+  let fullText = '';
+  // A provider request is under way; stopping it still spends its tokens
+  let inFlight = false;
+
+  // Tokens spent by a request that was cut short
+  const spentUsage = () => (fullText ? estimateUsage(messages, fullText) : undefined);
 
   (async () => {
-    try {
-      // Call OpenAI Chat Completions API with streaming enabled
-      const stream = await openai.chat.completions.create({
-        model: 'gpt-4o-mini', // Fast and cost-effective
-        messages,
-        max_tokens: 1024,
-        stream: true, // Enable true streaming
-      });
+    for (let attempt = 1; ; attempt++) {
+      let reportedUsage: TokenUsage | null = null;
+      let stream: AsyncIterator<string> | undefined;
+      let failure: { error: unknown } | undefined;
+
+      // Process the stream as chunks arrive from the provider. Only the
+      // provider is guarded: an error thrown by onChunk or onDone is a bug
+      // here, not a failure of the AI service.
+      while (!cancelled) {
+        let next: IteratorResult<string>;
+        try {
+          inFlight = true;
+          stream ??= getProvider().stream({
+            messages,
+            model: options.model,
+            temperature: options.temperature,
+            maxTokens: options.maxTokens,
+            signal: controller.signal,
+            onUsage: (usage) => {
+              reportedUsage = usage;
+            },
+          })[Symbol.asyncIterator]();
+          next = await stream.next();
+        } catch (error) {
+          failure = { error };
+          break;
+        }
+        if (next.done || cancelled) break;
 
-      if (cancelled) return;
+        fullText += next.value;
+        onChunk(next.value);
+      }
 
-      let fullText = '';
+      if (cancelled) {
+        await stream?.return?.();
+        return;
+      }
+      inFlight = false;
+      if (!failure && !fullText) {
+        failure = { error: new AIError('empty_response') };
+      }
+      if (!failure) {
+        onDone(fullText, reportedUsage ?? estimateUsage(messages, fullText));
+        return;
+      }
 
-      // Process the stream as chunks arrive from OpenAI
-      for await (const chunk of stream) {
-        if (cancelled) break;
+      const aiError = toAIError(failure.error);
+      logger.warn('AI provider error', {
+        code: aiError.code,
+        error: failure.error instanceof Error ? failure.error.message : failure.error,
+      });
 
-        const content = chunk.choices[0]?.delta?.content;
-        if (content) {
-          fullText += content;
-          onChunk(content);
-        }
+      // Retrying is only safe while the user hasn't seen any of the reply
+      const delayMs = fullText ? undefined : retryDelay(aiError, attempt);
+      if (delayMs === undefined) {
+        // Users get the friendly message for the error's code
+        onError(aiError, spentUsage());
+        return;
       }
 
-      if (!cancelled) {
-        if (!fullText) {
-          throw new Error('No response from AI');
-        }
-        onDone(fullText);
-      }
-    } catch (error) {
+      options.onRetry?.(attempt + 1, delayMs, aiError);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
       if (cancelled) return;
-
-      const err = error instanceof Error ? error : new Error('Unknown error');
-      console.error('OpenAI API error:', err.message);
-
-      // Provide user-friendly error messages
-      if (err.message.includes('API key')) {
-        onError(
-          new Error('AI service configuration error. Please contact support.')
-        );
-      } else if (err.message.includes('rate limit')) {
-        onError(
-          new Error('AI service is busy. Please try again in a moment.')
-        );
-      } else if (err.message.includes('insufficient_quota')) {
-        onError(new Error('AI service quota exceeded. Please contact support.'));
-      } else {
-        onError(
-          new Error('AI service temporarily unavailable. Please try again.')
-        );
-      }
     }
-  })();
+  })().catch((error) => {
+    logger.error('Error handling AI stream', { error });
+    inFlight = false;
+    if (!cancelled) onError(new AIError('internal'), spentUsage());
+  });
 
   // Return cleanup function
   return () => {
     cancelled = true;
+    controller.abort();
+    return inFlight ? estimateUsage(messages, fullText) : undefined;
   };
 }
 
+export interface AIResponse {
+  text: string;
+  /** Estimated if the provider reports none */
+  usage: TokenUsage;
+}
+
 /**
  * Alternative: Get a complete response without streaming
  */
 export async function getAIResponse(
   userMessage: string,
   options: StreamOptions = {}
-): Promise<string> {
-  const { instructions = DEFAULT_INSTRUCTIONS, conversationHistory = [] } =
-    options;
-
-  const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-    { role: 'system', content: instructions },
-    ...conversationHistory.map((msg) => ({
-      role: msg.role as 'user' | 'assistant',
-      content: msg.content,
-    })),
-    { role: 'user', content: userMessage },
-  ];
-
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+): Promise<AIResponse> {
+  const messages = buildMessages(userMessage, options);
+  let reportedUsage: TokenUsage | null = null;
+  const text = await getProvider().complete({
     messages,
-    max_tokens: 1024,
+    model: options.model,
+    temperature: options.temperature,
+    maxTokens: options.maxTokens,
+    onUsage: (usage) => {
+      reportedUsage = usage;
+    },
   });
-
-  return response.choices[0]?.message?.content || '';
+  return { text, usage: reportedUsage ?? estimateUsage(messages, text) };
 }
@@ -0,0 +1,34 @@
+/**
+ * Pagination
+ *
+ * List endpoints page with an opaque cursor: the id of the last item the
+ * client has, sent back as `?before=<id>`. Responses carry the cursor for
+ * the following page, or null once the list is exhausted.
+ */
+
+export interface PageParams {
+  before?: string;
+  limit: number;
+}
+
+/**
+ * Validate `before` and `limit` query parameters.
+ */
+export function parsePageParams(
+  query: Record<string, unknown>,
+  { defaultLimit, maxLimit }: { defaultLimit: number; maxLimit: number }
+): PageParams | { error: string } {
+  let limit = defaultLimit;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+      return { error: `limit must be an integer between 1 and ${maxLimit}` };
+    }
+  }
+
+  if (query.before !== undefined && (typeof query.before !== 'string' || query.before === '')) {
+    return { error: 'before must be an id' };
+  }
+
+  return { before: query.before as string | undefined, limit };
+}
@@ -0,0 +1,88 @@
+/**
+ * Prompt Presets
+ *
+ * Named assistant profiles ("Spec Reviewer", "Bid Leveler"...). A preset
+ * bundles conversation settings with starter questions; creating a chat
+ * from a preset copies them into the conversation, so later edits to the
+ * preset don't change existing chats.
+ *
+ * Users see their own presets and the shared ones. Only a preset's owner
+ * can change it or share it; presets without an owner (from `npm run
+ * seed`) are shared and read-only.
+ */
+
+import { db } from './db.js';
+import {
+  createPresetRequestSchema,
+  updatePresetRequestSchema,
+  validate,
+  type Preset,
+  type UpdatePresetRequest,
+} from './contract.js';
+
+export type { Preset } from './contract.js';
+
+type PresetRow = Omit<Preset, 'shared' | 'starter_questions'> & { shared: number; starter_questions: string };
+
+export type PresetInput = UpdatePresetRequest;
+
+/**
+ * Parse the JSON starter question list stored in presets and conversations.
+ */
+export function parseStarterQuestions(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((q) => typeof q === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function toPreset(row: PresetRow): Preset {
+  return { ...row, shared: row.shared === 1, starter_questions: parseStarterQuestions(row.starter_questions) };
+}
+
+/**
+ * The shared presets and `userId`'s own, ordered by name.
+ */
+export function listPresets(userId: string): Preset[] {
+  const rows = db.prepare(
+    'SELECT * FROM presets WHERE shared = 1 OR user_id = ? ORDER BY name COLLATE NOCASE ASC'
+  ).all(userId) as PresetRow[];
+  return rows.map(toPreset);
+}
+
+/**
+ * A preset `userId` can see: a shared one or their own.
+ */
+export function getPreset(id: string, userId: string): Preset | undefined {
+  const row = db.prepare('SELECT * FROM presets WHERE id = ? AND (shared = 1 OR user_id = ?)')
+    .get(id, userId) as PresetRow | undefined;
+  return row ? toPreset(row) : undefined;
+}
+
+/**
+ * Validate a preset request body.
+ * @param requireName - true when creating, where `name` is mandatory
+ */
+export function validatePreset(body: unknown, requireName: boolean): { preset: PresetInput } | { error: string } {
+  const validation = validate(requireName ? createPresetRequestSchema : updatePresetRequestSchema, body);
+  if ('error' in validation) {
+    return validation;
+  }
+  return { preset: validation.data };
+}
+
+/**
+ * Column values for an INSERT/UPDATE, with starter questions serialized
+ * and `shared` stored as 0/1.
+ */
+export function toPresetColumns(preset: PresetInput): Record<string, unknown> {
+  const { starter_questions, shared, ...columns } = preset;
+  return {
+    ...columns,
+    ...(starter_questions !== undefined && { starter_questions: JSON.stringify(starter_questions) }),
+    ...(shared !== undefined && { shared: shared ? 1 : 0 }),
+  };
+}
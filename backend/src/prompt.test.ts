@@ -0,0 +1,172 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { assemblePrompt, selectPromptHistory, type HistoryRow } from './prompt.js';
+
+// Fixtures mirror the "Project Specifications Review" conversation in seed.ts
+const specsConversation: HistoryRow[] = [
+  {
+    id: 'u1',
+    role: 'user',
+    content: 'What are the key electrical requirements in the specs?',
+    status: 'sent',
+  },
+  {
+    id: 'a1',
+    role: 'assistant',
+    content: 'Based on my analysis of the electrical specifications, the key requirements include:\n\n1. **Main Service**: 400A, 480V/277V 3-phase service',
+    status: 'sent',
+  },
+  {
+    id: 'u2',
+    role: 'user',
+    content: 'Yes, tell me more about the emergency power requirements',
+    status: 'sent',
+  },
+  {
+    id: 'a2',
+    role: 'assistant',
+    content: 'The emergency power requirements specify:\n\n- **Generator Capacity**: Minimum 150kW diesel generator',
+    status: 'sent',
+  },
+];
+
+const newTurn: HistoryRow = {
+  id: 'u3',
+  role: 'user',
+  content: 'What transfer time does the ATS need?',
+  status: 'sent',
+};
+
+const placeholder: HistoryRow = { id: 'a3', role: 'assistant', content: '', status: 'sending' };
+
+describe('selectPromptHistory', () => {
+  test('keeps a clean history unchanged', () => {
+    const selected = selectPromptHistory(specsConversation, { content: newTurn.content });
+    assert.deepEqual(selected.map((row) => row.id), ['u1', 'a1', 'u2', 'a2']);
+  });
+
+  test('drops the saved current turn so it is only sent once', () => {
+    const rows = [...specsConversation, newTurn];
+    const selected = selectPromptHistory(rows, { id: 'u3', content: newTurn.content });
+    assert.deepEqual(selected.map((row) => row.id), ['u1', 'a1', 'u2', 'a2']);
+  });
+
+  test('drops a trailing copy of an unsaved current turn', () => {
+    const rows = [...specsConversation, newTurn];
+    const selected = selectPromptHistory(rows, { content: newTurn.content });
+    assert.deepEqual(selected.map((row) => row.id), ['u1', 'a1', 'u2', 'a2']);
+  });
+
+  test('keeps an earlier user message that repeats the current text', () => {
+    const rows: HistoryRow[] = [
+      ...specsConversation,
+      { ...newTurn, id: 'u0' },
+      { id: 'a0', role: 'assistant', content: 'Under 10 seconds.', status: 'sent' },
+    ];
+    const selected = selectPromptHistory(rows, { id: 'u3', content: newTurn.content });
+    assert.deepEqual(selected.map((row) => row.id), ['u1', 'a1', 'u2', 'a2', 'u0', 'a0']);
+  });
+
+  test('excludes failed, cancelled and placeholder assistant rows', () => {
+    const rows: HistoryRow[] = [
+      specsConversation[0],
+      { id: 'f1', role: 'assistant', content: '', status: 'failed' },
+      { id: 'c1', role: 'assistant', content: 'Based on my anal', status: 'cancelled' },
+      specsConversation[2],
+      specsConversation[3],
+      newTurn,
+      placeholder,
+    ];
+    const selected = selectPromptHistory(rows, { id: 'u3', content: newTurn.content });
+    assert.deepEqual(selected.map((row) => row.id), ['u1', 'u2', 'a2']);
+  });
+
+  test('excludes empty rows regardless of status', () => {
+    const rows: HistoryRow[] = [
+      ...specsConversation,
+      { id: 'e1', role: 'assistant', content: '   ', status: 'sent' },
+    ];
+    const selected = selectPromptHistory(rows, { content: newTurn.content });
+    assert.deepEqual(selected.map((row) => row.id), ['u1', 'a1', 'u2', 'a2']);
+  });
+});
+
+describe('assemblePrompt', () => {
+  test('orders instructions, history and the user turn', () => {
+    const history = selectPromptHistory([...specsConversation, newTurn, placeholder], {
+      id: 'u3',
+      content: newTurn.content,
+    });
+    const messages = assemblePrompt({
+      instructions: 'You are a helpful assistant.',
+      history,
+      userMessage: newTurn.content,
+    });
+
+    assert.deepEqual(
+      messages.map((message) => message.role),
+      ['system', 'user', 'assistant', 'user', 'assistant', 'user']
+    );
+    assert.equal(messages[messages.length - 1].content, newTurn.content);
+    assert.equal(
+      messages.filter((message) => message.content === newTurn.content).length,
+      1,
+      'the current question must appear exactly once'
+    );
+  });
+
+  test('adds the rolling summary as a second system message', () => {
+    const messages = assemblePrompt({
+      instructions: 'You are a helpful assistant.',
+      summary: 'The user asked about the 400A electrical service.',
+      history: specsConversation.slice(2),
+      userMessage: newTurn.content,
+    });
+
+    assert.equal(messages[1].role, 'system');
+    assert.match(messages[1].content, /400A electrical service/);
+    assert.equal(messages[2].content, specsConversation[2].content);
+  });
+
+  test('strips row metadata from history messages', () => {
+    const messages = assemblePrompt({
+      instructions: 'You are a helpful assistant.',
+      history: specsConversation.slice(0, 1),
+      userMessage: newTurn.content,
+    });
+
+    assert.deepEqual(messages[1], { role: 'user', content: specsConversation[0].content });
+  });
+
+  test('numbers retrieved passages after the summary and before history', () => {
+    const messages = assemblePrompt({
+      instructions: 'You are a helpful assistant.',
+      summary: 'The user asked about the 400A electrical service.',
+      passages: [
+        { filename: 'Division 26.pdf', page: 14, content: 'Transfer switches shall transfer within 10 seconds.' },
+        { filename: 'notes.md', page: null, content: 'ATS located in electrical room 104.' },
+      ],
+      history: specsConversation.slice(2),
+      userMessage: newTurn.content,
+    });
+
+    assert.deepEqual(
+      messages.map((message) => message.role),
+      ['system', 'system', 'system', 'user', 'assistant', 'user']
+    );
+    assert.match(messages[2].content, /\[1\] Division 26\.pdf, p\. 14\nTransfer switches/);
+    assert.match(messages[2].content, /\[2\] notes\.md\nATS located/);
+  });
+
+  test('omits the sources message when nothing was retrieved', () => {
+    const messages = assemblePrompt({
+      instructions: 'You are a helpful assistant.',
+      passages: [],
+      history: [],
+      userMessage: newTurn.content,
+    });
+
+    assert.equal(messages.length, 2);
+  });
+});
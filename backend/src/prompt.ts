@@ -0,0 +1,104 @@
+/**
+ * Prompt Assembly
+ *
+ * The single place that decides what the model sees for a request:
+ *
+ * 1. `selectPromptHistory` filters stored rows down to real conversation
+ *    turns: assistant rows that failed, were cancelled, or are still empty
+ *    placeholders are dropped, and the user turn being answered is removed
+ *    so it is only sent once, as the final message.
+ * 2. `assemblePrompt` lays out the final message list: instructions, the
+ *    rolling summary (if any), retrieved document passages (if any), the
+ *    budgeted history, then the user turn.
+ */
+
+import type { ChatMessage } from './providers/index.js';
+
+export interface HistoryRow {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  status: string;
+}
+
+export interface CurrentTurn {
+  /** Stored id of the user message being answered, if it has been saved */
+  id?: string;
+  content: string;
+}
+
+/** A document excerpt offered to the model as a numbered source */
+export interface SourcePassage {
+  filename: string;
+  /** 1-based page number, or null for documents without pages */
+  page: number | null;
+  content: string;
+}
+
+export interface PromptParts {
+  instructions: string;
+  summary?: string;
+  /** Cited as [1], [2]... in the order given */
+  passages?: SourcePassage[];
+  history: Array<Pick<ChatMessage, 'content'> & { role: 'user' | 'assistant' }>;
+  userMessage: string;
+}
+
+/** Statuses of rows that never became part of the conversation */
+const EXCLUDED_STATUSES = new Set(['failed', 'cancelled', 'sending']);
+
+/**
+ * Keep only the turns that belong in the prompt, oldest first.
+ */
+export function selectPromptHistory<T extends HistoryRow>(rows: T[], currentTurn: CurrentTurn): T[] {
+  const selected = rows.filter((row) => {
+    if (currentTurn.id && row.id === currentTurn.id) return false;
+    if (row.role === 'assistant' && EXCLUDED_STATUSES.has(row.status)) return false;
+    return row.content.trim().length > 0;
+  });
+
+  // An unsaved current turn may still have been read back as the last row
+  const last = selected[selected.length - 1];
+  if (!currentTurn.id && last?.role === 'user' && last.content === currentTurn.content) {
+    selected.pop();
+  }
+
+  return selected;
+}
+
+/**
+ * Label of a source as shown to the model and in citations, e.g. "spec.pdf, p. 12".
+ */
+export function formatSourceLabel(source: Pick<SourcePassage, 'filename' | 'page'>): string {
+  return source.page === null ? source.filename : `${source.filename}, p. ${source.page}`;
+}
+
+function formatPassages(passages: SourcePassage[]): string {
+  const sources = passages.map(
+    (passage, i) => `[${i + 1}] ${formatSourceLabel(passage)}\n${passage.content}`
+  );
+  return [
+    'Excerpts from documents uploaded to this conversation. When you use one, cite it with its number in square brackets, e.g. [1]. Do not cite sources that are not listed.',
+    ...sources,
+  ].join('\n\n');
+}
+
+/**
+ * Build the exact message list sent to the provider.
+ */
+export function assemblePrompt({ instructions, summary, passages, history, userMessage }: PromptParts): ChatMessage[] {
+  const messages: ChatMessage[] = [{ role: 'system', content: instructions }];
+
+  if (summary) {
+    messages.push({ role: 'system', content: `Summary of the earlier conversation:\n${summary}` });
+  }
+  if (passages && passages.length > 0) {
+    messages.push({ role: 'system', content: formatPassages(passages) });
+  }
+  for (const message of history) {
+    messages.push({ role: message.role, content: message.content });
+  }
+  messages.push({ role: 'user', content: userMessage });
+
+  return messages;
+}
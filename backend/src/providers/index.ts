@@ -0,0 +1,93 @@
+/**
+ * Provider selection
+ *
+ * The active provider is picked from the environment:
+ *
+ *   LLM_PROVIDER   openai (default) | openai-compatible | mock
+ *   LLM_MODEL      model name, defaults per provider
+ *   LLM_BASE_URL   required for openai-compatible (e.g. http://localhost:11434/v1)
+ *   LLM_API_KEY    key for openai-compatible servers that need one
+ *   OPENAI_API_KEY required for openai
+ *   MOCK_SCRIPT    JSON MockScript applied to every mock request
+ *
+ * `setProvider()` overrides the environment, e.g. from tests.
+ */
+
+import { createMockProvider, type MockScript } from './mock.js';
+import { createOpenAIProvider } from './openai.js';
+import type { ChatProvider } from './types.js';
+
+export type { ChatMessage, ChatProvider, ChatRequest, TokenUsage } from './types.js';
+export { createMockProvider, type MockProvider, type MockScript } from './mock.js';
+
+let activeProvider: ChatProvider | null = null;
+
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
+
+/**
+ * Build a provider from environment variables.
+ * @throws ProviderConfigError when required settings are missing
+ */
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env): ChatProvider {
+  const kind = env.LLM_PROVIDER || 'openai';
+
+  switch (kind) {
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        throw new ProviderConfigError('OPENAI_API_KEY is required when LLM_PROVIDER=openai');
+      }
+      return createOpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        model: env.LLM_MODEL || 'gpt-4o-mini',
+      });
+
+    case 'openai-compatible':
+      if (!env.LLM_BASE_URL) {
+        throw new ProviderConfigError('LLM_BASE_URL is required when LLM_PROVIDER=openai-compatible');
+      }
+      if (!env.LLM_MODEL) {
+        throw new ProviderConfigError('LLM_MODEL is required when LLM_PROVIDER=openai-compatible');
+      }
+      return createOpenAIProvider({
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: env.LLM_API_KEY || 'not-needed',
+        baseURL: env.LLM_BASE_URL,
+        model: env.LLM_MODEL,
+        name: 'openai-compatible',
+      });
+
+    case 'mock': {
+      let script: MockScript = {};
+      if (env.MOCK_SCRIPT) {
+        try {
+          script = JSON.parse(env.MOCK_SCRIPT);
+        } catch {
+          throw new ProviderConfigError('MOCK_SCRIPT must be valid JSON');
+        }
+      }
+      return createMockProvider(script);
+    }
+
+    default:
+      throw new ProviderConfigError(`Unknown LLM_PROVIDER "${kind}"`);
+  }
+}
+
+/**
+ * Get the active provider, creating it from the environment on first use.
+ */
+export function getProvider(): ChatProvider {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+  }
+  return activeProvider;
+}
+
+export function setProvider(provider: ChatProvider) {
+  activeProvider = provider;
+}
@@ -0,0 +1,198 @@
+/**
+ * Mock Provider
+ *
+ * Deterministic, offline stand-in for a real LLM. Replies are split into
+ * word chunks with scripted timings, and can be scripted to fail the same
+ * way the OpenAI SDK does (rate limits, quota, auth, 5xx, network drops,
+ * content filtering, oversized prompts).
+ *
+ * Scripts come from three places, in priority order:
+ * 1. `enqueue()`d scripts, consumed one per request (tests)
+ * 2. A `[mock:<error>]` or `[mock:<error>@<n>]` directive in the latest user
+ *    message, failing after `n` chunks (manual testing from the UI)
+ * 3. The provider's default script (`MOCK_SCRIPT` env as JSON)
+ */
+
+import {
+  APIConnectionError,
+  APIConnectionTimeoutError,
+  APIUserAbortError,
+  AuthenticationError,
+  BadRequestError,
+  InternalServerError,
+  RateLimitError,
+} from 'openai';
+import { ContentFilterFinishReasonError } from 'openai/error';
+import type { ChatProvider, ChatRequest } from './types.js';
+
+export type MockErrorKind =
+  | 'rate_limit'
+  | 'quota'
+  | 'auth'
+  | 'server'
+  | 'network'
+  | 'timeout'
+  | 'content_filter'
+  | 'context_length'
+  | 'empty';
+
+export interface MockScript {
+  /** Full reply text; defaults to an echo of the latest user message */
+  response?: string;
+  /** Explicit chunks, overriding `response` */
+  chunks?: string[];
+  /** Delay before the first chunk */
+  firstChunkDelayMs?: number;
+  /** Delay between subsequent chunks */
+  chunkDelayMs?: number;
+  /** Fail with an SDK-shaped error of this kind */
+  error?: MockErrorKind;
+  /** Number of chunks to emit before failing (default 0) */
+  errorAfterChunks?: number;
+}
+
+export interface MockProvider extends ChatProvider {
+  /** Queue scripts to be used by the next requests, in order */
+  enqueue(...scripts: MockScript[]): void;
+  /** Every request received, for inspecting prompts */
+  readonly requests: ChatRequest[];
+}
+
+const DIRECTIVE_PATTERN = /\[mock:([a-z_]+)(?:@(\d+))?\]/;
+
+function buildError(kind: MockErrorKind): Error {
+  switch (kind) {
+    case 'rate_limit':
+      return new RateLimitError(
+        429,
+        { message: 'Rate limit reached for requests', type: 'requests', code: 'rate_limit_exceeded' },
+        undefined,
+        { 'retry-after': '2' }
+      );
+    case 'quota':
+      return new RateLimitError(
+        429,
+        {
+          message: 'You exceeded your current quota, please check your plan and billing details.',
+          type: 'insufficient_quota',
+          code: 'insufficient_quota',
+        },
+        undefined,
+        {}
+      );
+    case 'auth':
+      return new AuthenticationError(
+        401,
+        { message: 'Incorrect API key provided', type: 'invalid_request_error', code: 'invalid_api_key' },
+        undefined,
+        {}
+      );
+    case 'server':
+      return new InternalServerError(
+        500,
+        { message: 'The server had an error while processing your request.', type: 'server_error' },
+        undefined,
+        {}
+      );
+    case 'network':
+      return new APIConnectionError({ message: 'Connection error.' });
+    case 'timeout':
+      return new APIConnectionTimeoutError();
+    case 'content_filter':
+      return new ContentFilterFinishReasonError();
+    case 'context_length':
+      return new BadRequestError(
+        400,
+        {
+          message: "This model's maximum context length is 128000 tokens. Please reduce the length of the messages.",
+          type: 'invalid_request_error',
+          code: 'context_length_exceeded',
+        },
+        undefined,
+        {}
+      );
+    case 'empty':
+      return new Error('No response from AI');
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new APIUserAbortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new APIUserAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function toChunks(text: string): string[] {
+  return text.match(/\S+\s*/g) ?? [];
+}
+
+export function createMockProvider(defaults: MockScript = {}): MockProvider {
+  const queue: MockScript[] = [];
+  const requests: ChatRequest[] = [];
+
+  const resolveScript = (request: ChatRequest): MockScript => {
+    const queued = queue.shift();
+    if (queued) return { ...defaults, ...queued };
+
+    const lastUser = [...request.messages].reverse().find((m) => m.role === 'user');
+    const directive = lastUser?.content.match(DIRECTIVE_PATTERN);
+    if (directive) {
+      return {
+        ...defaults,
+        error: directive[1] as MockErrorKind,
+        errorAfterChunks: directive[2] ? parseInt(directive[2], 10) : 0,
+      };
+    }
+    return defaults;
+  };
+
+  const replyFor = (request: ChatRequest, script: MockScript): string[] => {
+    if (script.chunks) return script.chunks;
+    if (script.response !== undefined) return toChunks(script.response);
+
+    const lastUser = [...request.messages].reverse().find((m) => m.role === 'user');
+    return toChunks(`This is a mock response to: ${lastUser?.content ?? ''}`);
+  };
+
+  return {
+    name: 'mock',
+    defaultModel: 'mock-model',
+    requests,
+
+    enqueue(...scripts: MockScript[]) {
+      queue.push(...scripts);
+    },
+
+    async *stream(request: ChatRequest) {
+      requests.push(request);
+      const script = resolveScript(request);
+      const chunks = script.error === 'empty' ? [] : replyFor(request, script);
+      const failAt = script.error && script.error !== 'empty' ? script.errorAfterChunks ?? 0 : -1;
+
+      for (let i = 0; i < chunks.length; i++) {
+        if (i === failAt) throw buildError(script.error!);
+        await sleep(i === 0 ? script.firstChunkDelayMs ?? 0 : script.chunkDelayMs ?? 20, request.signal);
+        yield chunks[i];
+      }
+      if (failAt >= chunks.length) throw buildError(script.error!);
+    },
+
+    async complete(request: ChatRequest) {
+      requests.push(request);
+      const script = resolveScript(request);
+      await sleep(script.firstChunkDelayMs ?? 0, request.signal);
+      if (script.error === 'empty') return '';
+      if (script.error) throw buildError(script.error);
+      return replyFor(request, script).join('');
+    },
+  };
+}
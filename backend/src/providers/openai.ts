@@ -0,0 +1,89 @@
+/**
+ * OpenAI Provider
+ *
+ * Talks to the OpenAI Chat Completions API. Pointing `baseURL` at any
+ * OpenAI-compatible server (vLLM, Ollama, LM Studio...) reuses the same
+ * client for self-hosted models.
+ */
+
+import OpenAI from 'openai';
+import { ContentFilterFinishReasonError } from 'openai/error';
+import type { ChatProvider, ChatRequest } from './types.js';
+
+export interface OpenAIProviderConfig {
+  apiKey: string;
+  /** Base URL of an OpenAI-compatible server; omit for api.openai.com */
+  baseURL?: string;
+  model: string;
+  /** Provider name reported in logs */
+  name?: string;
+}
+
+const DEFAULT_MAX_TOKENS = 1024;
+
+export function createOpenAIProvider(config: OpenAIProviderConfig): ChatProvider {
+  const client = new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseURL,
+    // createAIStream retries transient failures itself (see ai-retry.ts)
+    maxRetries: 0,
+  });
+
+  return {
+    name: config.name ?? 'openai',
+    defaultModel: config.model,
+
+    async *stream(request: ChatRequest) {
+      const stream = await client.chat.completions.create(
+        {
+          model: request.model ?? config.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: request.temperature,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: request.signal }
+      );
+
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) yield content;
+        if (chunk.choices[0]?.finish_reason === 'content_filter') throw new ContentFilterFinishReasonError();
+
+        // The final chunk carries usage for the whole request
+        if (chunk.usage) {
+          request.onUsage?.({
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+            estimated: false,
+          });
+        }
+      }
+    },
+
+    async complete(request: ChatRequest) {
+      const response = await client.chat.completions.create(
+        {
+          model: request.model ?? config.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: request.temperature,
+        },
+        { signal: request.signal }
+      );
+
+      if (response.choices[0]?.finish_reason === 'content_filter') throw new ContentFilterFinishReasonError();
+      if (response.usage) {
+        request.onUsage?.({
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens,
+          totalTokens: response.usage.total_tokens,
+          estimated: false,
+        });
+      }
+      return response.choices[0]?.message?.content || '';
+    },
+  };
+}
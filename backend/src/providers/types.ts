@@ -0,0 +1,39 @@
+/**
+ * LLM provider contract shared by every backend (OpenAI, OpenAI-compatible
+ * servers such as vLLM or Ollama, and the offline mock).
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** True when counted locally rather than reported by the provider */
+  estimated: boolean;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  /** Overrides the provider's default model */
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Aborting cancels the upstream request */
+  signal?: AbortSignal;
+  /** Receives the provider-reported token usage, if any */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface ChatProvider {
+  /** Provider identifier, used in logs */
+  readonly name: string;
+  readonly defaultModel: string;
+  /** Stream the assistant reply as text deltas */
+  stream(request: ChatRequest): AsyncIterable<string>;
+  /** Get the complete assistant reply in one call */
+  complete(request: ChatRequest): Promise<string>;
+}
@@ -0,0 +1,159 @@
+/**
+ * Rate Limits
+ *
+ * Caps how fast each user can start AI replies, so one account can't run
+ * up unbounded provider usage:
+ * - requests per minute per user (sliding window)
+ * - replies streaming at once per conversation
+ * - tokens per user per UTC day
+ *
+ * The counters live in SQLite so they survive restarts. Requests over a
+ * limit get a 429 with `Retry-After` and a machine-readable `code`.
+ * Replies count towards the token budget, along with the titles and
+ * history summaries made for them. Replies that are stopped, abandoned or
+ * fail part way count the prompt and the text generated so far, estimated
+ * locally since the provider reports no usage for them.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+
+import type { Generation } from './generations.js';
+import { usageRepository } from './repositories/index.js';
+
+export interface RateLimits {
+  /** Replies a user may start per minute */
+  requestsPerMinute: number;
+  /** Replies that may stream at once in one conversation */
+  streamsPerConversation: number;
+  /** Tokens a user may spend per UTC day */
+  dailyTokens: number;
+}
+
+export type RateLimitCode = 'rate_limited' | 'too_many_streams' | 'quota_exceeded';
+
+export interface RateLimitRejection {
+  code: RateLimitCode;
+  error: string;
+  /** Seconds until the request may succeed */
+  retryAfter: number;
+}
+
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * A stream cut off by a restart never ends; it stops counting against its
+ * conversation after this long.
+ */
+const STALE_STREAM_MS = 10 * 60 * 1000;
+
+/** There's no telling when a running reply ends, so suggest a short wait */
+const STREAM_RETRY_AFTER_S = 5;
+
+/**
+ * A non-negative whole number from the environment, or the default when
+ * unset or invalid. 0 is a valid limit: it allows nothing.
+ */
+function limitFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = value?.trim() ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : fallback;
+}
+
+export function rateLimitsFromEnv(env: NodeJS.ProcessEnv = process.env): RateLimits {
+  return {
+    requestsPerMinute: limitFromEnv(env.RATE_LIMIT_PER_MINUTE, 20),
+    streamsPerConversation: limitFromEnv(env.RATE_LIMIT_STREAMS_PER_CONVERSATION, 1),
+    dailyTokens: limitFromEnv(env.DAILY_TOKEN_BUDGET, 200000),
+  };
+}
+
+let limits = rateLimitsFromEnv();
+
+export function getRateLimits(): RateLimits {
+  return limits;
+}
+
+/**
+ * Replace the limits, e.g. with tighter ones in tests.
+ */
+export function setRateLimits(next: RateLimits) {
+  limits = next;
+}
+
+/** UTC date, `YYYY-MM-DD` */
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function secondsUntilNextUtcDay(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+}
+
+/**
+ * Check whether a user may start a reply in a conversation.
+ * @returns Why not, or undefined if they may
+ */
+export function checkRateLimits(
+  userId: string,
+  conversationId: string,
+  now = Date.now()
+): RateLimitRejection | undefined {
+  if (usageRepository.tokensUsed(userId, utcDay(now)) >= limits.dailyTokens) {
+    return {
+      code: 'quota_exceeded',
+      error: 'Daily token budget used up',
+      retryAfter: secondsUntilNextUtcDay(now),
+    };
+  }
+
+  if (usageRepository.countActiveStreams(conversationId, now - STALE_STREAM_MS) >= limits.streamsPerConversation) {
+    return {
+      code: 'too_many_streams',
+      error: 'A reply is already being generated in this conversation',
+      retryAfter: STREAM_RETRY_AFTER_S,
+    };
+  }
+
+  const recent = usageRepository.requestsSince(userId, now - WINDOW_MS);
+  if (recent.length >= limits.requestsPerMinute) {
+    // Free once enough of the window's oldest requests have aged out
+    const freedAt = recent[recent.length - limits.requestsPerMinute] + WINDOW_MS;
+    return {
+      code: 'rate_limited',
+      error: 'Too many messages, please slow down',
+      retryAfter: Math.max(1, Math.ceil((freedAt - now) / 1000)),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Reject the request with 429 if the user is over a limit; otherwise count
+ * it and continue. For routes that start a reply in `req.params.id`;
+ * mount after requireAuth.
+ */
+export function limitGenerations(req: Request, res: Response, next: NextFunction) {
+  const now = Date.now();
+  const rejection = checkRateLimits(req.user!.id, req.params.id, now);
+  if (rejection) {
+    res.set('Retry-After', String(rejection.retryAfter));
+    return res.status(429).json(rejection);
+  }
+  usageRepository.recordRequest(req.user!.id, now, now - WINDOW_MS);
+  next();
+}
+
+/**
+ * Count a generation against its conversation's stream limit until it
+ * finishes.
+ */
+export function trackGeneration(generation: Generation, userId: string) {
+  usageRepository.startStream(generation.messageId, generation.conversationId, userId, Date.now());
+  generation.onFinished(() => usageRepository.endStream(generation.messageId));
+}
+
+export function recordTokenUsage(userId: string, tokens: number, now = Date.now()) {
+  usageRepository.addTokens(userId, utcDay(now), tokens);
+}
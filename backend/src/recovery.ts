@@ -0,0 +1,59 @@
+/**
+ * Interrupted Replies
+ *
+ * An assistant reply is stored as `sending` when its turn is inserted and
+ * settles when its generation finishes. If the process dies in between, the
+ * row would stay `sending` forever and look like a live stream. Generations
+ * only exist in this process's memory, so a `sending` row without a running
+ * generation is an orphan: it is marked failed with the `interrupted` code,
+ * keeping whatever partial text was flushed while it streamed.
+ *
+ * The sweep runs once at startup and then every few minutes, in case a
+ * generation is ever lost without settling its row.
+ */
+
+import { logger as baseLogger } from './logger.js';
+import { ERROR_MESSAGES } from './ai-errors.js';
+import { getGeneration } from './generations.js';
+import { messageRepository, usageRepository } from './repositories/index.js';
+
+const logger = baseLogger.child({ service: 'recovery-service' });
+
+/** How often streamed text is saved into a reply that is still generating */
+export const PARTIAL_FLUSH_MS = 2000;
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Mark every orphaned `sending` reply as interrupted.
+ * @returns Ids of the replies that were marked
+ */
+export function recoverInterruptedReplies(): string[] {
+  const orphaned = messageRepository.listSendingIds().filter((id) => {
+    const generation = getGeneration(id);
+    return !generation || generation.finished;
+  });
+
+  for (const messageId of orphaned) {
+    messageRepository.fail(messageId, ERROR_MESSAGES.interrupted, 'interrupted');
+    // Its stream will never end by itself, so stop counting it against the conversation
+    usageRepository.endStream(messageId);
+  }
+
+  if (orphaned.length > 0) {
+    logger.warn('Marked interrupted replies as failed', { count: orphaned.length, messageIds: orphaned });
+  }
+  return orphaned;
+}
+
+/**
+ * Recover orphans now and keep sweeping in the background.
+ * @returns Function that stops the sweep
+ */
+export function startRecoverySweep(intervalMs = SWEEP_INTERVAL_MS): () => void {
+  recoverInterruptedReplies();
+
+  const timer = setInterval(recoverInterruptedReplies, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,132 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+
+import { runMigrations } from '../migrations/index.js';
+import type { Preset } from '../presets.js';
+import { DEFAULT_TITLE } from '../titles.js';
+import { ConversationRepository } from './conversations.js';
+import { MessageRepository } from './messages.js';
+import { UserRepository } from './users.js';
+
+const bidLeveler: Preset = {
+  id: 'preset-bids',
+  user_id: null,
+  shared: true,
+  name: 'Bid Leveler',
+  description: 'Compares subcontractor bids line by line',
+  instructions: 'You are an estimator leveling subcontractor bids.',
+  model: null,
+  temperature: 0.2,
+  max_tokens: 2048,
+  starter_questions: ['Which bid has the most exclusions?'],
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+};
+
+describe('ConversationRepository', () => {
+  let db: Database.Database;
+  let conversations: ConversationRepository;
+  let userId: string;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    runMigrations(db);
+    conversations = new ConversationRepository(db);
+    userId = new UserRepository(db).create('alice', 'hash')!.id;
+  });
+
+  test('creates untitled conversations with the placeholder title', () => {
+    const conversation = conversations.create({ userId });
+
+    assert.equal(conversation.title, DEFAULT_TITLE);
+    assert.equal(conversation.title_is_custom, false);
+    assert.deepEqual(conversation.starter_questions, []);
+  });
+
+  test('copies settings and starter questions from a preset', () => {
+    db.prepare('INSERT INTO presets (id, name) VALUES (?, ?)').run(bidLeveler.id, bidLeveler.name);
+
+    const conversation = conversations.create({ userId, title: 'Electrical Bids', preset: bidLeveler });
+
+    assert.equal(conversation.title_is_custom, true);
+    assert.equal(conversation.preset_id, bidLeveler.id);
+    assert.equal(conversation.instructions, bidLeveler.instructions);
+    assert.equal(conversation.temperature, 0.2);
+    assert.deepEqual(conversation.starter_questions, bidLeveler.starter_questions);
+  });
+
+  test('update changes only the given fields and reports missing conversations', () => {
+    const { id } = conversations.create({ userId });
+
+    assert.equal(conversations.update(id, userId, { title: 'Generator Specs', temperature: 1 }), true);
+    assert.equal(conversations.update('missing', userId, { title: 'Generator Specs' }), false);
+
+    const updated = conversations.get(id, userId)!;
+    assert.equal(updated.title, 'Generator Specs');
+    assert.equal(updated.title_is_custom, true);
+    assert.equal(updated.temperature, 1);
+    assert.equal(updated.instructions, null);
+  });
+
+  test('clearing the title goes back to the placeholder', () => {
+    const { id } = conversations.create({ userId, title: 'Generator Specs' });
+
+    conversations.update(id, userId, { title: null });
+
+    const updated = conversations.get(id, userId)!;
+    assert.equal(updated.title, DEFAULT_TITLE);
+    assert.equal(updated.title_is_custom, false);
+  });
+
+  test('delete reports missing conversations and cascades to messages', () => {
+    const { id } = conversations.create({ userId });
+    new MessageRepository(db).insertTurn(id, null, 'What is the HVAC scope?');
+
+    assert.equal(conversations.delete('missing', userId), false);
+    assert.equal(conversations.delete(id, userId), true);
+    assert.equal(conversations.get(id, userId), undefined);
+    assert.deepEqual(db.prepare('SELECT COUNT(*) AS count FROM messages').get(), { count: 0 });
+  });
+
+  test('lists most recently updated first, one page at a time', () => {
+    const ids = ['a', 'b', 'c'].map(() => conversations.create({ userId }).id);
+    // Same timestamp for all, so the id breaks the tie
+    db.prepare('UPDATE conversations SET updated_at = ?').run('2024-01-01T00:00:00.000Z');
+    const expected = [...ids].sort().reverse();
+
+    const first = conversations.list(userId, { limit: 2 })!;
+    assert.deepEqual(first.items.map((c) => c.id), expected.slice(0, 2));
+    assert.equal(first.nextCursor, expected[1]);
+
+    const second = conversations.list(userId, { before: first.nextCursor!, limit: 2 })!;
+    assert.deepEqual(second.items.map((c) => c.id), expected.slice(2));
+    assert.equal(second.nextCursor, null);
+
+    assert.equal(conversations.list(userId, { before: 'missing', limit: 2 }), undefined);
+  });
+
+  test("only finds the user's own conversations", () => {
+    const { id } = conversations.create({ userId });
+    const otherUserId = new UserRepository(db).create('bob', 'hash')!.id;
+
+    assert.equal(conversations.get(id, otherUserId), undefined);
+    assert.equal(conversations.exists(id, otherUserId), false);
+    assert.equal(conversations.update(id, otherUserId, { title: 'Taken' }), false);
+    assert.equal(conversations.delete(id, otherUserId), false);
+    assert.deepEqual(conversations.list(otherUserId, { limit: 10 })!.items, []);
+    assert.equal(conversations.list(otherUserId, { before: id, limit: 10 }), undefined);
+    assert.equal(conversations.get(id, userId)!.title, DEFAULT_TITLE);
+  });
+
+  test('claims only conversations without an owner', () => {
+    const owned = conversations.create({ userId });
+    db.prepare("INSERT INTO conversations (id, title) VALUES ('legacy', 'Site walk notes')").run();
+    const bobId = new UserRepository(db).create('bob', 'hash')!.id;
+
+    assert.equal(conversations.claimUnowned(bobId), 1);
+    assert.equal(conversations.claimUnowned(userId), 0);
+    assert.equal(conversations.get('legacy', bobId)!.title, 'Site walk notes');
+    assert.ok(conversations.get(owned.id, userId));
+  });
+});
@@ -0,0 +1,144 @@
+import type Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+
+import type { Conversation, Page, SettingsUpdate } from '../contract.js';
+import type { PageParams } from '../pagination.js';
+import { parseStarterQuestions, type Preset } from '../presets.js';
+import { DEFAULT_TITLE } from '../titles.js';
+
+interface ConversationRow extends Omit<Conversation, 'title_is_custom' | 'starter_questions'> {
+  user_id: string | null;
+  title_is_custom: number;
+  starter_questions: string | null;
+}
+
+export interface ConversationChanges extends SettingsUpdate {
+  /** An empty or null title goes back to the placeholder */
+  title?: string | null;
+}
+
+/**
+ * Decode JSON and boolean columns of a conversation row for the API,
+ * leaving out its owner.
+ */
+function toConversation({ user_id, ...row }: ConversationRow): Conversation {
+  return {
+    ...row,
+    title_is_custom: row.title_is_custom === 1,
+    starter_questions: parseStarterQuestions(row.starter_questions),
+  };
+}
+
+/**
+ * Queries on the `conversations` table. Lookups by id take the requesting
+ * user's id and only match conversations that user owns.
+ */
+export class ConversationRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  get(id: string, userId: string): Conversation | undefined {
+    const row = this.db.prepare('SELECT * FROM conversations WHERE id = ? AND user_id = ?')
+      .get(id, userId) as ConversationRow | undefined;
+    return row && toConversation(row);
+  }
+
+  exists(id: string, userId: string): boolean {
+    return this.db.prepare('SELECT 1 FROM conversations WHERE id = ? AND user_id = ?').get(id, userId) !== undefined;
+  }
+
+  /**
+   * Most recently updated first, ordered by (updated_at, id) so ties keep a
+   * stable order across pages.
+   * @returns The page, or undefined if the `before` cursor doesn't exist
+   */
+  list(userId: string, { before, limit }: PageParams): Page<Conversation> | undefined {
+    let cursor: { updated_at: string; id: string } | undefined;
+    if (before) {
+      cursor = this.db.prepare('SELECT updated_at, id FROM conversations WHERE id = ? AND user_id = ?')
+        .get(before, userId) as { updated_at: string; id: string } | undefined;
+      if (!cursor) return undefined;
+    }
+
+    const rows = (cursor
+      ? this.db.prepare(
+        `SELECT * FROM conversations WHERE user_id = ? AND (updated_at, id) < (?, ?)
+         ORDER BY updated_at DESC, id DESC LIMIT ?`
+      ).all(userId, cursor.updated_at, cursor.id, limit + 1)
+      : this.db.prepare('SELECT * FROM conversations WHERE user_id = ? ORDER BY updated_at DESC, id DESC LIMIT ?')
+        .all(userId, limit + 1)
+    ) as ConversationRow[];
+
+    const items = rows.slice(0, limit).map(toConversation);
+    return { items, nextCursor: rows.length > limit ? items[items.length - 1].id : null };
+  }
+
+  /**
+   * Create a conversation. Without a title it gets the placeholder until
+   * one is generated; a preset's settings and starter questions are copied.
+   */
+  create({ userId, title, preset }: { userId: string; title?: string; preset?: Preset }): Conversation {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    this.db.prepare(
+      `INSERT INTO conversations
+         (id, user_id, title, title_is_custom, instructions, model, temperature, max_tokens, preset_id,
+          starter_questions, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id,
+      userId,
+      title || DEFAULT_TITLE,
+      title ? 1 : 0,
+      preset?.instructions ?? null,
+      preset?.model ?? null,
+      preset?.temperature ?? null,
+      preset?.max_tokens ?? null,
+      preset?.id ?? null,
+      preset ? JSON.stringify(preset.starter_questions) : null,
+      now,
+      now
+    );
+    return this.get(id, userId)!;
+  }
+
+  /**
+   * Apply the fields present in `changes`. A title set here is marked as
+   * custom so generated titles never replace it.
+   * @returns Whether the user has a conversation with this id
+   */
+  update(id: string, userId: string, changes: ConversationChanges): boolean {
+    const { title, ...settings } = changes;
+    const columns: Record<string, unknown> = { ...settings };
+    if (title !== undefined) {
+      columns.title = title || DEFAULT_TITLE;
+      columns.title_is_custom = title ? 1 : 0;
+    }
+
+    const names = Object.keys(columns);
+    const result = this.db.prepare(
+      `UPDATE conversations SET ${names.map((name) => `${name} = ?, `).join('')}updated_at = ? WHERE id = ? AND user_id = ?`
+    ).run(...Object.values(columns), new Date().toISOString(), id, userId);
+    return result.changes > 0;
+  }
+
+  /**
+   * Delete a conversation; its messages, documents and summary cascade.
+   * @returns Whether the user had a conversation with this id
+   */
+  delete(id: string, userId: string): boolean {
+    return this.db.prepare('DELETE FROM conversations WHERE id = ? AND user_id = ?').run(id, userId).changes > 0;
+  }
+
+  /**
+   * Give `userId` the conversations created before accounts existed, which
+   * have no owner and are hidden from everyone until claimed.
+   * @returns How many conversations were claimed
+   */
+  claimUnowned(userId: string): number {
+    return this.db.prepare('UPDATE conversations SET user_id = ? WHERE user_id IS NULL').run(userId).changes;
+  }
+
+  setActiveLeaf(id: string, leafId: string | null) {
+    this.db.prepare('UPDATE conversations SET active_leaf_id = ? WHERE id = ?').run(leafId, id);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Repositories bound to the application database. Construct the classes
+ * directly to use another database, e.g. an in-memory one in tests.
+ */
+
+import { db } from '../db.js';
+import { ConversationRepository } from './conversations.js';
+import { MessageRepository } from './messages.js';
+import { UsageRepository } from './usage.js';
+import { UserRepository } from './users.js';
+
+export { ConversationRepository, type ConversationChanges } from './conversations.js';
+export { MessageRepository } from './messages.js';
+export { UsageRepository } from './usage.js';
+export { UserRepository, type UserCredentials } from './users.js';
+
+export const conversationRepository = new ConversationRepository(db);
+export const messageRepository = new MessageRepository(db);
+export const userRepository = new UserRepository(db);
+export const usageRepository = new UsageRepository(db);
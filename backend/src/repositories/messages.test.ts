@@ -0,0 +1,110 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+
+import { runMigrations } from '../migrations/index.js';
+import { ConversationRepository } from './conversations.js';
+import { MessageRepository } from './messages.js';
+import { UserRepository } from './users.js';
+
+describe('MessageRepository', () => {
+  let db: Database.Database;
+  let messages: MessageRepository;
+  let conversationId: string;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    runMigrations(db);
+    messages = new MessageRepository(db);
+    const userId = new UserRepository(db).create('alice', 'hash')!.id;
+    conversationId = new ConversationRepository(db).create({ userId }).id;
+  });
+
+  /** Add a finished exchange at the end of the active branch */
+  function addExchange(question: string, answer: string) {
+    const parentId = messages.resolveActiveLeaf(conversationId);
+    const turn = messages.insertTurn(conversationId, parentId, question);
+    messages.complete(turn.assistantMessageId, answer, []);
+    return turn;
+  }
+
+  test('insertTurn chains a placeholder reply and makes it the active leaf', () => {
+    const { userMessageId, assistantMessageId } = messages.insertTurn(conversationId, null, 'Compare the bids');
+
+    const reply = messages.get(conversationId, assistantMessageId)!;
+    assert.equal(reply.parent_id, userMessageId);
+    assert.equal(reply.status, 'sending');
+    assert.equal(messages.resolveActiveLeaf(conversationId), assistantMessageId);
+  });
+
+  test('get ignores messages from other conversations', () => {
+    const { userMessageId } = messages.insertTurn(conversationId, null, 'Compare the bids');
+
+    assert.equal(messages.get('other', userMessageId), undefined);
+  });
+
+  test('listPage pages back from the active leaf, oldest first', () => {
+    addExchange('What are the electrical requirements?', '400A service');
+    addExchange('And emergency power?', '150kW generator');
+
+    const first = messages.listPage(conversationId, { limit: 3 })!;
+    assert.deepEqual(first.items.map((m) => m.content), ['400A service', 'And emergency power?', '150kW generator']);
+    assert.equal(first.nextCursor, first.items[0].id);
+
+    const second = messages.listPage(conversationId, { before: first.nextCursor!, limit: 3 })!;
+    assert.deepEqual(second.items.map((m) => m.content), ['What are the electrical requirements?']);
+    assert.equal(second.nextCursor, null);
+
+    assert.equal(messages.listPage(conversationId, { before: 'missing', limit: 3 }), undefined);
+  });
+
+  test('a turn under an existing parent forks the branch', () => {
+    const original = addExchange('Summarize the HVAC scope', 'Rooftop units and ductwork');
+    const edited = messages.insertTurn(conversationId, null, 'Summarize the plumbing scope');
+
+    const page = messages.listPage(conversationId, { limit: 10 })!;
+    assert.equal(page.items[0].id, edited.userMessageId);
+    assert.deepEqual(page.items[0].branch, {
+      index: 1,
+      total: 2,
+      siblingIds: [original.userMessageId, edited.userMessageId],
+    });
+    assert.equal(page.items[1].branch, undefined);
+  });
+
+  test('resetForRegeneration archives the previous answer as a version', () => {
+    const { assistantMessageId } = addExchange('Which bid is lowest?', 'City Electric');
+
+    messages.resetForRegeneration(messages.get(conversationId, assistantMessageId)!);
+    messages.complete(assistantMessageId, 'Acme Electric [1]', [
+      { index: 1, documentId: 'doc-1', filename: 'bids.pdf', page: 2 },
+    ]);
+
+    const reply = messages.listPage(conversationId, { limit: 10 })!.items[1];
+    assert.equal(reply.content, 'Acme Electric [1]');
+    assert.deepEqual(reply.versions?.map((v) => v.content), ['City Electric']);
+    assert.deepEqual(reply.citations, [{ index: 1, documentId: 'doc-1', filename: 'bids.pdf', page: 2 }]);
+  });
+
+  test('cancel keeps the partial text', () => {
+    const { assistantMessageId } = messages.insertTurn(conversationId, null, 'Summarize Division 26');
+
+    messages.cancel(assistantMessageId, 'Division 26 covers');
+
+    const reply = messages.get(conversationId, assistantMessageId)!;
+    assert.equal(reply.status, 'cancelled');
+    assert.equal(reply.content, 'Division 26 covers');
+  });
+
+  test('savePartial only writes into replies still generating', () => {
+    const { assistantMessageId } = messages.insertTurn(conversationId, null, 'List the panel schedules');
+    const finished = addExchange('And the lighting fixtures?', 'See sheet E-501.');
+
+    messages.savePartial(assistantMessageId, 'Panels LP-1 and');
+    messages.savePartial(finished.assistantMessageId, 'overwritten');
+
+    assert.equal(messages.get(conversationId, assistantMessageId)!.content, 'Panels LP-1 and');
+    assert.equal(messages.get(conversationId, finished.assistantMessageId)!.content, 'See sheet E-501.');
+    assert.deepEqual(messages.listSendingIds(), [assistantMessageId]);
+  });
+});
@@ -0,0 +1,254 @@
+import type Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+
+import type { BranchInfo, Citation, ErrorCode, Message, MessageVersion, Page } from '../contract.js';
+import type { PageParams } from '../pagination.js';
+import { parseCitations } from '../documents.js';
+import {
+  buildMessageTree,
+  findLatestLeaf,
+  getPath,
+  type MessageRow,
+  type MessageTree,
+} from '../message-tree.js';
+
+/**
+ * Queries on `messages` and `message_versions`, including walking the
+ * message tree of a conversation.
+ */
+export class MessageRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  get(conversationId: string, messageId: string): MessageRow | undefined {
+    return this.db.prepare('SELECT * FROM messages WHERE id = ? AND conversation_id = ?')
+      .get(messageId, conversationId) as MessageRow | undefined;
+  }
+
+  loadTree(conversationId: string): MessageTree {
+    return buildMessageTree(this.db.prepare(
+      'SELECT * FROM messages WHERE conversation_id = ? ORDER BY created_at ASC, rowid ASC'
+    ).all(conversationId) as MessageRow[]);
+  }
+
+  /**
+   * The branch the conversation is currently showing. Falls back to the
+   * newest branch when no (valid) leaf has been selected.
+   */
+  getActivePath(conversationId: string, tree = this.loadTree(conversationId)): MessageRow[] {
+    const conversation = this.db.prepare('SELECT active_leaf_id FROM conversations WHERE id = ?')
+      .get(conversationId) as { active_leaf_id: string | null } | undefined;
+
+    const leafId = conversation?.active_leaf_id && tree.byId.has(conversation.active_leaf_id)
+      ? findLatestLeaf(tree, conversation.active_leaf_id)
+      : findLatestLeaf(tree, null);
+
+    return getPath(tree, leafId);
+  }
+
+  /**
+   * Leaf of the branch the conversation is showing; the same leaf
+   * getActivePath ends at, found with indexed lookups instead of a full load.
+   */
+  resolveActiveLeaf(conversationId: string): string | null {
+    const conversation = this.db.prepare(
+      `SELECT c.active_leaf_id FROM conversations c
+       JOIN messages m ON m.id = c.active_leaf_id AND m.conversation_id = c.id
+       WHERE c.id = ?`
+    ).get(conversationId) as { active_leaf_id: string } | undefined;
+
+    let current = conversation?.active_leaf_id ?? this.findLatestChild(conversationId, null);
+    while (current) {
+      const child = this.findLatestChild(conversationId, current);
+      if (!child) return current;
+      current = child;
+    }
+    return current;
+  }
+
+  /**
+   * One page of the active branch, newest page first: messages above the
+   * `before` cursor, or ending at the active leaf. Items are oldest first
+   * and carry branch info, earlier versions and decoded citations.
+   *
+   * @returns The page, or undefined if the cursor isn't in the conversation
+   */
+  listPage(conversationId: string, { before, limit }: PageParams): Page<Message> | undefined {
+    let leafId: string | null;
+    if (before) {
+      const cursor = this.get(conversationId, before);
+      if (!cursor) return undefined;
+      leafId = cursor.parent_id;
+    } else {
+      leafId = this.resolveActiveLeaf(conversationId);
+    }
+
+    const { rows, hasMore } = this.getPathPage(leafId, limit);
+    const branches = this.getBranchInfo(conversationId, rows);
+    const versions = this.listVersions(rows.filter((row) => row.role === 'assistant').map((row) => row.id));
+
+    return {
+      items: rows.map((row) => ({
+        ...row,
+        citations: parseCitations(row.citations),
+        branch: branches.get(row.id),
+        versions: row.role === 'assistant'
+          ? versions.filter((version) => version.message_id === row.id)
+          : undefined,
+      })),
+      nextCursor: hasMore ? rows[0].id : null,
+    };
+  }
+
+  /**
+   * Up to `limit` messages of the root-to-leaf path ending at `leafId`,
+   * taken from the leaf end and returned oldest first. `hasMore` tells
+   * whether older messages remain above the first one.
+   */
+  getPathPage(leafId: string | null, limit: number): { rows: MessageRow[]; hasMore: boolean } {
+    if (!leafId) return { rows: [], hasMore: false };
+
+    // Walk parent links upwards, one row past the page to detect more
+    const rows = this.db.prepare(
+      `WITH RECURSIVE path(id, depth) AS (
+         SELECT ?, 0
+         UNION ALL
+         SELECT m.parent_id, path.depth + 1 FROM messages m JOIN path ON m.id = path.id
+         WHERE m.parent_id IS NOT NULL AND path.depth < ?
+       )
+       SELECT m.* FROM path JOIN messages m ON m.id = path.id ORDER BY path.depth DESC`
+    ).all(leafId, limit) as MessageRow[];
+
+    const hasMore = rows.length > limit;
+    return { rows: hasMore ? rows.slice(1) : rows, hasMore };
+  }
+
+  /**
+   * Branch positions for a set of messages, keyed by message id. Messages
+   * without siblings are left out.
+   */
+  getBranchInfo(conversationId: string, messages: MessageRow[]): Map<string, BranchInfo> {
+    const parentIds = [...new Set(messages.map((message) => message.parent_id))];
+    const siblingsByParent = new Map<string | null, string[]>();
+
+    const stmt = this.db.prepare(
+      `SELECT id FROM messages WHERE conversation_id = ? AND parent_id IS ?
+       ORDER BY created_at ASC, rowid ASC`
+    );
+    for (const parentId of parentIds) {
+      siblingsByParent.set(
+        parentId,
+        (stmt.all(conversationId, parentId) as Array<{ id: string }>).map((row) => row.id)
+      );
+    }
+
+    const info = new Map<string, BranchInfo>();
+    for (const message of messages) {
+      const siblingIds = siblingsByParent.get(message.parent_id) ?? [];
+      if (siblingIds.length < 2) continue;
+      info.set(message.id, { index: siblingIds.indexOf(message.id), total: siblingIds.length, siblingIds });
+    }
+    return info;
+  }
+
+  /**
+   * Earlier attempts of the given assistant messages, oldest first.
+   */
+  listVersions(messageIds: string[]): MessageVersion[] {
+    return this.db.prepare(
+      `SELECT id, message_id, content, status, error_message, error_code, created_at FROM message_versions
+       WHERE message_id IN (SELECT value FROM json_each(?)) ORDER BY created_at ASC, rowid ASC`
+    ).all(JSON.stringify(messageIds)) as MessageVersion[];
+  }
+
+  /**
+   * Insert a user message and its assistant placeholder under `parentId`
+   * and make the placeholder the conversation's active leaf.
+   */
+  insertTurn(conversationId: string, parentId: string | null, content: string) {
+    const userMessageId = uuidv4();
+    const assistantMessageId = uuidv4();
+    const now = new Date().toISOString();
+    const insert = this.db.prepare(
+      'INSERT INTO messages (id, conversation_id, parent_id, role, content, status, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    );
+
+    this.db.transaction(() => {
+      insert.run(userMessageId, conversationId, parentId, 'user', content, 'sent', now);
+      insert.run(assistantMessageId, conversationId, userMessageId, 'assistant', '', 'sending', now);
+
+      // Bump the conversation and follow the new branch
+      this.db.prepare('UPDATE conversations SET updated_at = ?, active_leaf_id = ? WHERE id = ?')
+        .run(now, assistantMessageId, conversationId);
+    })();
+
+    return { userMessageId, assistantMessageId };
+  }
+
+  /**
+   * Archive an assistant message's current answer in message_versions and
+   * reset it to an empty 'sending' slot for a new one.
+   */
+  resetForRegeneration(message: MessageRow) {
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      // A reply that never finished has nothing worth keeping
+      if (message.status !== 'sending') {
+        this.db.prepare(
+          `INSERT INTO message_versions (id, message_id, content, status, error_message, error_code, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        ).run(uuidv4(), message.id, message.content, message.status, message.error_message, message.error_code, now);
+      }
+
+      this.db.prepare('UPDATE messages SET content = ?, status = ?, error_message = NULL, error_code = NULL, citations = NULL WHERE id = ?')
+        .run('', 'sending', message.id);
+
+      this.db.prepare('UPDATE conversations SET updated_at = ? WHERE id = ?').run(now, message.conversation_id);
+    })();
+  }
+
+  complete(messageId: string, content: string, citations: Citation[]) {
+    this.db.prepare('UPDATE messages SET content = ?, status = ?, citations = ? WHERE id = ?')
+      .run(content, 'sent', citations.length > 0 ? JSON.stringify(citations) : null, messageId);
+  }
+
+  /**
+   * Save the text streamed so far into a reply that is still generating, so
+   * a crash mid-stream doesn't lose all of it.
+   */
+  savePartial(messageId: string, partialContent: string) {
+    this.db.prepare("UPDATE messages SET content = ? WHERE id = ? AND status = 'sending'")
+      .run(partialContent, messageId);
+  }
+
+  /** Ids of assistant replies still marked as generating, in any conversation */
+  listSendingIds(): string[] {
+    const rows = this.db.prepare("SELECT id FROM messages WHERE status = 'sending'").all() as Array<{ id: string }>;
+    return rows.map((row) => row.id);
+  }
+
+  fail(messageId: string, errorMessage: string, errorCode: ErrorCode) {
+    this.db.prepare('UPDATE messages SET status = ?, error_message = ?, error_code = ? WHERE id = ?')
+      .run('failed', errorMessage, errorCode, messageId);
+  }
+
+  /**
+   * Stop a reply, keeping the text generated so far.
+   */
+  cancel(messageId: string, partialContent: string) {
+    this.db.prepare('UPDATE messages SET content = ?, status = ? WHERE id = ?')
+      .run(partialContent, 'cancelled', messageId);
+  }
+
+  /**
+   * Most recently created child of `parentId` (a root when null), without
+   * loading the whole tree.
+   */
+  private findLatestChild(conversationId: string, parentId: string | null): string | null {
+    const row = this.db.prepare(
+      `SELECT id FROM messages WHERE conversation_id = ? AND parent_id IS ?
+       ORDER BY created_at DESC, rowid DESC LIMIT 1`
+    ).get(conversationId, parentId) as { id: string } | undefined;
+    return row?.id ?? null;
+  }
+}
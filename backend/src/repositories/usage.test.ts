@@ -0,0 +1,66 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+
+import { runMigrations } from '../migrations/index.js';
+import { ConversationRepository } from './conversations.js';
+import { MessageRepository } from './messages.js';
+import { UsageRepository } from './usage.js';
+import { UserRepository } from './users.js';
+
+describe('UsageRepository', () => {
+  let db: Database.Database;
+  let usage: UsageRepository;
+  let userId: string;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    runMigrations(db);
+    usage = new UsageRepository(db);
+    userId = new UserRepository(db).create('alice', 'hash')!.id;
+  });
+
+  test('logs requests per user and prunes old ones', () => {
+    const bobId = new UserRepository(db).create('bob', 'hash')!.id;
+    usage.recordRequest(userId, 1000, 0);
+    usage.recordRequest(userId, 2000, 0);
+    usage.recordRequest(bobId, 2500, 0);
+
+    assert.deepEqual(usage.requestsSince(userId, 1500), [2000]);
+    assert.deepEqual(usage.requestsSince(userId, 0), [1000, 2000]);
+
+    usage.recordRequest(userId, 3000, 1500);
+    assert.deepEqual(usage.requestsSince(userId, 0), [2000, 3000]);
+    assert.deepEqual(usage.requestsSince(bobId, 0), [2500]);
+  });
+
+  test('counts streams until they end, ignoring ones started before the cutoff', () => {
+    const conversationId = new ConversationRepository(db).create({ userId }).id;
+    const messages = new MessageRepository(db);
+    const first = messages.insertTurn(conversationId, null, 'One').assistantMessageId;
+    const second = messages.insertTurn(conversationId, null, 'Two').assistantMessageId;
+
+    usage.startStream(first, conversationId, userId, 1000);
+    usage.startStream(second, conversationId, userId, 5000);
+    assert.equal(usage.countActiveStreams(conversationId, 0), 2);
+    assert.equal(usage.countActiveStreams(conversationId, 2000), 1);
+
+    // Regenerating streams into the same message again
+    usage.startStream(first, conversationId, userId, 6000);
+    assert.equal(usage.countActiveStreams(conversationId, 2000), 2);
+
+    usage.endStream(first);
+    usage.endStream(second);
+    assert.equal(usage.countActiveStreams(conversationId, 0), 0);
+  });
+
+  test('adds up tokens per day', () => {
+    usage.addTokens(userId, '2026-03-01', 120);
+    usage.addTokens(userId, '2026-03-01', 80);
+    usage.addTokens(userId, '2026-03-02', 5);
+
+    assert.equal(usage.tokensUsed(userId, '2026-03-01'), 200);
+    assert.equal(usage.tokensUsed(userId, '2026-03-02'), 5);
+    assert.equal(usage.tokensUsed(userId, '2026-03-03'), 0);
+  });
+});
@@ -0,0 +1,62 @@
+import type Database from 'better-sqlite3';
+
+/**
+ * Queries on the counters the rate limits read: `request_log`,
+ * `active_streams` and `token_usage`. Times are epoch milliseconds.
+ */
+export class UsageRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  /** Log a request, dropping the user's entries older than `pruneBefore` */
+  recordRequest(userId: string, at: number, pruneBefore: number) {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM request_log WHERE user_id = ? AND created_at < ?').run(userId, pruneBefore);
+      this.db.prepare('INSERT INTO request_log (user_id, created_at) VALUES (?, ?)').run(userId, at);
+    })();
+  }
+
+  /**
+   * The user's requests at or after `since`, oldest first.
+   * @returns Their timestamps
+   */
+  requestsSince(userId: string, since: number): number[] {
+    const rows = this.db.prepare(
+      'SELECT created_at FROM request_log WHERE user_id = ? AND created_at >= ? ORDER BY created_at'
+    ).all(userId, since) as Array<{ created_at: number }>;
+    return rows.map((row) => row.created_at);
+  }
+
+  /** A regenerated message streams into the same row, so this replaces */
+  startStream(messageId: string, conversationId: string, userId: string, at: number) {
+    this.db.prepare(
+      `INSERT OR REPLACE INTO active_streams (message_id, conversation_id, user_id, started_at)
+       VALUES (?, ?, ?, ?)`
+    ).run(messageId, conversationId, userId, at);
+  }
+
+  endStream(messageId: string) {
+    this.db.prepare('DELETE FROM active_streams WHERE message_id = ?').run(messageId);
+  }
+
+  /** Streams in a conversation started at or after `since` and not yet ended */
+  countActiveStreams(conversationId: string, since: number): number {
+    const row = this.db.prepare(
+      'SELECT COUNT(*) AS count FROM active_streams WHERE conversation_id = ? AND started_at >= ?'
+    ).get(conversationId, since) as { count: number };
+    return row.count;
+  }
+
+  /** @param day - UTC date, `YYYY-MM-DD` */
+  addTokens(userId: string, day: string, tokens: number) {
+    this.db.prepare(
+      `INSERT INTO token_usage (user_id, day, tokens) VALUES (?, ?, ?)
+       ON CONFLICT (user_id, day) DO UPDATE SET tokens = tokens + excluded.tokens`
+    ).run(userId, day, tokens);
+  }
+
+  tokensUsed(userId: string, day: string): number {
+    const row = this.db.prepare('SELECT tokens FROM token_usage WHERE user_id = ? AND day = ?')
+      .get(userId, day) as { tokens: number } | undefined;
+    return row?.tokens ?? 0;
+  }
+}
@@ -0,0 +1,46 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+
+import { runMigrations } from '../migrations/index.js';
+import { UserRepository } from './users.js';
+
+describe('UserRepository', () => {
+  let db: Database.Database;
+  let users: UserRepository;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    runMigrations(db);
+    users = new UserRepository(db);
+  });
+
+  test('usernames are unique regardless of case', () => {
+    const alice = users.create('alice', 'hash')!;
+
+    assert.equal(users.create('Alice', 'other-hash'), undefined);
+    assert.equal(users.findCredentials('ALICE')!.id, alice.id);
+    assert.equal(users.findCredentials('ALICE')!.password_hash, 'hash');
+  });
+
+  test('new accounts leave conversations created before accounts unowned', () => {
+    db.prepare("INSERT INTO conversations (id, title) VALUES ('legacy', 'Site walk notes')").run();
+
+    users.create('alice', 'hash');
+
+    assert.deepEqual(db.prepare('SELECT id, user_id FROM conversations').all(), [{ id: 'legacy', user_id: null }]);
+  });
+
+  test('finds the user of an unexpired session only', () => {
+    const alice = users.create('alice', 'hash')!;
+    users.createSession(alice.id, 'live', new Date(Date.now() + 60_000));
+    users.createSession(alice.id, 'expired', new Date(Date.now() - 1));
+
+    assert.equal(users.findSessionUser('live')!.username, 'alice');
+    assert.equal(users.findSessionUser('expired'), undefined);
+
+    users.deleteExpiredSessions();
+    users.deleteSession('live');
+    assert.deepEqual(db.prepare('SELECT COUNT(*) AS count FROM sessions').get(), { count: 0 });
+  });
+});
@@ -0,0 +1,66 @@
+import type Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+
+import type { User } from '../contract.js';
+
+export interface UserCredentials extends User {
+  password_hash: string;
+}
+
+/**
+ * Queries on the `users` and `sessions` tables. Sessions are stored by a
+ * hash of their token, never the token itself.
+ */
+export class UserRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  get(id: string): User | undefined {
+    return this.db.prepare('SELECT id, username, created_at FROM users WHERE id = ?').get(id) as User | undefined;
+  }
+
+  /** Usernames match case-insensitively */
+  findCredentials(username: string): UserCredentials | undefined {
+    return this.db.prepare('SELECT * FROM users WHERE username = ?').get(username) as UserCredentials | undefined;
+  }
+
+  /**
+   * Create an account.
+   * @returns The user, or undefined if the username is taken
+   */
+  create(username: string, passwordHash: string): User | undefined {
+    const id = uuidv4();
+    try {
+      this.db.prepare('INSERT INTO users (id, username, password_hash, created_at) VALUES (?, ?, ?, ?)')
+        .run(id, username, passwordHash, new Date().toISOString());
+    } catch (error) {
+      if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE') return undefined;
+      throw error;
+    }
+    return this.get(id);
+  }
+
+  createSession(userId: string, tokenHash: string, expiresAt: Date) {
+    this.db.prepare('INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
+      .run(tokenHash, userId, new Date().toISOString(), expiresAt.toISOString());
+  }
+
+  /**
+   * The user a session belongs to, if the session exists and hasn't expired.
+   */
+  findSessionUser(tokenHash: string): User | undefined {
+    return this.db.prepare(
+      `SELECT u.id, u.username, u.created_at
+       FROM sessions s
+       JOIN users u ON u.id = s.user_id
+       WHERE s.token_hash = ? AND s.expires_at > ?`
+    ).get(tokenHash, new Date().toISOString()) as User | undefined;
+  }
+
+  deleteSession(tokenHash: string) {
+    this.db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(tokenHash);
+  }
+
+  deleteExpiredSessions() {
+    this.db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(new Date().toISOString());
+  }
+}
@@ -0,0 +1,93 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { logger } from '../logger.js';
+
+// The database connection is opened on import, so point it at a throwaway
+// database before loading the app
+process.env.DATABASE_PATH = ':memory:';
+const { createApp } = await import('../index.js');
+
+describe('auth routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    logger.silent = true;
+    server = createApp().listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  function post(path: string, body?: unknown, token?: string) {
+    return fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  function me(token: string) {
+    return fetch(`${baseUrl}/auth/me`, { headers: { Authorization: `Bearer ${token}` } });
+  }
+
+  test('registers an account and signs it in', async () => {
+    const res = await post('/auth/register', { username: ' carol ', password: 'site-visit-2024' });
+    assert.equal(res.status, 201);
+    const { token, user } = await res.json();
+    assert.equal(user.username, 'carol');
+    assert.equal(typeof token, 'string');
+
+    assert.deepEqual(await (await me(token)).json(), user);
+  });
+
+  test('rejects invalid and duplicate registrations', async () => {
+    const short = await post('/auth/register', { username: 'dave', password: 'short' });
+    assert.equal(short.status, 400);
+    assert.equal((await short.json()).error, 'password must be at least 8 characters');
+
+    const badName = await post('/auth/register', { username: 'd a v e', password: 'long enough' });
+    assert.equal(badName.status, 400);
+
+    await post('/auth/register', { username: 'erin', password: 'long enough' });
+    const duplicate = await post('/auth/register', { username: 'ERIN', password: 'long enough' });
+    assert.equal(duplicate.status, 409);
+  });
+
+  test('logs in with the right password only', async () => {
+    await post('/auth/register', { username: 'frank', password: 'concrete pour' });
+
+    const wrong = await post('/auth/login', { username: 'frank', password: 'wrong password' });
+    assert.equal(wrong.status, 401);
+    const unknown = await post('/auth/login', { username: 'nobody', password: 'concrete pour' });
+    assert.equal(unknown.status, 401);
+    assert.deepEqual(await unknown.json(), { error: 'Invalid username or password' });
+
+    const res = await post('/auth/login', { username: 'Frank', password: 'concrete pour' });
+    assert.equal(res.status, 200);
+    const { token, user } = await res.json();
+    assert.equal(user.username, 'frank');
+    assert.equal((await me(token)).status, 200);
+  });
+
+  test('logout ends only the session it was sent with', async () => {
+    const { token } = await (await post('/auth/register', { username: 'grace', password: 'rebar spacing' })).json();
+    const { token: other } = await (await post('/auth/login', { username: 'grace', password: 'rebar spacing' })).json();
+
+    const res = await post('/auth/logout', undefined, token);
+    assert.equal(res.status, 204);
+
+    assert.equal((await me(token)).status, 401);
+    assert.equal((await me(other)).status, 200);
+    assert.equal((await post('/auth/logout')).status, 401);
+  });
+});
@@ -0,0 +1,80 @@
+import { Router } from 'express';
+
+import { logger as baseLogger } from '../logger.js';
+import { authenticate, endSession, getBearerToken, hashPassword, requireAuth, startSession } from '../auth.js';
+import { loginRequestSchema, registerRequestSchema, validate } from '../contract.js';
+import { userRepository } from '../repositories/index.js';
+
+const router = Router();
+
+const logger = baseLogger.child({ service: 'auth-service' });
+
+/**
+ * POST /api/auth/register
+ * Create an account and sign in
+ * Body: { username: string, password: string }
+ * Returns: { token, user }
+ */
+router.post('/register', async (req, res, next) => {
+  logger.info('Registering user', { username: req.body?.username });
+  const validation = validate(registerRequestSchema, req.body);
+  if ('error' in validation) {
+    return res.status(400).json({ error: validation.error });
+  }
+
+  try {
+    const { username, password } = validation.data;
+    const user = userRepository.create(username, await hashPassword(password));
+    if (!user) {
+      return res.status(409).json({ error: 'Username is already taken' });
+    }
+    res.status(201).json({ token: startSession(user.id), user });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/auth/login
+ * Sign in with a username and password
+ * Body: { username: string, password: string }
+ * Returns: { token, user }
+ */
+router.post('/login', async (req, res, next) => {
+  logger.info('Logging in', { username: req.body?.username });
+  const validation = validate(loginRequestSchema, req.body);
+  if ('error' in validation) {
+    return res.status(400).json({ error: validation.error });
+  }
+
+  try {
+    const user = await authenticate(validation.data.username, validation.data.password);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+    res.json({ token: startSession(user.id), user });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * End the session the request was made with
+ */
+router.post('/logout', requireAuth, (req, res) => {
+  logger.info('Logging out', { userId: req.user!.id });
+  endSession(getBearerToken(req)!);
+  res.status(204).end();
+});
+
+/**
+ * GET /api/auth/me
+ * The signed-in user
+ */
+router.get('/me', requireAuth, (req, res) => {
+  logger.info('Getting current user');
+  res.json(req.user);
+});
+
+export default router;
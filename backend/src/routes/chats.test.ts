@@ -0,0 +1,870 @@
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import type {
+  Message,
+  StreamCancelled,
+  StreamChunk,
+  StreamDone,
+  StreamError,
+  StreamStart,
+  StreamStatus,
+} from '../contract.js';
+import { logger } from '../logger.js';
+import { createMockProvider, setProvider, type MockProvider } from '../providers/index.js';
+
+// The database connection is opened on import, so point it at a throwaway
+// database before loading the app
+process.env.DATABASE_PATH = ':memory:';
+const { createApp } = await import('../index.js');
+const { db } = await import('../db.js');
+const { getRateLimits, rateLimitsFromEnv, setRateLimits } = await import('../rate-limits.js');
+const { setRetryPolicy } = await import('../ai-retry.js');
+const { PARTIAL_FLUSH_MS, recoverInterruptedReplies } = await import('../recovery.js');
+
+interface SSEFrame {
+  id?: number;
+  event: string;
+  data: unknown;
+}
+
+/** Data of each event on a reply stream, from the contract */
+interface StreamEvents {
+  start: StreamStart;
+  status: StreamStatus;
+  chunk: StreamChunk;
+  done: StreamDone;
+  cancelled: StreamCancelled;
+  error: StreamError;
+}
+
+/** The data of `frame`, after checking it is an `event` event */
+function dataOf<E extends keyof StreamEvents>(frame: SSEFrame, event: E): StreamEvents[E] {
+  assert.equal(frame.event, event);
+  return frame.data as StreamEvents[E];
+}
+
+/** Split an SSE body into frames, as the browser client reads them */
+function parseSSE(body: string): SSEFrame[] {
+  return body
+    .split('\n\n')
+    .filter((block) => block.trim())
+    .map((block) => {
+      const frame: SSEFrame = { event: 'message', data: null };
+      for (const line of block.split('\n')) {
+        const [field, ...rest] = line.split(': ');
+        const value = rest.join(': ');
+        if (field === 'id') frame.id = Number(value);
+        if (field === 'event') frame.event = value;
+        if (field === 'data') frame.data = JSON.parse(value);
+      }
+      return frame;
+    });
+}
+
+describe('chats routes', () => {
+  let server: Server;
+  let apiUrl: string;
+  let baseUrl: string;
+  let provider: MockProvider;
+  let token: string;
+
+  /** Register an account and return its session token */
+  async function register(username: string): Promise<string> {
+    const res = await fetch(`${apiUrl}/auth/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password: 'correct horse battery' }),
+    });
+    assert.equal(res.status, 201);
+    return (await res.json()).token;
+  }
+
+  before(async () => {
+    logger.silent = true;
+    server = createApp().listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    baseUrl = `${apiUrl}/chats`;
+    token = await register('alice');
+    // The suite sends more messages than the default per-minute limit allows
+    setRateLimits({ ...getRateLimits(), requestsPerMinute: 1000 });
+    // Each scripted failure should fail its own request; retries have their own tests
+    setRetryPolicy({ maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 });
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    provider = createMockProvider({ chunkDelayMs: 0 });
+    setProvider(provider);
+  });
+
+  function request(path: string, init: RequestInit & { json?: unknown; as?: string } = {}) {
+    const { json, as = token, ...rest } = init;
+    return fetch(`${baseUrl}${path}`, {
+      ...rest,
+      headers: {
+        Authorization: `Bearer ${as}`,
+        ...(json !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...(rest.headers as Record<string, string>),
+      },
+      body: json !== undefined ? JSON.stringify(json) : rest.body,
+    });
+  }
+
+  async function createChat(body: object = { title: 'Site survey' }): Promise<string> {
+    const res = await request('', { method: 'POST', json: body });
+    assert.equal(res.status, 200);
+    return (await res.json()).id;
+  }
+
+  /** Send a message and read the whole SSE response */
+  async function sendMessage(chatId: string, content: string) {
+    const res = await request(`/${chatId}/messages`, { method: 'POST', json: { content } });
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get('content-type') ?? '', /^text\/event-stream/);
+    return parseSSE(await res.text());
+  }
+
+  /** Wait for a generated title, which is stored after the reply's `done` */
+  async function waitForTitle(chatId: string, as = token): Promise<string> {
+    for (let i = 0; i < 100; i++) {
+      const { title } = await (await request(`/${chatId}`, { as })).json();
+      if (title !== 'New Conversation') return title;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error('No title was generated');
+  }
+
+  async function listMessages(chatId: string): Promise<Message[]> {
+    const res = await request(`/${chatId}/messages`);
+    assert.equal(res.status, 200);
+    return (await res.json()).items;
+  }
+
+  describe('conversations', () => {
+    test('creates, reads, updates and lists conversations', async () => {
+      const id = await createChat({ title: '  Bid review  ' });
+
+      const created = await (await request(`/${id}`)).json();
+      assert.equal(created.title, 'Bid review');
+      assert.equal(created.title_is_custom, true);
+
+      const res = await request(`/${id}`, { method: 'PATCH', json: { title: 'Bid comparison', temperature: 0.2 } });
+      assert.equal(res.status, 200);
+      const updated = await res.json();
+      assert.equal(updated.title, 'Bid comparison');
+      assert.equal(updated.temperature, 0.2);
+
+      const list = await (await request('?limit=100')).json();
+      assert.ok(list.items.some((c: { id: string }) => c.id === id));
+    });
+
+    test('pages the conversation list with a cursor', async () => {
+      await createChat({ title: 'Older' });
+      await createChat({ title: 'Newer' });
+      const all = await (await request('?limit=100')).json();
+
+      const paged: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const page: { items: { id: string }[]; nextCursor: string | null } =
+          await (await request(`?limit=1${cursor ? `&before=${cursor}` : ''}`)).json();
+        paged.push(...page.items.map((c) => c.id));
+        cursor = page.nextCursor;
+      } while (cursor);
+      assert.deepEqual(paged, all.items.map((c: { id: string }) => c.id));
+
+      assert.equal((await request('?before=missing')).status, 400);
+      assert.equal((await request('?limit=0')).status, 400);
+    });
+
+    test('rejects invalid bodies and unknown ids', async () => {
+      const longTitle = await request('', { method: 'POST', json: { title: 'x'.repeat(201) } });
+      assert.equal(longTitle.status, 400);
+      assert.equal((await longTitle.json()).error, 'title too long (max 200 characters)');
+
+      const unknownPreset = await request('', { method: 'POST', json: { presetId: 'missing' } });
+      assert.equal(unknownPreset.status, 400);
+
+      const id = await createChat();
+      const badTemperature = await request(`/${id}`, { method: 'PATCH', json: { temperature: 3 } });
+      assert.equal(badTemperature.status, 400);
+      assert.equal((await badTemperature.json()).error, 'temperature must be a number between 0 and 2');
+
+      assert.equal((await request('/missing')).status, 404);
+      assert.equal((await request('/missing', { method: 'PATCH', json: { title: 'x' } })).status, 404);
+      assert.equal((await request('/missing', { method: 'DELETE' })).status, 404);
+      assert.equal((await request('/missing/messages')).status, 404);
+    });
+
+    test('deleting a conversation removes its messages and versions', async () => {
+      const id = await createChat();
+      await sendMessage(id, 'What does the spec say about fire ratings?');
+      const [, reply] = await listMessages(id);
+      await request(`/${id}/messages/${reply.id}/regenerate`, { method: 'POST' }).then((res) => res.text());
+
+      const res = await request(`/${id}`, { method: 'DELETE' });
+      assert.equal(res.status, 204);
+      assert.equal((await request(`/${id}`)).status, 404);
+
+      const count = (sql: string, param: string) => (db.prepare(sql).get(param) as { n: number }).n;
+      assert.equal(count('SELECT COUNT(*) AS n FROM messages WHERE conversation_id = ?', id), 0);
+      assert.equal(count('SELECT COUNT(*) AS n FROM message_versions WHERE message_id = ?', reply.id), 0);
+    });
+  });
+
+  describe('ownership', () => {
+    test('requires a session', async () => {
+      for (const as of ['', 'not-a-token']) {
+        const res = await request('', { as });
+        assert.equal(res.status, 401);
+        assert.deepEqual(await res.json(), { error: 'Authentication required' });
+      }
+    });
+
+    test("hides other users' conversations as if they did not exist", async () => {
+      const id = await createChat({ title: 'Private bid notes' });
+      provider.enqueue({ response: 'Noted.' });
+      const [start] = await sendMessage(id, 'Keep this between us');
+      const { messageId } = dataOf(start, 'start');
+      const bob = await register('bob');
+
+      const list = await (await request('?limit=100', { as: bob })).json();
+      assert.deepEqual(list.items, []);
+
+      const routes: Array<[string, string, unknown?]> = [
+        ['GET', `/${id}`],
+        ['PATCH', `/${id}`, { title: 'Mine now' }],
+        ['GET', `/${id}/export`],
+        ['GET', `/${id}/messages`],
+        ['POST', `/${id}/messages`, { content: 'Hello' }],
+        ['GET', `/${id}/messages/${messageId}/stream`],
+        ['POST', `/${id}/messages/${messageId}/regenerate`],
+        ['POST', `/${id}/messages/${messageId}/activate`],
+        ['POST', `/${id}/messages/${messageId}/cancel`],
+        ['GET', `/${id}/documents`],
+        ['DELETE', `/${id}`],
+      ];
+      for (const [method, path, json] of routes) {
+        const res = await request(path, { method, json, as: bob });
+        assert.equal(res.status, 404, `${method} ${path}`);
+      }
+
+      const conversation = await (await request(`/${id}`)).json();
+      assert.equal(conversation.title, 'Private bid notes');
+      assert.equal((await listMessages(id)).length, 2);
+    });
+  });
+
+  describe('POST /:id/messages', () => {
+    test('streams start, chunk and done frames and stores the reply', async () => {
+      const id = await createChat();
+      provider.enqueue({ chunks: ['The panel ', 'is rated ', '400A.'] });
+
+      const frames = await sendMessage(id, '  What is the main panel rating?  ');
+
+      assert.deepEqual(frames.map((f) => f.event), ['start', 'chunk', 'chunk', 'chunk', 'done']);
+      assert.deepEqual(frames.map((f) => f.id), [1, 2, 3, 4, 5]);
+      assert.deepEqual(frames.slice(1, 4).map((f) => f.data), [
+        { content: 'The panel ' },
+        { content: 'is rated ' },
+        { content: '400A.' },
+      ]);
+
+      const { messageId } = dataOf(frames[0], 'start');
+      const done = dataOf(frames[4], 'done');
+      assert.equal(done.messageId, messageId);
+      assert.equal(done.content, 'The panel is rated 400A.');
+      assert.deepEqual(done.citations, []);
+      assert.equal(typeof done.usage.totalTokens, 'number');
+
+      const messages = await listMessages(id);
+      assert.deepEqual(
+        messages.map((m) => [m.role, m.content, m.status]),
+        [
+          ['user', 'What is the main panel rating?', 'sent'],
+          ['assistant', 'The panel is rated 400A.', 'sent'],
+        ]
+      );
+      assert.equal(messages[1].id, messageId);
+      assert.equal(messages[1].parent_id, messages[0].id);
+    });
+
+    test('sends earlier turns as history', async () => {
+      const id = await createChat();
+      provider.enqueue({ response: 'Two exits.' }, { response: 'Yes, both lit.' });
+
+      await sendMessage(id, 'How many exits?');
+      await sendMessage(id, 'Are they lit?');
+
+      const prompt = provider.requests[1].messages.map((m) => [m.role, m.content]);
+      assert.deepEqual(prompt.slice(-3), [
+        ['user', 'How many exits?'],
+        ['assistant', 'Two exits.'],
+        ['user', 'Are they lit?'],
+      ]);
+    });
+
+    test('names an untitled chat after sending done', async () => {
+      const id = await createChat({});
+      provider.enqueue({ response: 'Use a 150kW generator.' }, { response: 'Emergency Generator Sizing' });
+
+      const frames = await sendMessage(id, 'How big should the generator be?');
+
+      assert.deepEqual(frames.map((f) => f.event), ['start', 'chunk', 'chunk', 'chunk', 'chunk', 'done']);
+      assert.equal(await waitForTitle(id), 'Emergency Generator Sizing');
+    });
+
+    test('sends an error frame and stores the failure', async () => {
+      const id = await createChat();
+      provider.enqueue({ response: 'Partial answer that', error: 'server', errorAfterChunks: 2 });
+
+      const frames = await sendMessage(id, 'Summarize the roofing spec');
+
+      assert.deepEqual(frames.map((f) => f.event), ['start', 'chunk', 'chunk', 'error']);
+      assert.deepEqual(frames[3].data, {
+        error: 'AI service temporarily unavailable. Please try again.',
+        code: 'unavailable',
+      });
+
+      const [, reply] = await listMessages(id);
+      assert.equal(reply.status, 'failed');
+      assert.equal(reply.error_message, 'AI service temporarily unavailable. Please try again.');
+      assert.equal(reply.error_code, 'unavailable');
+    });
+
+    test('maps provider errors to codes and user-facing messages', async () => {
+      const id = await createChat();
+      provider.enqueue(
+        { error: 'rate_limit' },
+        { error: 'quota' },
+        { error: 'auth' },
+        { error: 'timeout' },
+        { error: 'content_filter', errorAfterChunks: 1 },
+        { error: 'context_length' },
+        { error: 'network' },
+        { error: 'empty' }
+      );
+
+      const errors = [];
+      for (let i = 0; i < 8; i++) {
+        const frames = await sendMessage(id, `Question ${i + 1}`);
+        errors.push(frames.at(-1)!.data);
+      }
+
+      assert.deepEqual(errors, [
+        { error: 'AI service is busy. Please try again in a moment.', code: 'rate_limited', retryAfter: 2 },
+        { error: 'AI service quota exceeded. Please contact support.', code: 'quota_exceeded' },
+        { error: 'AI service configuration error. Please contact support.', code: 'auth' },
+        { error: 'AI service took too long to respond. Please try again.', code: 'timeout' },
+        {
+          error: 'The response was blocked by the content filter. Try rephrasing your message.',
+          code: 'content_filter',
+        },
+        {
+          error: 'This conversation is too long for the model. Start a new chat to continue.',
+          code: 'context_too_long',
+        },
+        { error: 'Could not reach the AI service. Please try again.', code: 'network' },
+        { error: 'AI service returned an empty response. Please try again.', code: 'empty_response' },
+      ]);
+
+      const replies = (await listMessages(id)).filter((m) => m.role === 'assistant');
+      assert.deepEqual(
+        replies.map((m) => m.error_code),
+        errors.map((e) => e.code)
+      );
+    });
+
+    test('enforces the message length limit', async () => {
+      const id = await createChat();
+
+      const tooLong = await request(`/${id}/messages`, { method: 'POST', json: { content: 'x'.repeat(10001) } });
+      assert.equal(tooLong.status, 400);
+      assert.equal((await tooLong.json()).error, 'Message too long (max 10000 characters)');
+
+      const empty = await request(`/${id}/messages`, { method: 'POST', json: { content: '   ' } });
+      assert.equal(empty.status, 400);
+      assert.equal((await empty.json()).error, 'Message content cannot be empty');
+
+      const missing = await request(`/${id}/messages`, { method: 'POST', json: {} });
+      assert.equal(missing.status, 400);
+      assert.equal((await missing.json()).error, 'Message content is required');
+
+      provider.enqueue({ response: 'Received.' });
+      const frames = await sendMessage(id, 'x'.repeat(10000));
+      assert.equal(frames.at(-1)!.event, 'done');
+
+      assert.deepEqual(await listMessages(id).then((items) => items.length), 2);
+    });
+
+    test('returns 404 for an unknown conversation', async () => {
+      const res = await request('/missing/messages', { method: 'POST', json: { content: 'Hello' } });
+      assert.equal(res.status, 404);
+    });
+  });
+
+  describe('retries', () => {
+    beforeEach(() => {
+      setRetryPolicy({ maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 });
+    });
+
+    afterEach(() => {
+      setRetryPolicy({ maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 });
+    });
+
+    test('retries a transient failure before the first chunk', async () => {
+      const id = await createChat();
+      provider.enqueue({ error: 'network' }, { error: 'server' }, { response: 'Third time lucky.' });
+
+      const frames = await sendMessage(id, 'Hello?');
+
+      assert.deepEqual(frames.map((f) => f.event), ['start', 'status', 'status', 'chunk', 'chunk', 'chunk', 'done']);
+      assert.deepEqual(frames[1].data, { state: 'retrying', attempt: 2 });
+      assert.deepEqual(frames[2].data, { state: 'retrying', attempt: 3 });
+      assert.equal(provider.requests.length, 3);
+
+      const [, reply] = await listMessages(id);
+      assert.equal(reply.status, 'sent');
+      assert.equal(reply.content, 'Third time lucky.');
+    });
+
+    test('gives up after the last retry', async () => {
+      const id = await createChat();
+      provider.enqueue({ error: 'timeout' }, { error: 'timeout' }, { error: 'timeout' }, { response: 'Too late.' });
+
+      const frames = await sendMessage(id, 'Hello?');
+
+      assert.deepEqual(frames.map((f) => f.event), ['start', 'status', 'status', 'error']);
+      assert.equal(dataOf(frames[3], 'error').code, 'timeout');
+      assert.equal(provider.requests.length, 3);
+    });
+
+    test('does not retry once text has streamed, or errors a retry cannot fix', async () => {
+      const id = await createChat();
+      provider.enqueue(
+        { response: 'Half an answer', error: 'server', errorAfterChunks: 1 },
+        { error: 'auth' },
+        { response: 'Never requested.' }
+      );
+
+      const partial = await sendMessage(id, 'First');
+      assert.deepEqual(partial.map((f) => f.event), ['start', 'chunk', 'error']);
+
+      const auth = await sendMessage(id, 'Second');
+      assert.deepEqual(auth.map((f) => f.event), ['start', 'error']);
+      assert.equal(dataOf(auth[1], 'error').code, 'auth');
+      assert.equal(provider.requests.length, 2);
+    });
+  });
+
+  describe('GET /:id/messages/:messageId/stream', () => {
+    test('replays the frames after Last-Event-ID', async () => {
+      const id = await createChat();
+      provider.enqueue({ chunks: ['One ', 'two ', 'three.'] });
+      const frames = await sendMessage(id, 'Count to three');
+      const { messageId } = dataOf(frames[0], 'start');
+
+      const res = await request(`/${id}/messages/${messageId}/stream`, { headers: { 'Last-Event-ID': '2' } });
+      assert.equal(res.status, 200);
+      assert.deepEqual(parseSSE(await res.text()), frames.slice(2));
+
+      // A client that already has the last frame gets an empty, closed stream
+      const caughtUp = await request(`/${id}/messages/${messageId}/stream`, {
+        headers: { 'Last-Event-ID': String(frames.at(-1)!.id) },
+      });
+      assert.equal(await caughtUp.text(), '');
+    });
+
+    test('sends the stored message when the generation is gone', async () => {
+      const imported = await request('/import', {
+        method: 'POST',
+        json: {
+          format: 'chat-transcript',
+          version: 1,
+          conversation: { title: 'Imported' },
+          messages: [
+            { role: 'user', content: 'Where is the riser?', status: 'sent' },
+            { role: 'assistant', content: 'In the north core.', status: 'sent' },
+          ],
+        },
+      });
+      const { id } = await imported.json();
+      const [question, answer] = await listMessages(id);
+
+      const res = await request(`/${id}/messages/${answer.id}/stream`);
+      const frames = parseSSE(await res.text());
+      assert.deepEqual(frames, [
+        { event: 'done', data: { messageId: answer.id, content: 'In the north core.', citations: [] } },
+      ]);
+
+      assert.equal((await request(`/${id}/messages/${question.id}/stream`)).status, 404);
+      assert.equal((await request(`/other/messages/${answer.id}/stream`)).status, 404);
+    });
+  });
+
+  describe('branches', () => {
+    test('regenerate archives the previous answer as a version', async () => {
+      const id = await createChat();
+      provider.enqueue({ response: 'First answer.' }, { response: 'Second answer.' });
+      await sendMessage(id, 'Explain the drainage plan');
+      const [question, answer] = await listMessages(id);
+
+      const res = await request(`/${id}/messages/${answer.id}/regenerate`, { method: 'POST' });
+      const frames = parseSSE(await res.text());
+      assert.equal(dataOf(frames[0], 'start').messageId, answer.id);
+      assert.equal(dataOf(frames.at(-1)!, 'done').content, 'Second answer.');
+
+      const [, regenerated] = await listMessages(id);
+      assert.equal(regenerated.id, answer.id);
+      assert.equal(regenerated.content, 'Second answer.');
+      assert.deepEqual(regenerated.versions!.map((v) => v.content), ['First answer.']);
+
+      // The user turn is reused, not repeated
+      const prompt = provider.requests[1].messages.filter((m) => m.role === 'user');
+      assert.deepEqual(prompt.map((m) => m.content), ['Explain the drainage plan']);
+
+      const notAssistant = await request(`/${id}/messages/${question.id}/regenerate`, { method: 'POST' });
+      assert.equal(notAssistant.status, 404);
+    });
+
+    test('editing a user message forks a branch that activate can switch away from', async () => {
+      const id = await createChat();
+      provider.enqueue({ response: 'Original reply.' }, { response: 'Edited reply.' });
+      await sendMessage(id, 'Original question');
+      const [question, answer] = await listMessages(id);
+
+      const res = await request(`/${id}/messages/${question.id}`, { method: 'PATCH', json: { content: 'Edited question' } });
+      assert.equal(res.status, 200);
+      assert.equal(parseSSE(await res.text()).at(-1)!.event, 'done');
+
+      const edited = await listMessages(id);
+      assert.deepEqual(edited.map((m) => m.content), ['Edited question', 'Edited reply.']);
+      assert.deepEqual(edited[0].branch, { index: 1, total: 2, siblingIds: [question.id, edited[0].id] });
+
+      const activate = await request(`/${id}/messages/${question.id}/activate`, { method: 'POST' });
+      assert.deepEqual(await activate.json(), { activeLeafId: answer.id });
+      const restored = await listMessages(id);
+      assert.deepEqual(restored.map((m) => m.content), ['Original question', 'Original reply.']);
+
+      const editAssistant = await request(`/${id}/messages/${answer.id}`, { method: 'PATCH', json: { content: 'x' } });
+      assert.equal(editAssistant.status, 400);
+      const tooLong = await request(`/${id}/messages/${question.id}`, {
+        method: 'PATCH',
+        json: { content: 'x'.repeat(10001) },
+      });
+      assert.equal(tooLong.status, 400);
+      assert.equal((await request(`/${id}/messages/missing`, { method: 'PATCH', json: { content: 'x' } })).status, 404);
+      assert.equal((await request(`/${id}/messages/missing/activate`, { method: 'POST' })).status, 404);
+    });
+  });
+
+  describe('POST /:id/messages/:messageId/cancel', () => {
+    test('stops the stream and keeps the partial reply', async () => {
+      const id = await createChat();
+      provider.enqueue({ chunks: ['Partial ', 'reply ', 'never ', 'finished.'], chunkDelayMs: 1000 });
+
+      const res = await request(`/${id}/messages`, { method: 'POST', json: { content: 'Take your time' } });
+      const reader = res.body!.getReader();
+      const decoder = new TextDecoder();
+      let body = '';
+      while (!body.includes('event: chunk')) {
+        const { value } = await reader.read();
+        body += decoder.decode(value, { stream: true });
+      }
+      const { messageId } = dataOf(parseSSE(body)[0], 'start');
+
+      const cancel = await request(`/${id}/messages/${messageId}/cancel`, { method: 'POST' });
+      assert.equal(cancel.status, 200);
+      assert.deepEqual(await cancel.json(), { id: messageId, content: 'Partial ', status: 'cancelled' });
+
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        body += decoder.decode(chunk.value, { stream: true });
+      }
+      assert.deepEqual(parseSSE(body).at(-1), {
+        id: 3,
+        event: 'cancelled',
+        data: { messageId, content: 'Partial ' },
+      });
+
+      const again = await request(`/${id}/messages/${messageId}/cancel`, { method: 'POST' });
+      assert.equal(again.status, 409);
+      assert.equal((await request(`/${id}/messages/missing/cancel`, { method: 'POST' })).status, 404);
+    });
+  });
+
+  describe('interrupted replies', () => {
+    test('saves streamed text while the reply is still generating', async () => {
+      const id = await createChat();
+      provider.enqueue({ chunks: ['Partial ', 'reply.'], firstChunkDelayMs: PARTIAL_FLUSH_MS + 100, chunkDelayMs: 5000 });
+
+      const res = await request(`/${id}/messages`, { method: 'POST', json: { content: 'Take your time' } });
+      const reader = res.body!.getReader();
+      const decoder = new TextDecoder();
+      let body = '';
+      while (!body.includes('event: chunk')) {
+        const { value } = await reader.read();
+        body += decoder.decode(value, { stream: true });
+      }
+      const { messageId } = dataOf(parseSSE(body)[0], 'start');
+
+      const stored = db.prepare('SELECT content, status FROM messages WHERE id = ?').get(messageId);
+      assert.deepEqual({ ...(stored as object) }, { content: 'Partial ', status: 'sending' });
+      // A live reply isn't an orphan
+      assert.deepEqual(recoverInterruptedReplies(), []);
+
+      await request(`/${id}/messages/${messageId}/cancel`, { method: 'POST' });
+      await reader.cancel();
+    });
+
+    test('fails replies left sending by a crash, keeping their partial text', async () => {
+      const id = await createChat();
+      const first = dataOf((await sendMessage(id, 'Where is the riser?'))[0], 'start').messageId;
+      const second = dataOf((await sendMessage(id, 'And the sprinkler main?'))[0], 'start').messageId;
+      // What a process that died mid-stream leaves behind
+      const leaveSending = db.prepare("UPDATE messages SET status = 'sending', content = ? WHERE id = ?");
+      leaveSending.run('In the north', first);
+      leaveSending.run('', second);
+
+      assert.deepEqual(recoverInterruptedReplies().sort(), [first, second].sort());
+
+      const messages = await listMessages(id);
+      const interrupted = messages.find((message) => message.id === first)!;
+      assert.equal(interrupted.status, 'failed');
+      assert.equal(interrupted.content, 'In the north');
+      assert.equal(interrupted.error_code, 'interrupted');
+      assert.equal(interrupted.error_message, 'Response was interrupted. Please try again.');
+      assert.deepEqual(recoverInterruptedReplies(), []);
+    });
+
+    test('a reconnect to an orphaned reply fails it as interrupted', async () => {
+      const imported = await request('/import', {
+        method: 'POST',
+        json: {
+          format: 'chat-transcript',
+          version: 1,
+          conversation: { title: 'Imported' },
+          messages: [
+            { role: 'user', content: 'Where is the riser?', status: 'sent' },
+            { role: 'assistant', content: 'In the north core.', status: 'sent' },
+          ],
+        },
+      });
+      const { id } = await imported.json();
+      const [, answer] = await listMessages(id);
+      // Imported replies never had a generation in this process
+      db.prepare("UPDATE messages SET status = 'sending', content = 'In the' WHERE id = ?").run(answer.id);
+
+      const res = await request(`/${id}/messages/${answer.id}/stream`);
+      assert.deepEqual(parseSSE(await res.text()), [
+        { event: 'error', data: { error: 'Response was interrupted. Please try again.', code: 'interrupted' } },
+      ]);
+
+      const [, stored] = await listMessages(id);
+      assert.equal(stored.status, 'failed');
+      assert.equal(stored.content, 'In the');
+    });
+  });
+
+  describe('rate limits', () => {
+    const defaults = getRateLimits();
+
+    afterEach(() => {
+      setRateLimits({ ...defaults, requestsPerMinute: 1000 });
+    });
+
+    test('caps the replies a user starts per minute', async () => {
+      setRateLimits({ ...defaults, requestsPerMinute: 2 });
+      const carol = await register('carol');
+      const res = await request('', { method: 'POST', json: {}, as: carol });
+      const { id } = await res.json();
+
+      for (const content of ['First', 'Second']) {
+        const reply = await request(`/${id}/messages`, { method: 'POST', json: { content }, as: carol });
+        assert.equal(reply.status, 200);
+        await reply.text();
+      }
+
+      const limited = await request(`/${id}/messages`, { method: 'POST', json: { content: 'Third' }, as: carol });
+      assert.equal(limited.status, 429);
+      const retryAfter = Number(limited.headers.get('retry-after'));
+      assert.ok(retryAfter >= 1 && retryAfter <= 60, `Retry-After ${retryAfter}`);
+      assert.deepEqual(await limited.json(), {
+        code: 'rate_limited',
+        error: 'Too many messages, please slow down',
+        retryAfter,
+      });
+
+      // The rejected message wasn't saved, and other users have their own window
+      const messages = await (await request(`/${id}/messages`, { as: carol })).json();
+      assert.deepEqual(
+        messages.items.filter((m: { role: string }) => m.role === 'user').map((m: { content: string }) => m.content),
+        ['First', 'Second']
+      );
+      const erin = await register('erin');
+      const { id: erinsChat } = await (await request('', { method: 'POST', json: {}, as: erin })).json();
+      const reply = await request(`/${erinsChat}/messages`, { method: 'POST', json: { content: 'Hello' }, as: erin });
+      assert.equal(reply.status, 200);
+      await reply.text();
+    });
+
+    test('allows one streaming reply per conversation', async () => {
+      const id = await createChat();
+      provider.enqueue({ chunks: ['Slow ', 'reply.'], chunkDelayMs: 1000 });
+
+      const res = await request(`/${id}/messages`, { method: 'POST', json: { content: 'Take your time' } });
+      const reader = res.body!.getReader();
+      const { value } = await reader.read();
+      const { messageId } = dataOf(parseSSE(new TextDecoder().decode(value))[0], 'start');
+
+      const busy = await request(`/${id}/messages`, { method: 'POST', json: { content: 'And another thing' } });
+      assert.equal(busy.status, 429);
+      assert.equal(busy.headers.get('retry-after'), '5');
+      assert.equal((await busy.json()).code, 'too_many_streams');
+
+      // Other conversations are unaffected
+      const other = await createChat();
+      assert.equal((await sendMessage(other, 'Meanwhile')).at(-1)!.event, 'done');
+
+      await request(`/${id}/messages/${messageId}/cancel`, { method: 'POST' });
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read());
+      assert.equal((await sendMessage(id, 'And another thing')).at(-1)!.event, 'done');
+    });
+
+    test('stops replies once the daily token budget is spent', async () => {
+      setRateLimits({ ...defaults, requestsPerMinute: 1000, dailyTokens: 10 });
+      const dave = await register('dave');
+      const { id } = await (await request('', { method: 'POST', json: {}, as: dave })).json();
+      provider.enqueue({ response: 'This reply uses up the whole budget and then some.' });
+
+      const first = await request(`/${id}/messages`, { method: 'POST', json: { content: 'Go' }, as: dave });
+      const done = parseSSE(await first.text()).at(-1)!;
+      assert.ok(dataOf(done, 'done').usage.totalTokens >= 10);
+
+      const limited = await request(`/${id}/messages`, { method: 'POST', json: { content: 'More' }, as: dave });
+      assert.equal(limited.status, 429);
+      const body = await limited.json();
+      assert.equal(body.code, 'quota_exceeded');
+      assert.equal(limited.headers.get('retry-after'), String(body.retryAfter));
+      assert.ok(body.retryAfter > 0 && body.retryAfter <= 24 * 60 * 60);
+
+      // Budgets are per user
+      const frank = await register('frank');
+      const { id: franksChat } = await (await request('', { method: 'POST', json: {}, as: frank })).json();
+      const reply = await request(`/${franksChat}/messages`, { method: 'POST', json: { content: 'Go' }, as: frank });
+      assert.equal(reply.status, 200);
+      await reply.text();
+    });
+    test('counts the tokens spent naming a chat', async () => {
+      const grace = await register('grace');
+      const { id } = await (await request('', { method: 'POST', json: {}, as: grace })).json();
+      provider.enqueue({ response: 'Two hours.' }, { response: 'Stair Fire Rating' });
+
+      const reply = await request(`/${id}/messages`, { method: 'POST', json: { content: 'Fire rating?' }, as: grace });
+      const frames = parseSSE(await reply.text());
+      assert.equal(await waitForTitle(id, grace), 'Stair Fire Rating');
+
+      const { tokens } = db.prepare(
+        "SELECT SUM(tokens) AS tokens FROM token_usage JOIN users ON users.id = token_usage.user_id WHERE username = 'grace'"
+      ).get() as { tokens: number };
+      assert.ok(tokens > dataOf(frames.at(-1)!, 'done').usage.totalTokens, `${tokens} tokens recorded`);
+    });
+
+    test('counts the tokens spent on stopped and failed replies', async () => {
+      const heidi = await register('heidi');
+      const tokensUsed = () =>
+        (
+          db.prepare(
+            "SELECT COALESCE(SUM(tokens), 0) AS tokens FROM token_usage JOIN users ON users.id = token_usage.user_id WHERE username = 'heidi'"
+          ).get() as { tokens: number }
+        ).tokens;
+      const { id } = await (await request('', { method: 'POST', json: { title: 'Budget' }, as: heidi })).json();
+
+      provider.enqueue({ chunks: ['Partial ', 'reply.'], error: 'server', errorAfterChunks: 1 });
+      const failed = await request(`/${id}/messages`, { method: 'POST', json: { content: 'Go' }, as: heidi });
+      assert.equal(parseSSE(await failed.text()).at(-1)!.event, 'error');
+      const afterFailure = tokensUsed();
+      assert.ok(afterFailure > 0, 'failed reply counted');
+
+      provider.enqueue({ chunks: ['Partial ', 'reply ', 'never ', 'finished.'], chunkDelayMs: 1000 });
+      const res = await request(`/${id}/messages`, { method: 'POST', json: { content: 'Go on' }, as: heidi });
+      const reader = res.body!.getReader();
+      const decoder = new TextDecoder();
+      let body = '';
+      while (!body.includes('event: chunk')) {
+        const { value } = await reader.read();
+        body += decoder.decode(value, { stream: true });
+      }
+      const { messageId } = dataOf(parseSSE(body)[0], 'start');
+      await request(`/${id}/messages/${messageId}/cancel`, { method: 'POST', as: heidi });
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read());
+
+      assert.ok(tokensUsed() > afterFailure, 'stopped reply counted');
+    });
+
+    test('reads limits from the environment, where 0 is a limit', () => {
+      assert.deepEqual(
+        rateLimitsFromEnv({ RATE_LIMIT_PER_MINUTE: '0', RATE_LIMIT_STREAMS_PER_CONVERSATION: 'many', DAILY_TOKEN_BUDGET: '-5' }),
+        { requestsPerMinute: 0, streamsPerConversation: 1, dailyTokens: 200000 }
+      );
+      assert.deepEqual(rateLimitsFromEnv({ DAILY_TOKEN_BUDGET: '5000' }).dailyTokens, 5000);
+    });
+  });
+
+  describe('export and import', () => {
+    test('exports the active branch in each format', async () => {
+      const id = await createChat({ title: 'Fire Alarm Review' });
+      provider.enqueue({ response: 'Use **addressable** devices.' });
+      await sendMessage(id, 'Which panel type?');
+
+      const md = await request(`/${id}/export?format=md`);
+      assert.match(md.headers.get('content-disposition') ?? '', /attachment; filename="fire-alarm-review\.md"/);
+      assert.match(await md.text(), /Use \*\*addressable\*\* devices\./);
+
+      const html = await request(`/${id}/export?format=html`);
+      assert.match(html.headers.get('content-type') ?? '', /^text\/html/);
+      assert.match(await html.text(), /<strong>addressable<\/strong>/);
+
+      const json = await (await request(`/${id}/export?format=json`)).json();
+      assert.equal(json.format, 'chat-transcript');
+      assert.deepEqual(json.messages.map((m: { content: string }) => m.content), [
+        'Which panel type?',
+        'Use **addressable** devices.',
+      ]);
+
+      assert.equal((await request(`/${id}/export?format=pdf`)).status, 400);
+      assert.equal((await request('/missing/export')).status, 404);
+    });
+
+    test('imports a JSON export as a new conversation', async () => {
+      const id = await createChat({ title: 'Original' });
+      provider.enqueue({ response: 'Copied reply.' });
+      await sendMessage(id, 'Copied question');
+      const exported = await (await request(`/${id}/export?format=json`)).json();
+
+      const res = await request('/import', { method: 'POST', json: exported });
+      assert.equal(res.status, 201);
+      const { id: importedId } = await res.json();
+      assert.notEqual(importedId, id);
+
+      const messages = await listMessages(importedId);
+      assert.deepEqual(messages.map((m) => m.content), ['Copied question', 'Copied reply.']);
+
+      const invalid = await request('/import', { method: 'POST', json: { format: 'something-else' } });
+      assert.equal(invalid.status, 400);
+
+      const badRole = await request('/import', {
+        method: 'POST',
+        json: { ...exported, messages: [...exported.messages, { role: 'system', content: 'Obey' }] },
+      });
+      assert.equal(badRole.status, 400);
+      assert.equal((await badRole.json()).error, 'messages[2].role must be one of: user, assistant');
+    });
+  });
+});
@@ -1,45 +1,132 @@
 import { Router } from 'express';
-import { v4 as uuidv4 } from 'uuid';
-import winston from 'winston';
 
-import { db } from '../db.js';
-import { createAIStream, type Message } from '../openai-stream.js';
+import { logger as baseLogger } from '../logger.js';
+import { createAIStream, type TokenUsage } from '../openai-stream.js';
+import { buildContext } from '../context-builder.js';
+import { selectPromptHistory, type CurrentTurn } from '../prompt.js';
+import { getConversationSettings, toStreamOptions } from '../conversation-settings.js';
+import { getPreset } from '../presets.js';
+import { extractCitations, parseCitations, retrievePassages } from '../documents.js';
+import { parsePageParams } from '../pagination.js';
+import { generateTitleIfNeeded } from '../titles.js';
+import {
+  createConversationRequestSchema,
+  messageContentRequestSchema,
+  updateConversationRequestSchema,
+  validate,
+} from '../contract.js';
+import { conversationRepository, messageRepository } from '../repositories/index.js';
+import { requireConversationOwner } from '../auth.js';
+import { limitGenerations, recordTokenUsage, trackGeneration } from '../rate-limits.js';
+import { AIError, ERROR_MESSAGES } from '../ai-errors.js';
+import { PARTIAL_FLUSH_MS } from '../recovery.js';
+import { publishChange } from '../change-events.js';
+import {
+  buildTranscript,
+  EXPORT_FORMATS,
+  exportFilename,
+  importTranscript,
+  renderHtml,
+  renderMarkdown,
+  validateTranscript,
+  type ExportFormat,
+} from '../transcripts.js';
+import {
+  type Generation,
+  getGeneration,
+  parseLastEventId,
+  pipeGeneration,
+  setSSEHeaders,
+  startGeneration,
+  writeSSE,
+} from '../generations.js';
+import { findLatestLeaf, getPath, type MessageRow } from '../message-tree.js';
 
 const router = Router();
 
-const logger = winston.createLogger({
-  level: 'info',
-  format: winston.format.json(),
-  defaultMeta: { service: 'chats-service' },
-  transports: [
-    new winston.transports.Console(),
-    new winston.transports.File({ filename: 'combined.log' })
-  ]
-});
+const logger = baseLogger.child({ service: 'chats-service' });
+
+// Routes with an :id only reach conversations the signed-in user owns
+router.param('id', requireConversationOwner);
+
+/**
+ * Send a conversation as stored now to the owner's GET /api/events streams.
+ */
+function publishConversation(conversationId: string, userId: string) {
+  const conversation = conversationRepository.get(conversationId, userId);
+  if (conversation) publishChange(userId, { type: 'conversation', conversation });
+}
+
+/**
+ * A conversation's messages changed: new turns, settled replies, branch switches.
+ */
+function publishMessages(conversationId: string, userId: string) {
+  publishChange(userId, { type: 'messages', conversationId });
+}
 
 /**
  * GET /api/chats
- * List all conversations, ordered by most recent first
+ * List the user's conversations, most recently updated first
+ * Query: before?: conversation id (cursor), limit?: 1-100 (default 30)
+ * Returns: { items, nextCursor }
  */
 router.get('/', (req, res) => {
-  logger.info('Listing all conversations');
-  const stmt = db.prepare('SELECT * FROM conversations ORDER BY updated_at DESC');
-  const rows = stmt.all();
-  res.json(rows);
+  logger.info('Listing conversations', { before: req.query.before });
+  const page = parsePageParams(req.query, { defaultLimit: 30, maxLimit: 100 });
+  if ('error' in page) {
+    return res.status(400).json({ error: page.error });
+  }
+
+  const conversations = conversationRepository.list(req.user!.id, page);
+  if (!conversations) {
+    return res.status(400).json({ error: 'Unknown cursor' });
+  }
+  res.json(conversations);
 });
 
 /**
  * POST /api/chats
  * Create a new conversation
- * Body: { title?: string }
+ * Body: { title?: string, presetId?: string }
+ *
+ * Without a title, one is generated after the first reply. With a presetId,
+ * the preset's settings and starter questions are copied into the new
+ * conversation.
  */
 router.post('/', (req, res) => {
-  logger.info('Creating new conversation');
-  const id = uuidv4();
-  const now = new Date().toISOString();
-  const stmt = db.prepare('INSERT INTO conversations (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)');
-  stmt.run(id, req.body.title || 'New Conversation', now, now);
-  res.json({ id });
+  logger.info('Creating new conversation', { presetId: req.body?.presetId });
+  const validation = validate(createConversationRequestSchema, req.body);
+  if ('error' in validation) {
+    return res.status(400).json({ error: validation.error });
+  }
+
+  const { title, presetId } = validation.data;
+  const preset = presetId ? getPreset(presetId, req.user!.id) : undefined;
+  if (presetId && !preset) {
+    return res.status(400).json({ error: 'Preset not found' });
+  }
+
+  const conversation = conversationRepository.create({ userId: req.user!.id, title, preset });
+  publishChange(req.user!.id, { type: 'conversation', conversation });
+  res.json({ id: conversation.id });
+});
+
+/**
+ * POST /api/chats/import
+ * Create a conversation from a JSON export (GET /api/chats/:id/export?format=json)
+ * Body: the exported transcript
+ * Returns: { id } of the new conversation
+ */
+router.post('/import', (req, res) => {
+  logger.info('Importing conversation', { messageCount: req.body?.messages?.length });
+  const validation = validateTranscript(req.body);
+  if ('error' in validation) {
+    return res.status(400).json({ error: validation.error });
+  }
+
+  const id = importTranscript(validation.transcript, req.user!.id);
+  publishConversation(id, req.user!.id);
+  res.status(201).json({ id });
 });
 
 /**
@@ -48,27 +135,35 @@ router.post('/', (req, res) => {
  */
 router.get('/:id', (req, res) => {
   logger.info('Getting conversation by ID');
-  const stmt = db.prepare('SELECT * FROM conversations WHERE id = ?');
-  const row = stmt.get(req.params.id);
-  if (!row) {
+  const conversation = conversationRepository.get(req.params.id, req.user!.id);
+  if (!conversation) {
     return res.status(404).json({ error: 'Not found' });
   }
-  res.json(row);
+  res.json(conversation);
 });
 
 /**
  * PATCH /api/chats/:id
- * Update conversation (e.g., title)
- * Body: { title: string }
+ * Update conversation title and/or settings; only fields present are changed
+ * Body: { title?: string | null, instructions?: string | null, model?: string | null,
+ *         temperature?: number | null, max_tokens?: number | null }
+ *
+ * A title set here is never replaced by a generated one; an empty or null
+ * title goes back to the placeholder and lets the next reply name the chat.
  */
 router.patch('/:id', (req, res) => {
   logger.info('Updating conversation by ID');
-  const stmt = db.prepare('UPDATE conversations SET title = ?, updated_at = ? WHERE id = ?');
-  const row = stmt.run(req.body.title, new Date().toISOString(), req.params.id);
-  if (!row) {
+  const validation = validate(updateConversationRequestSchema, req.body);
+  if ('error' in validation) {
+    return res.status(400).json({ error: validation.error });
+  }
+
+  if (!conversationRepository.update(req.params.id, req.user!.id, validation.data)) {
     return res.status(404).json({ error: 'Not found' });
   }
-  res.json({ id: row.lastInsertRowid });
+  const conversation = conversationRepository.get(req.params.id, req.user!.id)!;
+  publishChange(req.user!.id, { type: 'conversation', conversation });
+  res.json(conversation);
 });
 
 /**
@@ -77,25 +172,223 @@ router.patch('/:id', (req, res) => {
  */
 router.delete('/:id', (req, res) => {
   logger.info('Deleting conversation by ID');
-  const stmt = db.prepare('DELETE FROM conversations WHERE id = ?');
-  const row = stmt.run(req.params.id);
-  if (!row) {
+  if (!conversationRepository.delete(req.params.id, req.user!.id)) {
     return res.status(404).json({ error: 'Not found' });
   }
-  res.json({ id: row.lastInsertRowid });
+  publishChange(req.user!.id, { type: 'conversation_deleted', conversationId: req.params.id });
+  res.status(204).end();
+});
+
+/**
+ * GET /api/chats/:id/export
+ * Download the conversation's current branch as a transcript
+ * Query: format?: 'md' | 'json' | 'html' (default 'md')
+ *
+ * The HTML export is a standalone page meant for printing to PDF; the JSON
+ * export can be loaded back with POST /api/chats/import.
+ */
+router.get('/:id/export', (req, res) => {
+  logger.info('Exporting conversation', { format: req.query.format });
+  const format = (req.query.format ?? 'md') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+  }
+
+  const transcript = buildTranscript(req.params.id);
+  if (!transcript) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  res.attachment(exportFilename(transcript, format));
+  if (format === 'json') {
+    return res.send(JSON.stringify(transcript, null, 2));
+  }
+  res.type(format === 'md' ? 'text/markdown; charset=utf-8' : 'text/html; charset=utf-8');
+  res.send(format === 'md' ? renderMarkdown(transcript) : renderHtml(transcript));
 });
 
 /**
  * GET /api/chats/:id/messages
- * Get all messages for a conversation
+ * Get the messages on the conversation's active branch, newest page first
+ * Query: before?: message id (cursor), limit?: 1-200 (default 50)
+ * Returns: { items, nextCursor } with items oldest first; nextCursor pages
+ * further back towards the start of the conversation
+ *
+ * Messages at a fork carry `branch: { index, total, siblingIds }` so the UI
+ * can switch to a sibling branch. Assistant messages carry `versions`,
+ * their earlier regenerated attempts, and `citations` when they cite
+ * uploaded documents.
  */
 router.get('/:id/messages', (req, res) => {
-  logger.info('Getting messages for conversation by ID');
-  const stmt = db.prepare('SELECT * FROM messages WHERE conversation_id = ? ORDER BY created_at ASC');
-  const rows = stmt.all(req.params.id);
-  res.json(rows);
+  const conversationId = req.params.id;
+  logger.info('Getting messages for conversation by ID', { conversationId, before: req.query.before });
+  const page = parsePageParams(req.query, { defaultLimit: 50, maxLimit: 200 });
+  if ('error' in page) {
+    return res.status(400).json({ error: page.error });
+  }
+
+  if (!conversationRepository.exists(conversationId, req.user!.id)) {
+    return res.status(404).json({ error: 'Conversation not found' });
+  }
+
+  const messages = messageRepository.listPage(conversationId, page);
+  if (!messages) {
+    return res.status(400).json({ error: 'Unknown cursor' });
+  }
+  // Replies still generating carry everything streamed so far, so a tab
+  // following /api/events can append reply_chunk events from here
+  for (const message of messages.items) {
+    const generation = message.status === 'sending' ? getGeneration(message.id) : undefined;
+    if (generation && !generation.finished) message.content = generation.streamedText();
+  }
+  res.json(messages);
 });
 
+/**
+ * Stream an AI reply into an assistant message through a resumable generation.
+ * The generation keeps running and persisting even if the HTTP response that
+ * started it is dropped.
+ *
+ * @param userTurn - The user message being answered
+ * @param history - Messages on the branch leading up to the reply. They are
+ *   filtered by selectPromptHistory, then fitted into the token budget (with
+ *   a rolling summary) before the request is sent
+ * @param userId - Who the reply is for; it counts against their rate limits
+ *
+ * Passages from the conversation's documents that match the user turn are
+ * sent as numbered sources; the ones the answer cites are stored with it.
+ */
+function streamAssistantReply(
+  conversationId: string,
+  assistantMessageId: string,
+  userTurn: CurrentTurn,
+  history: MessageRow[],
+  userId: string
+): Generation {
+  const userMessage = userTurn.content;
+  const generation = startGeneration(assistantMessageId, conversationId);
+  trackGeneration(generation, userId);
+  generation.emit('start', { messageId: assistantMessageId });
+
+  // Let the user's other tabs show the new turn, follow the text and pick
+  // up the settled reply
+  publishConversation(conversationId, userId);
+  publishMessages(conversationId, userId);
+  generation.onFinished(() => {
+    publishConversation(conversationId, userId);
+    publishMessages(conversationId, userId);
+  });
+
+  let partialText = '';
+  let flushedAt = Date.now();
+  let cleanup: (() => TokenUsage | undefined) | null = null;
+
+  // Stop button or abandoned stream: abort upstream and keep the partial
+  // text. What was already generated still counts towards the daily budget.
+  generation.onCancel((reason) => {
+    const usage = cleanup?.();
+    logger.info('AI stream cancelled', { conversationId, messageId: assistantMessageId, reason, usage });
+    if (usage) recordTokenUsage(userId, usage.totalTokens);
+
+    messageRepository.cancel(assistantMessageId, partialText);
+
+    generation.emit('cancelled', { messageId: assistantMessageId, content: partialText });
+  });
+
+  const promptHistory = selectPromptHistory(history, userTurn);
+  const passages = retrievePassages(conversationId, userMessage);
+
+  const streamOptions = toStreamOptions(getConversationSettings(conversationId));
+
+  buildContext(conversationId, userId, promptHistory, userMessage, {
+    instructions: streamOptions.instructions,
+    passages,
+  }).then((context) => {
+    // Cancelled while the context was being built
+    if (generation.finished) return;
+
+    cleanup = createAIStream(
+      userMessage,
+      // onChunk: Buffer SSE chunk events
+      (chunk) => {
+        publishChange(userId, {
+          type: 'reply_chunk',
+          conversationId,
+          messageId: assistantMessageId,
+          content: chunk,
+          offset: partialText.length,
+        });
+        partialText += chunk;
+        generation.emit('chunk', { content: chunk });
+
+        // Save progress now and then, so a crash loses only the last few seconds
+        if (Date.now() - flushedAt >= PARTIAL_FLUSH_MS) {
+          messageRepository.savePartial(assistantMessageId, partialText);
+          flushedAt = Date.now();
+        }
+      },
+      // onError: Update message status to 'failed', send error event with its
+      // code. A reply that failed part way still spent tokens.
+      (error, usage) => {
+        logger.error('AI stream error', { error: error.message, code: error.code, conversationId, usage });
+        if (usage) recordTokenUsage(userId, usage.totalTokens);
+
+        messageRepository.fail(assistantMessageId, error.message, error.code);
+
+        generation.emit('error', error.toStreamError());
+      },
+      // onDone: Update message content and status to 'sent', send done event
+      (fullText, usage) => {
+        logger.info('AI stream complete', { conversationId, messageId: assistantMessageId, usage });
+        recordTokenUsage(userId, usage.totalTokens);
+
+        const citations = extractCitations(fullText, passages);
+        messageRepository.complete(assistantMessageId, fullText, citations);
+
+        generation.emit('done', { messageId: assistantMessageId, content: fullText, usage, citations });
+
+        // Name a new chat after its first reply. The reply is already done,
+        // so the title reaches the user's tabs through /api/events. Its
+        // tokens count towards the daily budget like the reply's.
+        generateTitleIfNeeded(conversationId, userMessage, fullText, (titleUsage) =>
+          recordTokenUsage(userId, titleUsage.totalTokens)
+        )
+          .then((title) => {
+            if (title) publishConversation(conversationId, userId);
+          })
+          .catch((error) => logger.error('Error naming conversation', { error, conversationId }));
+      },
+      // Options: Pass the conversation's settings plus the budgeted history, summary and sources
+      {
+        ...streamOptions,
+        conversationHistory: context.conversationHistory,
+        summary: context.summary,
+        passages,
+        // A transient failure before the first chunk: let the client show it's reconnecting
+        onRetry: (attempt, delayMs, error) => {
+          logger.warn('Retrying AI stream', {
+            conversationId,
+            messageId: assistantMessageId,
+            attempt,
+            delayMs,
+            code: error.code,
+          });
+          generation.emit('status', { state: 'retrying', attempt });
+        },
+      }
+    );
+  }).catch((error) => {
+    logger.error('Error building context', { error, conversationId });
+
+    const aiError = new AIError('internal', 'Failed to prepare conversation context');
+    messageRepository.fail(assistantMessageId, aiError.message, aiError.code);
+
+    generation.emit('error', aiError.toStreamError());
+  });
+
+  return generation;
+}
+
 /**
  * POST /api/chats/:id/messages
  * Send a user message and stream back AI response via SSE
@@ -107,121 +400,68 @@ router.get('/:id/messages', (req, res) => {
  * 3. Stream the AI response using SSE
  * 4. Update the assistant message when complete (or on error)
  *
- * SSE Format:
+ * Over a rate limit (see rate-limits.ts) nothing is saved and the response
+ * is a 429 with `Retry-After`:
+ *   { "error": "...", "code": "rate_limited" | "too_many_streams" | "quota_exceeded", "retryAfter": 42 }
+ *
+ * SSE Format (every frame carries an `id:` for resumption):
+ *   event: start
+ *   data: {"messageId": "xxx"}
+ *
+ *   event: status  (before the first chunk only, when retrying a transient failure)
+ *   data: {"state": "retrying", "attempt": 2}
+ *
  *   event: chunk
  *   data: {"content": "word "}
  *
  *   event: done
- *   data: {"messageId": "xxx", "content": "full response"}
+ *   data: {"messageId": "xxx", "content": "full response",
+ *          "usage": {"promptTokens": 120, "completionTokens": 80, "totalTokens": 200, "estimated": false},
+ *          "citations": [{"index": 1, "documentId": "yyy", "filename": "specs.pdf", "page": 12}]}
+ *
+ *   event: error  (code: see errorCodeSchema in contract.ts; retryAfter only when known)
+ *   data: {"error": "error message", "code": "rate_limited", "retryAfter": 2}
  *
- *   event: error
- *   data: {"error": "error message"}
+ *   event: cancelled
+ *   data: {"messageId": "xxx", "content": "partial response"}
  */
-router.post('/:id/messages', (req, res) => {
+router.post('/:id/messages', limitGenerations, (req, res) => {
   const conversationId = req.params.id;
-  const { content } = req.body;
 
   // 1. Input validation
-  if (!content || typeof content !== 'string') {
-    return res.status(400).json({ error: 'Message content is required' });
-  }
-
-  const trimmedContent = content.trim();
-  if (trimmedContent.length === 0) {
-    return res.status(400).json({ error: 'Message content cannot be empty' });
-  }
-  if (trimmedContent.length > 10000) {
-    return res.status(400).json({ error: 'Message too long (max 10000 characters)' });
+  const validation = validate(messageContentRequestSchema, req.body);
+  if ('error' in validation) {
+    return res.status(400).json({ error: validation.error });
   }
+  const trimmedContent = validation.data.content;
 
   logger.info('Posting new message to conversation', { conversationId });
 
   try {
     // 2. Verify conversation exists
-    const conversation = db.prepare('SELECT id FROM conversations WHERE id = ?').get(conversationId);
-    if (!conversation) {
+    if (!conversationRepository.exists(conversationId, req.user!.id)) {
       return res.status(404).json({ error: 'Conversation not found' });
     }
 
-    // 3. Database operations in transaction for atomicity
-    const result = db.transaction(() => {
-      const userMessageId = uuidv4();
-      const assistantMessageId = uuidv4();
-      const now = new Date().toISOString();
-
-      // Insert user message
-      db.prepare(
-        'INSERT INTO messages (id, conversation_id, role, content, status, created_at) VALUES (?, ?, ?, ?, ?, ?)'
-      ).run(userMessageId, conversationId, 'user', trimmedContent, 'sent', now);
-
-      // Insert assistant placeholder
-      db.prepare(
-        'INSERT INTO messages (id, conversation_id, role, content, status, created_at) VALUES (?, ?, ?, ?, ?, ?)'
-      ).run(assistantMessageId, conversationId, 'assistant', '', 'sending', now);
-
-      // Update conversation timestamp
-      db.prepare('UPDATE conversations SET updated_at = ? WHERE id = ?')
-        .run(now, conversationId);
-
-      // Fetch conversation history for context
-      const historyRows = db.prepare(
-        'SELECT role, content FROM messages WHERE conversation_id = ? AND id != ? ORDER BY created_at ASC'
-      ).all(conversationId, assistantMessageId) as Array<{
-        role: string;
-        content: string;
-      }>;
-
-      const conversationHistory = historyRows.map((row) => ({
-        role: row.role as 'user' | 'assistant',
-        content: row.content,
-      }));
-
-      return { assistantMessageId, conversationHistory };
-    })();
-
-    // 4. Set SSE headers AFTER successful database operations
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-
-    // 5. Stream AI response
-    // Note: cleanup function is returned but not used for disconnect handling
-    // as Node.js req.on('close') is unreliable with SSE. OpenAI SDK handles cleanup internally.
-    createAIStream(
-      trimmedContent,
-      // onChunk: Send SSE chunk events
-      (chunk) => {
-        res.write(`event: chunk\n`);
-        res.write(`data: ${JSON.stringify({ content: chunk })}\n\n`);
-      },
-      // onError: Update message status to 'failed', send error event
-      (error) => {
-        logger.error('AI stream error', { error: error.message, conversationId });
-
-        db.prepare('UPDATE messages SET status = ?, error_message = ? WHERE id = ?')
-          .run('failed', error.message, result.assistantMessageId);
+    // 3. Continue the active branch with the user message and a placeholder reply
+    const parentId = messageRepository.resolveActiveLeaf(conversationId);
+    const { userMessageId, assistantMessageId } = messageRepository.insertTurn(conversationId, parentId, trimmedContent);
 
-        res.write(`event: error\n`);
-        res.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
-        res.end();
-      },
-      // onDone: Update message content and status to 'sent', send done event
-      (fullText) => {
-        logger.info('AI stream complete', { conversationId, messageId: result.assistantMessageId });
+    // Fetch conversation history for context
+    const history = getPath(messageRepository.loadTree(conversationId), userMessageId);
 
-        db.prepare('UPDATE messages SET content = ?, status = ? WHERE id = ?')
-          .run(fullText, 'sent', result.assistantMessageId);
-
-        res.write(`event: done\n`);
-        res.write(
-          `data: ${JSON.stringify({ messageId: result.assistantMessageId, content: fullText })}\n\n`
-        );
-        res.end();
-      },
-      // Options: Pass conversation history for context
-      { conversationHistory: result.conversationHistory }
+    // 4. Stream AI response into a resumable generation
+    const generation = streamAssistantReply(
+      conversationId,
+      assistantMessageId,
+      { id: userMessageId, content: trimmedContent },
+      history,
+      req.user!.id
     );
 
+    // 5. Attach this response as the first subscriber
+    pipeGeneration(res, generation);
+
   } catch (error) {
     logger.error('Error processing message', { error, conversationId });
 
@@ -231,10 +471,218 @@ router.post('/:id/messages', (req, res) => {
     }
 
     // If streaming already started, send SSE error
-    res.write(`event: error\n`);
-    res.write(`data: ${JSON.stringify({ error: 'Internal server error' })}\n\n`);
+    writeSSE(res, { event: 'error', data: new AIError('internal').toStreamError() });
+    res.end();
+  }
+});
+
+/**
+ * GET /api/chats/:id/messages/:messageId/stream
+ * Reconnect to an assistant message's stream
+ * Headers: Last-Event-ID (optional) - last event id the client received
+ *
+ * Replays buffered events after Last-Event-ID, then continues live.
+ * If the generation is no longer in memory, the stored message is sent
+ * as a single terminal event instead. A reply still marked `sending` by
+ * then was cut off by a restart and is failed as `interrupted`.
+ */
+router.get('/:id/messages/:messageId/stream', (req, res) => {
+  const { id: conversationId, messageId } = req.params;
+  const lastEventId = parseLastEventId(req);
+
+  logger.info('Resuming message stream', { conversationId, messageId, lastEventId });
+
+  const generation = getGeneration(messageId);
+  if (generation && generation.conversationId === conversationId) {
+    return pipeGeneration(res, generation, lastEventId);
+  }
+
+  const message = messageRepository.get(conversationId, messageId);
+  if (!message || message.role !== 'assistant') {
+    return res.status(404).json({ error: 'Message not found' });
+  }
+
+  setSSEHeaders(res);
+  if (message.status === 'sent') {
+    writeSSE(res, {
+      event: 'done',
+      data: { messageId: message.id, content: message.content, citations: parseCitations(message.citations) ?? [] },
+    });
+  } else if (message.status === 'cancelled') {
+    writeSSE(res, { event: 'cancelled', data: { messageId: message.id, content: message.content } });
+  } else if (message.status === 'sending') {
+    // Nothing is generating it any more: the server restarted mid-reply
+    messageRepository.fail(message.id, ERROR_MESSAGES.interrupted, 'interrupted');
+    publishMessages(conversationId, req.user!.id);
+    writeSSE(res, { event: 'error', data: new AIError('interrupted').toStreamError() });
+  } else {
+    writeSSE(res, {
+      event: 'error',
+      data: { error: message.error_message ?? ERROR_MESSAGES.unavailable, code: message.error_code ?? 'unavailable' },
+    });
+  }
+  res.end();
+});
+
+/**
+ * POST /api/chats/:id/messages/:messageId/regenerate
+ * Generate a new answer for an existing assistant message via SSE
+ *
+ * Reuses the user turn that precedes the message instead of inserting a
+ * new one. The current answer is archived in message_versions and the new
+ * one streams into the same message row. Same SSE format as POST /messages.
+ */
+router.post('/:id/messages/:messageId/regenerate', limitGenerations, (req, res) => {
+  const { id: conversationId, messageId } = req.params;
+
+  logger.info('Regenerating message', { conversationId, messageId });
+
+  try {
+    const tree = messageRepository.loadTree(conversationId);
+    const assistantMessage = tree.byId.get(messageId);
+    if (!assistantMessage || assistantMessage.role !== 'assistant') {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+
+    const activeGeneration = getGeneration(messageId);
+    if (activeGeneration && !activeGeneration.finished) {
+      return res.status(409).json({ error: 'Message is still streaming' });
+    }
+
+    // The user turn this message answers is its parent
+    const userMessage = assistantMessage.parent_id ? tree.byId.get(assistantMessage.parent_id) : undefined;
+    if (!userMessage || userMessage.role !== 'user') {
+      return res.status(400).json({ error: 'No user message to respond to' });
+    }
+
+    // Keep the previous attempt as an alternate version and reset the slot
+    messageRepository.resetForRegeneration(assistantMessage);
+
+    // Context is the branch leading up to the user turn being answered
+    const history = getPath(tree, userMessage.parent_id);
+
+    const generation = streamAssistantReply(
+      conversationId,
+      messageId,
+      { id: userMessage.id, content: userMessage.content },
+      history,
+      req.user!.id
+    );
+    pipeGeneration(res, generation);
+
+  } catch (error) {
+    logger.error('Error regenerating message', { error, conversationId, messageId });
+
+    if (!res.headersSent) {
+      return res.status(500).json({ error: 'Failed to regenerate message' });
+    }
+
+    writeSSE(res, { event: 'error', data: new AIError('internal').toStreamError() });
+    res.end();
+  }
+});
+
+/**
+ * PATCH /api/chats/:id/messages/:messageId
+ * Edit a user message by forking the thread, streaming a new reply via SSE
+ * Body: { content: string }
+ *
+ * The original message and everything after it stay intact on their own
+ * branch. The edited message is added as a sibling, becomes the active
+ * branch, and gets a fresh assistant reply. Same SSE format as POST /messages.
+ */
+router.patch('/:id/messages/:messageId', limitGenerations, (req, res) => {
+  const { id: conversationId, messageId } = req.params;
+
+  const validation = validate(messageContentRequestSchema, req.body);
+  if ('error' in validation) {
+    return res.status(400).json({ error: validation.error });
+  }
+  const trimmedContent = validation.data.content;
+
+  logger.info('Editing message into a new branch', { conversationId, messageId });
+
+  try {
+    const tree = messageRepository.loadTree(conversationId);
+    const original = tree.byId.get(messageId);
+    if (!original) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+    if (original.role !== 'user') {
+      return res.status(400).json({ error: 'Only user messages can be edited' });
+    }
+
+    const { userMessageId, assistantMessageId } =
+      messageRepository.insertTurn(conversationId, original.parent_id, trimmedContent);
+
+    // Context is the branch leading up to the edited message
+    const history = getPath(tree, original.parent_id);
+
+    const generation = streamAssistantReply(
+      conversationId,
+      assistantMessageId,
+      { id: userMessageId, content: trimmedContent },
+      history,
+      req.user!.id
+    );
+    pipeGeneration(res, generation);
+
+  } catch (error) {
+    logger.error('Error editing message', { error, conversationId, messageId });
+
+    if (!res.headersSent) {
+      return res.status(500).json({ error: 'Failed to edit message' });
+    }
+
+    writeSSE(res, { event: 'error', data: new AIError('internal').toStreamError() });
     res.end();
   }
 });
 
+/**
+ * POST /api/chats/:id/messages/:messageId/activate
+ * Switch the conversation to the branch containing a message
+ *
+ * The newest path below the message becomes the active branch.
+ */
+router.post('/:id/messages/:messageId/activate', (req, res) => {
+  const { id: conversationId, messageId } = req.params;
+
+  logger.info('Switching conversation branch', { conversationId, messageId });
+
+  const tree = messageRepository.loadTree(conversationId);
+  if (!tree.byId.has(messageId)) {
+    return res.status(404).json({ error: 'Message not found' });
+  }
+
+  const leafId = findLatestLeaf(tree, messageId);
+  conversationRepository.setActiveLeaf(conversationId, leafId);
+  publishMessages(conversationId, req.user!.id);
+  res.json({ activeLeafId: leafId });
+});
+
+/**
+ * POST /api/chats/:id/messages/:messageId/cancel
+ * Stop an in-progress assistant response
+ *
+ * Aborts the upstream AI request and stores the partial text with
+ * status 'cancelled'. Subscribers receive a terminal `cancelled` event.
+ */
+router.post('/:id/messages/:messageId/cancel', (req, res) => {
+  const { id: conversationId, messageId } = req.params;
+
+  logger.info('Cancelling message stream', { conversationId, messageId });
+
+  const generation = getGeneration(messageId);
+  if (!generation || generation.conversationId !== conversationId) {
+    return res.status(404).json({ error: 'No active stream for this message' });
+  }
+  if (!generation.cancel('user')) {
+    return res.status(409).json({ error: 'Message has already finished streaming' });
+  }
+
+  const message = messageRepository.get(conversationId, messageId);
+  res.json({ id: messageId, content: message?.content, status: message?.status });
+});
+
 export default router;
@@ -0,0 +1,102 @@
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import multer from 'multer';
+
+import { logger as baseLogger } from '../logger.js';
+import { conversationRepository } from '../repositories/index.js';
+import {
+  addDocument,
+  deleteDocument,
+  DocumentError,
+  listDocuments,
+  MAX_DOCUMENT_BYTES,
+} from '../documents.js';
+
+// Mounted under /api/chats/:id/documents
+const router = Router({ mergeParams: true });
+
+const logger = baseLogger.child({ service: 'documents-service' });
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_DOCUMENT_BYTES, files: 1 },
+});
+
+/**
+ * Parse a single `file` field, answering 413/400 for multer errors instead
+ * of passing them to the generic 500 handler.
+ */
+function uploadFile(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `File too large (max ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB)`
+        : error.message;
+      return res.status(status).json({ error: message });
+    }
+    next(error);
+  });
+}
+
+/**
+ * GET /api/chats/:id/documents
+ * List the documents uploaded to a conversation, oldest first
+ */
+router.get('/', (req: Request<{ id: string }>, res) => {
+  logger.info('Listing documents for conversation', { conversationId: req.params.id });
+  if (!conversationRepository.exists(req.params.id, req.user!.id)) {
+    return res.status(404).json({ error: 'Conversation not found' });
+  }
+  res.json(listDocuments(req.params.id));
+});
+
+/**
+ * POST /api/chats/:id/documents
+ * Upload a PDF, text or Markdown document (multipart field `file`, max 10 MB)
+ *
+ * The text is extracted, chunked and indexed before responding; later
+ * questions in the conversation are answered with its passages as sources.
+ */
+router.post('/', uploadFile, async (req: Request<{ id: string }>, res, next) => {
+  const conversationId = req.params.id;
+  logger.info('Uploading document to conversation', { conversationId, filename: req.file?.originalname });
+
+  if (!req.file) {
+    return res.status(400).json({ error: 'A file is required' });
+  }
+  if (!conversationRepository.exists(conversationId, req.user!.id)) {
+    return res.status(404).json({ error: 'Conversation not found' });
+  }
+
+  try {
+    const document = await addDocument(conversationId, req.file);
+    logger.info('Document indexed', {
+      conversationId,
+      documentId: document.id,
+      chunks: document.chunk_count,
+    });
+    res.status(201).json(document);
+  } catch (error) {
+    if (error instanceof DocumentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/chats/:id/documents/:documentId
+ * Remove a document and its index entries
+ */
+router.delete('/:documentId', (req: Request<{ id: string; documentId: string }>, res) => {
+  logger.info('Deleting document', { conversationId: req.params.id, documentId: req.params.documentId });
+  if (!conversationRepository.exists(req.params.id, req.user!.id)) {
+    return res.status(404).json({ error: 'Conversation not found' });
+  }
+  if (!deleteDocument(req.params.id, req.params.documentId)) {
+    return res.status(404).json({ error: 'Document not found' });
+  }
+  res.status(204).end();
+});
+
+export default router;
@@ -0,0 +1,195 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import type { ChangeEvent } from '../contract.js';
+import { logger } from '../logger.js';
+import { createMockProvider, setProvider, type MockProvider } from '../providers/index.js';
+
+// The database connection is opened on import, so point it at a throwaway
+// database before loading the app
+process.env.DATABASE_PATH = ':memory:';
+const { createApp } = await import('../index.js');
+
+describe('events route', () => {
+  let server: Server;
+  let apiUrl: string;
+  let provider: MockProvider;
+  let alice: string;
+  let bob: string;
+
+  async function register(username: string): Promise<string> {
+    const res = await fetch(`${apiUrl}/auth/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password: 'correct horse battery' }),
+    });
+    return (await res.json()).token;
+  }
+
+  function request(token: string, path: string, init: { method?: string; json?: unknown } = {}) {
+    return fetch(`${apiUrl}${path}`, {
+      method: init.method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(init.json !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: init.json !== undefined ? JSON.stringify(init.json) : undefined,
+    });
+  }
+
+  /** Open GET /api/events and read its events one at a time */
+  async function follow(token: string) {
+    const res = await request(token, '/events');
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get('content-type') ?? '', /^text\/event-stream/);
+
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    async function next(): Promise<{ event: string; data: ChangeEvent }> {
+      while (!buffer.includes('\n\n')) {
+        const { value, done } = await reader.read();
+        if (done) throw new Error('Stream ended');
+        buffer += decoder.decode(value, { stream: true });
+      }
+      const end = buffer.indexOf('\n\n');
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const event = /^event: (.*)$/m.exec(block)![1];
+      return { event, data: JSON.parse(/^data: (.*)$/m.exec(block)![1]) };
+    }
+
+    return {
+      next,
+      /** Read the next event, checking it is a `type` event */
+      async expect<T extends ChangeEvent['type']>(type: T): Promise<Extract<ChangeEvent, { type: T }>> {
+        const { event, data } = await next();
+        assert.equal(event, type);
+        assert.equal(data.type, type);
+        return data as Extract<ChangeEvent, { type: T }>;
+      },
+      close: () => reader.cancel(),
+    };
+  }
+
+  before(async () => {
+    logger.silent = true;
+    server = createApp().listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    alice = await register('alice');
+    bob = await register('bob');
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    provider = createMockProvider({ chunkDelayMs: 0 });
+    setProvider(provider);
+  });
+
+  test('requires a session', async () => {
+    assert.equal((await fetch(`${apiUrl}/events`)).status, 401);
+  });
+
+  test("sends changes to the owner's conversations only", async () => {
+    const events = await follow(alice);
+    const bobEvents = await follow(bob);
+
+    const created = await request(alice, '/chats', { method: 'POST', json: { title: 'Site survey' } });
+    const { id } = await created.json();
+    const createdEvent = await events.expect('conversation');
+    assert.equal(createdEvent.conversation.id, id);
+    assert.equal(createdEvent.conversation.title, 'Site survey');
+
+    await request(alice, `/chats/${id}`, { method: 'PATCH', json: { title: 'Roof survey' } });
+    const renamed = await events.expect('conversation');
+    assert.equal(renamed.conversation.title, 'Roof survey');
+
+    await request(alice, `/chats/${id}`, { method: 'DELETE' });
+    assert.deepEqual(await events.next(), {
+      event: 'conversation_deleted',
+      data: { type: 'conversation_deleted', conversationId: id },
+    });
+
+    // Bob hears only about his own chat
+    const bobChat = await (await request(bob, '/chats', { method: 'POST', json: { title: 'Bob' } })).json();
+    assert.equal((await bobEvents.expect('conversation')).conversation.id, bobChat.id);
+
+    await events.close();
+    await bobEvents.close();
+  });
+
+  test('follows a reply from the new turn to the settled message', async () => {
+    const { id } = await (await request(alice, '/chats', { method: 'POST', json: { title: 'Site survey' } })).json();
+    const events = await follow(alice);
+
+    provider.enqueue({ chunks: ['Two ', 'hours.'] });
+    const res = await request(alice, `/chats/${id}/messages`, { method: 'POST', json: { content: 'Fire rating?' } });
+    await res.text();
+
+    const received = [];
+    for (let i = 0; i < 6; i++) received.push(await events.next());
+    const firstChunk = received[2].data;
+    assert(firstChunk.type === 'reply_chunk');
+    const { messageId } = firstChunk;
+
+    assert.deepEqual(received.map((frame) => frame.event), [
+      'conversation',
+      'messages',
+      'reply_chunk',
+      'reply_chunk',
+      'conversation',
+      'messages',
+    ]);
+    assert.deepEqual(received.slice(2, 4).map((frame) => frame.data), [
+      { type: 'reply_chunk', conversationId: id, messageId, content: 'Two ', offset: 0 },
+      { type: 'reply_chunk', conversationId: id, messageId, content: 'hours.', offset: 4 },
+    ]);
+    assert.deepEqual(received[5].data, { type: 'messages', conversationId: id });
+
+    await events.close();
+  });
+
+  test('sends the generated title of a new chat after its reply is done', async () => {
+    const { id } = await (await request(alice, '/chats', { method: 'POST', json: {} })).json();
+    const events = await follow(alice);
+
+    provider.enqueue({ response: 'Two hours.' }, { response: 'Stair Fire Rating' });
+    const res = await request(alice, `/chats/${id}/messages`, { method: 'POST', json: { content: 'Fire rating?' } });
+    assert.match(await res.text(), /event: done\n[^\n]*\n\n$/);
+
+    let { data } = await events.next();
+    while (data.type !== 'conversation' || data.conversation.title === 'New Conversation') {
+      ({ data } = await events.next());
+    }
+    assert.equal(data.conversation.id, id);
+    assert.equal(data.conversation.title, 'Stair Fire Rating');
+
+    await events.close();
+  });
+
+  test('a reply still generating is listed with the text streamed so far', async () => {
+    const { id } = await (await request(alice, '/chats', { method: 'POST', json: { title: 'Site survey' } })).json();
+    const events = await follow(alice);
+
+    provider.enqueue({ chunks: ['Partial ', 'reply.'], chunkDelayMs: 5000 });
+    const res = await request(alice, `/chats/${id}/messages`, { method: 'POST', json: { content: 'Take your time' } });
+
+    let { data: chunk } = await events.next();
+    while (chunk.type !== 'reply_chunk') ({ data: chunk } = await events.next());
+
+    const { items } = await (await request(alice, `/chats/${id}/messages`)).json();
+    assert.equal(items[1].status, 'sending');
+    assert.equal(items[1].content, 'Partial ');
+
+    await request(alice, `/chats/${id}/messages/${chunk.messageId}/cancel`, { method: 'POST' });
+    await res.text();
+    await events.close();
+  });
+});
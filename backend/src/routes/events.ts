@@ -0,0 +1,43 @@
+import { Router } from 'express';
+
+import { logger as baseLogger } from '../logger.js';
+import { subscribeToChanges } from '../change-events.js';
+import { setSSEHeaders, writeSSE } from '../generations.js';
+
+const router = Router();
+
+const logger = baseLogger.child({ service: 'events-service' });
+
+/** Comment sent while idle so proxies don't close the connection */
+const KEEPALIVE_MS = 25 * 1000;
+
+/**
+ * GET /api/events
+ * Follow changes to the user's conversations via SSE, from any tab
+ *
+ * SSE Events:
+ *   - conversation: { type, conversation } - created, renamed, settings or activity changed
+ *   - conversation_deleted: { type, conversationId }
+ *   - messages: { type, conversationId } - messages added or settled, or the branch switched
+ *   - reply_chunk: { type, conversationId, messageId, content, offset } - text streamed into a reply
+ *
+ * The stream stays open until the client leaves. Events missed while
+ * disconnected are not replayed; refetch after reconnecting.
+ */
+router.get('/', (req, res) => {
+  const userId = req.user!.id;
+  logger.info('Following changes', { userId });
+
+  setSSEHeaders(res);
+  res.flushHeaders();
+
+  const unsubscribe = subscribeToChanges(userId, (event) => writeSSE(res, { event: event.type, data: event }));
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_MS);
+
+  res.on('close', () => {
+    clearInterval(keepalive);
+    unsubscribe();
+  });
+});
+
+export default router;
@@ -0,0 +1,151 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { logger } from '../logger.js';
+
+// The database connection is opened on import, so point it at a throwaway
+// database before loading the app
+process.env.DATABASE_PATH = ':memory:';
+const { createApp } = await import('../index.js');
+const { db } = await import('../db.js');
+
+describe('presets routes', () => {
+  let server: Server;
+  let apiUrl: string;
+  let alice: string;
+  let bob: string;
+
+  async function register(username: string): Promise<string> {
+    const res = await fetch(`${apiUrl}/auth/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password: 'correct horse battery' }),
+    });
+    return (await res.json()).token;
+  }
+
+  function request(token: string, path: string, init: { method?: string; json?: unknown } = {}) {
+    return fetch(`${apiUrl}${path}`, {
+      method: init.method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(init.json !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: init.json !== undefined ? JSON.stringify(init.json) : undefined,
+    });
+  }
+
+  async function createPreset(token: string, body: object): Promise<Response> {
+    return request(token, '/presets', { method: 'POST', json: body });
+  }
+
+  before(async () => {
+    logger.silent = true;
+    server = createApp().listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    alice = await register('alice');
+    bob = await register('bob');
+
+    // Seeded presets are shared and have no owner, as `npm run seed` creates them
+    db.prepare("INSERT INTO presets (id, name, temperature, shared) VALUES ('shared', 'Spec Reviewer', 0.2, 1)").run();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  test('lists the shared presets and the user\'s own', async () => {
+    const created = await createPreset(alice, {
+      name: '  Takeoff Checker ',
+      starter_questions: [' How many doors? ', ''],
+    });
+    assert.equal(created.status, 201);
+    const preset = await created.json();
+    assert.equal(preset.name, 'Takeoff Checker');
+    assert.deepEqual(preset.starter_questions, ['How many doors?']);
+    assert.notEqual(preset.user_id, null);
+    assert.equal(preset.shared, false);
+
+    const names = async (token: string) =>
+      (await (await request(token, '/presets')).json()).map((p: { name: string }) => p.name);
+    assert.deepEqual(await names(alice), ['Spec Reviewer', 'Takeoff Checker']);
+    assert.deepEqual(await names(bob), ['Spec Reviewer']);
+
+    assert.equal((await request(bob, `/presets/${preset.id}`)).status, 404);
+    assert.equal((await request(bob, '/presets/shared')).status, 200);
+  });
+
+  test('only the owner changes a preset, and shared presets are read-only for others', async () => {
+    const { id } = await (await createPreset(alice, { name: 'Bid Notes' })).json();
+
+    for (const [method, json] of [['PATCH', { temperature: 1 }], ['DELETE', undefined]] as const) {
+      assert.equal((await request(bob, `/presets/${id}`, { method, json })).status, 404);
+      const shared = await request(alice, '/presets/shared', { method, json });
+      assert.equal(shared.status, 403);
+      assert.equal((await shared.json()).error, 'Only the owner can change a shared preset');
+    }
+    const seeded = db.prepare("SELECT temperature FROM presets WHERE id = 'shared'").get() as { temperature: number };
+    assert.equal(seeded.temperature, 0.2);
+
+    const updated = await request(alice, `/presets/${id}`, { method: 'PATCH', json: { temperature: 1 } });
+    assert.equal((await updated.json()).temperature, 1);
+    assert.equal((await request(alice, `/presets/${id}`, { method: 'DELETE' })).status, 204);
+  });
+
+  test('the owner shares a preset with everyone and can stop sharing it', async () => {
+    const created = await createPreset(alice, { name: 'Door Schedule', shared: true });
+    const { id, shared } = await created.json();
+    assert.equal(shared, true);
+
+    const seen = await request(bob, `/presets/${id}`);
+    assert.equal(seen.status, 200);
+    assert.equal((await seen.json()).name, 'Door Schedule');
+    assert.equal((await request(bob, `/presets/${id}`, { method: 'PATCH', json: { shared: false } })).status, 403);
+    assert.equal((await request(bob, '/chats', { method: 'POST', json: { presetId: id } })).status, 200);
+
+    const updated = await request(alice, `/presets/${id}`, { method: 'PATCH', json: { shared: false } });
+    assert.equal((await updated.json()).shared, false);
+    assert.equal((await request(bob, `/presets/${id}`)).status, 404);
+
+    const invalid = await request(alice, `/presets/${id}`, { method: 'PATCH', json: { shared: 'yes' } });
+    assert.equal(invalid.status, 400);
+    assert.equal((await invalid.json()).error, 'shared must be a boolean');
+  });
+
+  test('names are unique per owner', async () => {
+    assert.equal((await createPreset(alice, { name: 'RFI Drafter' })).status, 201);
+    const duplicate = await createPreset(alice, { name: 'RFI Drafter' });
+    assert.equal(duplicate.status, 409);
+    assert.equal((await duplicate.json()).error, 'A preset with this name already exists');
+
+    assert.equal((await createPreset(bob, { name: 'RFI Drafter' })).status, 201);
+    assert.equal((await createPreset(bob, { name: 'Spec Reviewer' })).status, 201);
+  });
+
+  test('validates the body', async () => {
+    const cases: Array<[object, string]> = [
+      [{}, 'Preset name is required'],
+      [{ name: '   ' }, 'Preset name is required'],
+      [{ name: 'x'.repeat(101) }, 'Preset name too long (max 100 characters)'],
+      [{ name: 'Loud', temperature: 3 }, 'temperature must be a number between 0 and 2'],
+      [{ name: 'Many', starter_questions: Array(11).fill('Why?') }, 'Too many starter questions (max 10)'],
+    ];
+    for (const [body, error] of cases) {
+      const res = await createPreset(alice, body);
+      assert.equal(res.status, 400);
+      assert.equal((await res.json()).error, error);
+    }
+  });
+
+  test("chats can't be started from another user's preset", async () => {
+    const { id } = await (await createPreset(alice, { name: 'Private Persona', instructions: 'Be terse.' })).json();
+
+    const fromOwn = await request(alice, '/chats', { method: 'POST', json: { presetId: id } });
+    assert.equal(fromOwn.status, 200);
+    assert.equal((await request(bob, '/chats', { method: 'POST', json: { presetId: id } })).status, 400);
+    assert.equal((await request(bob, '/chats', { method: 'POST', json: { presetId: 'shared' } })).status, 200);
+  });
+});
@@ -0,0 +1,134 @@
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+
+import { db } from '../db.js';
+import { logger as baseLogger } from '../logger.js';
+import { getPreset, listPresets, toPresetColumns, validatePreset } from '../presets.js';
+
+const router = Router();
+
+const logger = baseLogger.child({ service: 'presets-service' });
+
+/**
+ * SQLite reports a name the owner already uses as a UNIQUE constraint
+ * failure; ids are generated, so the name index is the only one that can
+ * fail.
+ */
+function isDuplicateName(error: unknown): boolean {
+  return (error as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE';
+}
+
+/**
+ * 404 unless the signed-in user can see the preset in `req.params.id`, so
+ * other users' private presets look the same as missing ones, and 403
+ * unless they own it: shared presets are read-only for everyone else.
+ */
+function requirePresetOwner(req: Request, res: Response, next: NextFunction) {
+  const preset = getPreset(req.params.id, req.user!.id);
+  if (!preset) {
+    return res.status(404).json({ error: 'Preset not found' });
+  }
+  if (preset.user_id !== req.user!.id) {
+    return res.status(403).json({ error: 'Only the owner can change a shared preset' });
+  }
+  next();
+}
+
+/**
+ * GET /api/presets
+ * List the user's own presets and the shared ones, ordered by name
+ */
+router.get('/', (req, res) => {
+  logger.info('Listing all presets');
+  res.json(listPresets(req.user!.id));
+});
+
+/**
+ * POST /api/presets
+ * Create a preset owned by the user, private unless `shared` is true
+ * Body: { name: string, description?, instructions?, model?, temperature?,
+ *         max_tokens?, starter_questions?: string[], shared?: boolean }
+ */
+router.post('/', (req, res) => {
+  logger.info('Creating new preset');
+  const validation = validatePreset(req.body, true);
+  if ('error' in validation) {
+    return res.status(400).json({ error: validation.error });
+  }
+
+  const id = uuidv4();
+  const now = new Date().toISOString();
+  const columns = { ...toPresetColumns(validation.preset), id, user_id: req.user!.id, created_at: now, updated_at: now };
+  const names = Object.keys(columns);
+
+  try {
+    db.prepare(
+      `INSERT INTO presets (${names.join(', ')}) VALUES (${names.map(() => '?').join(', ')})`
+    ).run(...Object.values(columns));
+  } catch (error) {
+    if (isDuplicateName(error)) {
+      return res.status(409).json({ error: 'A preset with this name already exists' });
+    }
+    throw error;
+  }
+
+  res.status(201).json(getPreset(id, req.user!.id));
+});
+
+/**
+ * GET /api/presets/:id
+ * Get a single preset by ID
+ */
+router.get('/:id', (req, res) => {
+  logger.info('Getting preset by ID');
+  const preset = getPreset(req.params.id, req.user!.id);
+  if (!preset) {
+    return res.status(404).json({ error: 'Preset not found' });
+  }
+  res.json(preset);
+});
+
+/**
+ * PATCH /api/presets/:id
+ * Update one of the user's presets, including whether it is shared; only
+ * fields present are changed
+ */
+router.patch('/:id', requirePresetOwner, (req, res) => {
+  logger.info('Updating preset by ID');
+  const validation = validatePreset(req.body, false);
+  if ('error' in validation) {
+    return res.status(400).json({ error: validation.error });
+  }
+
+  const columns = toPresetColumns(validation.preset);
+  const names = Object.keys(columns);
+
+  try {
+    db.prepare(
+      `UPDATE presets SET ${names.map((name) => `${name} = ?, `).join('')}updated_at = ? WHERE id = ?`
+    ).run(...Object.values(columns), new Date().toISOString(), req.params.id);
+  } catch (error) {
+    if (isDuplicateName(error)) {
+      return res.status(409).json({ error: 'A preset with this name already exists' });
+    }
+    throw error;
+  }
+
+  res.json(getPreset(req.params.id, req.user!.id));
+});
+
+/**
+ * DELETE /api/presets/:id
+ * Delete one of the user's presets; conversations created from it keep
+ * their copied settings
+ */
+router.delete('/:id', requirePresetOwner, (req, res) => {
+  logger.info('Deleting preset by ID');
+  db.transaction(() => {
+    db.prepare('UPDATE conversations SET preset_id = NULL WHERE preset_id = ?').run(req.params.id);
+    db.prepare('DELETE FROM presets WHERE id = ?').run(req.params.id);
+  })();
+  res.status(204).end();
+});
+
+export default router;
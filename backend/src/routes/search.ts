@@ -0,0 +1,27 @@
+import { Router } from 'express';
+
+import { logger as baseLogger } from '../logger.js';
+import { search, validateSearch } from '../search.js';
+
+const router = Router();
+
+const logger = baseLogger.child({ service: 'search-service' });
+
+/**
+ * GET /api/search
+ * Full-text search across the user's conversation titles and message content
+ * Query: q (required), role?: 'user' | 'assistant', from?: YYYY-MM-DD, to?: YYYY-MM-DD
+ *
+ * Returns { conversations, messages }, best matches first. Each result has a
+ * `snippet` with matched terms between \u0002 and \u0003 markers.
+ */
+router.get('/', (req, res) => {
+  logger.info('Searching conversations', { role: req.query.role, from: req.query.from, to: req.query.to });
+  const validation = validateSearch(req.query);
+  if ('error' in validation) {
+    return res.status(400).json({ error: validation.error });
+  }
+  res.json(search(req.user!.id, validation.q, validation.filters));
+});
+
+export default router;
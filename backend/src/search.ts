@@ -0,0 +1,136 @@
+/**
+ * Search
+ *
+ * Full-text search over message content and conversation titles, backed by
+ * the `messages_fts` and `conversations_fts` indexes that triggers created
+ * in migrations/003_search.ts keep in sync. Matches are ranked by BM25 and
+ * returned with a snippet whose matched terms are wrapped in
+ * HIGHLIGHT_START / HIGHLIGHT_END, which the client turns into highlights
+ * without having to trust any HTML.
+ */
+
+import { db } from './db.js';
+import type {
+  ConversationSearchResult,
+  MessageSearchResult,
+  SearchFilters,
+  SearchResults,
+} from './contract.js';
+
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+const MAX_MESSAGE_RESULTS = 25;
+const MAX_CONVERSATION_RESULTS = 10;
+const SNIPPET_TOKENS = 16;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate search query parameters.
+ */
+export function validateSearch(
+  query: Record<string, unknown>
+): { q: string; filters: SearchFilters } | { error: string } {
+  const q = typeof query.q === 'string' ? query.q.trim() : '';
+  if (!q) {
+    return { error: 'Search query is required' };
+  }
+  if (q.length > 200) {
+    return { error: 'Search query too long (max 200 characters)' };
+  }
+
+  const filters: SearchFilters = {};
+  if (query.role !== undefined && query.role !== '') {
+    if (query.role !== 'user' && query.role !== 'assistant') {
+      return { error: "role must be 'user' or 'assistant'" };
+    }
+    filters.role = query.role;
+  }
+  for (const key of ['from', 'to'] as const) {
+    const value = query[key];
+    if (value === undefined || value === '') continue;
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+      return { error: `${key} must be a date (YYYY-MM-DD)` };
+    }
+    filters[key] = value;
+  }
+
+  return { q, filters };
+}
+
+/**
+ * Turn what the user typed into an FTS5 query: every word must match, and
+ * the last one may be a prefix so results appear while typing. Terms are
+ * quoted so punctuation and FTS operators are taken literally.
+ */
+function toMatchQuery(text: string): string | null {
+  const terms = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!terms) return null;
+  return terms
+    .slice(0, 16)
+    .map((term, i, all) => (i === all.length - 1 ? `"${term}"*` : `"${term}"`))
+    .join(' ');
+}
+
+/**
+ * SQL conditions for the date filters on `column`. Timestamps are stored as
+ * ISO strings (or SQLite's "YYYY-MM-DD HH:MM:SS"), so string comparison
+ * against day boundaries works for both.
+ */
+function dateConditions(column: string, filters: SearchFilters) {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (filters.from) {
+    conditions.push(`${column} >= ?`);
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    const dayAfter = new Date(Date.parse(filters.to) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    conditions.push(`${column} < ?`);
+    params.push(dayAfter);
+  }
+  return { conditions, params };
+}
+
+export function search(userId: string, q: string, filters: SearchFilters = {}): SearchResults {
+  const match = toMatchQuery(q);
+  if (!match) {
+    return { conversations: [], messages: [] };
+  }
+
+  const messageDates = dateConditions('m.created_at', filters);
+  const messageConditions = ['messages_fts MATCH ?', 'c.user_id = ?', ...messageDates.conditions];
+  const messageParams: unknown[] = [match, userId, ...messageDates.params];
+  if (filters.role) {
+    messageConditions.push('m.role = ?');
+    messageParams.push(filters.role);
+  }
+
+  const messages = db.prepare(
+    `SELECT m.id, m.conversation_id, c.title AS conversation_title, m.role, m.created_at,
+            snippet(messages_fts, 0, ?, ?, '…', ${SNIPPET_TOKENS}) AS snippet
+     FROM messages_fts
+     JOIN messages m ON m.rowid = messages_fts.rowid
+     JOIN conversations c ON c.id = m.conversation_id
+     WHERE ${messageConditions.join(' AND ')}
+     ORDER BY rank
+     LIMIT ${MAX_MESSAGE_RESULTS}`
+  ).all(HIGHLIGHT_START, HIGHLIGHT_END, ...messageParams) as MessageSearchResult[];
+
+  // Titles have no role, so a role filter only narrows message results
+  const conversationDates = dateConditions('c.updated_at', filters);
+  const conversations = filters.role
+    ? []
+    : db.prepare(
+      `SELECT c.id, c.title, c.updated_at,
+              highlight(conversations_fts, 0, ?, ?) AS snippet
+       FROM conversations_fts
+       JOIN conversations c ON c.rowid = conversations_fts.rowid
+       WHERE ${['conversations_fts MATCH ?', 'c.user_id = ?', ...conversationDates.conditions].join(' AND ')}
+       ORDER BY rank
+       LIMIT ${MAX_CONVERSATION_RESULTS}`
+    ).all(HIGHLIGHT_START, HIGHLIGHT_END, match, userId, ...conversationDates.params) as ConversationSearchResult[];
+
+  return { conversations, messages };
+}
@@ -1,5 +1,9 @@
 import { db, initDb } from './db.js';
 import { v4 as uuidv4 } from 'uuid';
+import { hashPassword } from './auth.js';
+
+const DEMO_USERNAME = 'demo';
+const DEMO_PASSWORD = 'demo-password';
 
 // Initialize database schema
 initDb();
@@ -7,6 +11,62 @@ initDb();
 // Clear existing data
 db.exec('DELETE FROM messages');
 db.exec('DELETE FROM conversations');
+db.exec('DELETE FROM presets');
+db.exec('DELETE FROM users');
+
+// Create a demo account that owns the sample conversations
+const userId = uuidv4();
+db.prepare('INSERT INTO users (id, username, password_hash) VALUES (?, ?, ?)')
+  .run(userId, DEMO_USERNAME, await hashPassword(DEMO_PASSWORD));
+
+// Create shared presets
+const insertPreset = db.prepare(`
+  INSERT INTO presets (id, name, description, instructions, temperature, max_tokens, starter_questions, shared)
+  VALUES (?, ?, ?, ?, ?, ?, ?, 1)
+`);
+
+insertPreset.run(
+  uuidv4(),
+  'Spec Reviewer',
+  'Reviews specifications for gaps, conflicts and code requirements',
+  `You are a meticulous construction specification reviewer for the Muro platform.
+Identify missing information, conflicts between sections, and references to codes or standards.
+Cite spec section numbers when available and flag anything that needs an RFI.`,
+  0.2,
+  1024,
+  JSON.stringify([
+    'What are the key requirements in Division 26?',
+    'Are there conflicts between the mechanical and electrical specs?',
+    'Which submittals are required before installation?',
+  ])
+);
+insertPreset.run(
+  uuidv4(),
+  'Bid Leveler',
+  'Compares subcontractor bids line by line',
+  `You are an estimator leveling subcontractor bids for the Muro platform.
+Normalize scope across bids, call out exclusions and alternates, and present comparisons as markdown tables with totals.`,
+  0.2,
+  2048,
+  JSON.stringify([
+    'Compare the base bids and alternates from each bidder',
+    'Which exclusions differ between the bids?',
+    'Build a leveling sheet for the electrical bids',
+  ])
+);
+insertPreset.run(
+  uuidv4(),
+  'RFI Drafter',
+  'Drafts clear, well-referenced requests for information',
+  `You draft Requests for Information (RFIs) for construction projects on the Muro platform.
+Each RFI states the question, references the drawing or spec section, proposes a solution, and notes cost or schedule impact.`,
+  0.4,
+  1024,
+  JSON.stringify([
+    'Draft an RFI about a conflict between the drawings and the specs',
+    'Write an RFI asking for clarification on the door hardware schedule',
+  ])
+);
 
 // Create sample conversations
 const conv1Id = uuidv4();
@@ -14,13 +74,13 @@ const conv2Id = uuidv4();
 const conv3Id = uuidv4();
 
 const insertConv = db.prepare(`
-  INSERT INTO conversations (id, title, created_at, updated_at)
-  VALUES (?, ?, datetime('now', ?), datetime('now', ?))
+  INSERT INTO conversations (id, user_id, title, created_at, updated_at)
+  VALUES (?, ?, ?, datetime('now', ?), datetime('now', ?))
 `);
 
-insertConv.run(conv1Id, 'Project Specifications Review', '-2 hours', '-1 hour');
-insertConv.run(conv2Id, 'Bid Comparison Analysis', '-1 day', '-1 day');
-insertConv.run(conv3Id, null, '-3 days', '-3 days'); // Untitled conversation
+insertConv.run(conv1Id, userId, 'Project Specifications Review', '-2 hours', '-1 hour');
+insertConv.run(conv2Id, userId, 'Bid Comparison Analysis', '-1 day', '-1 day');
+insertConv.run(conv3Id, userId, null, '-3 days', '-3 days'); // Untitled conversation
 
 // Create sample messages
 const insertMsg = db.prepare(`
@@ -105,5 +165,17 @@ insertMsg.run(
   '-3 days'
 );
 
+// Chain each conversation's messages into a single branch
+db.exec(`
+  UPDATE messages SET parent_id = (
+    SELECT prev.id FROM messages prev
+    WHERE prev.conversation_id = messages.conversation_id
+      AND (prev.created_at < messages.created_at
+        OR (prev.created_at = messages.created_at AND prev.rowid < messages.rowid))
+    ORDER BY prev.created_at DESC, prev.rowid DESC LIMIT 1
+  )
+`);
+
 console.log('Database seeded successfully!');
-console.log(`Created ${3} conversations with sample messages`);
+console.log(`Created ${3} conversations with sample messages and ${3} presets`);
+console.log(`Sign in as "${DEMO_USERNAME}" with password "${DEMO_PASSWORD}"`);
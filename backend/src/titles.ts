@@ -0,0 +1,88 @@
+/**
+ * Conversation Titles
+ *
+ * Chats start out as "New Conversation". Once the first reply is in, the
+ * model is asked for a short title based on that exchange. A title the
+ * user set by hand (`title_is_custom`) is never replaced, including when
+ * the rename lands while a title is being generated.
+ */
+
+import { db } from './db.js';
+import { logger as baseLogger } from './logger.js';
+import { getAIResponse, type TokenUsage } from './openai-stream.js';
+
+const logger = baseLogger.child({ service: 'titles-service' });
+
+export const DEFAULT_TITLE = 'New Conversation';
+
+const MAX_TITLE_LENGTH = 60;
+
+const TITLE_INSTRUCTIONS = `You name conversations on a construction document platform.
+Reply with a title of at most 6 words that captures the topic of the exchange, e.g. "Emergency Generator Requirements" or "Electrical Bid Comparison".
+Use title case. No quotes, no trailing punctuation, nothing but the title.`;
+
+/** Conversations currently getting a title, so concurrent replies don't ask twice */
+const pending = new Set<string>();
+
+/**
+ * Whether a conversation still has its placeholder title.
+ */
+function needsTitle(conversationId: string): boolean {
+  const row = db.prepare('SELECT title, title_is_custom FROM conversations WHERE id = ?')
+    .get(conversationId) as { title: string | null; title_is_custom: number } | undefined;
+  return !!row && !row.title_is_custom && (!row.title || row.title === DEFAULT_TITLE);
+}
+
+/**
+ * Tidy a model reply into a one-line title.
+ */
+export function cleanTitle(raw: string): string {
+  let title = raw.split('\n').find((line) => line.trim())?.trim() ?? '';
+  title = title.replace(/^title:\s*/i, '').replace(/^["'`*]+|["'`*.!?:]+$/g, '').trim();
+  if (title.length > MAX_TITLE_LENGTH) {
+    const cut = title.lastIndexOf(' ', MAX_TITLE_LENGTH);
+    title = `${title.slice(0, cut > 0 ? cut : MAX_TITLE_LENGTH)}…`;
+  }
+  return title;
+}
+
+/**
+ * Generate and store a title if the conversation still has the placeholder.
+ * Failures are logged and leave the placeholder in place.
+ *
+ * @param onUsage - Receives the tokens spent, e.g. to count them against the
+ *   owner's daily budget
+ * @returns The stored title, or null if none was generated
+ */
+export async function generateTitleIfNeeded(
+  conversationId: string,
+  userMessage: string,
+  reply: string,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<string | null> {
+  if (pending.has(conversationId)) return null;
+  pending.add(conversationId);
+
+  try {
+    if (!needsTitle(conversationId)) return null;
+
+    const prompt = `User: ${userMessage}\n\nAssistant: ${reply.slice(0, 2000)}`;
+    const response = await getAIResponse(prompt, { instructions: TITLE_INSTRUCTIONS, maxTokens: 24, temperature: 0.3 });
+    onUsage?.(response.usage);
+
+    const title = cleanTitle(response.text);
+    if (!title) return null;
+
+    // Re-checked in the UPDATE so a rename made meanwhile wins
+    const result = db.prepare(
+      `UPDATE conversations SET title = ?
+       WHERE id = ? AND title_is_custom = 0 AND (title IS NULL OR title = ?)`
+    ).run(title, conversationId, DEFAULT_TITLE);
+    return result.changes > 0 ? title : null;
+  } catch (error) {
+    logger.warn('Title generation failed', { error: error instanceof Error ? error.message : error, conversationId });
+    return null;
+  } finally {
+    pending.delete(conversationId);
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Token Counting
+ *
+ * A fast local estimate used to budget the context window before a request
+ * is sent. English prose averages roughly four characters per token for
+ * OpenAI tokenizers; each chat message also costs a few tokens of framing.
+ * Provider-reported usage replaces these estimates whenever it is available.
+ */
+
+import type { ChatMessage } from './providers/index.js';
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function countMessageTokens(message: Pick<ChatMessage, 'content'>): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export function countMessagesTokens(messages: Array<Pick<ChatMessage, 'content'>>): number {
+  return messages.reduce((total, message) => total + countMessageTokens(message), 0);
+}
@@ -0,0 +1,434 @@
+/**
+ * Transcripts
+ *
+ * Export a conversation's current branch as Markdown, JSON or standalone
+ * HTML (styled for printing to PDF), and import the JSON format back as a
+ * new conversation. Imports get fresh ids; message order, timestamps and
+ * settings are kept.
+ */
+
+import { Marked, type Tokens } from 'marked';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+
+import { db } from './db.js';
+import type { MessageRow } from './message-tree.js';
+import { messageRepository } from './repositories/index.js';
+import type { ConversationSettings } from './conversation-settings.js';
+import { formatSourceLabel } from './prompt.js';
+import { parseCitations, type Citation } from './documents.js';
+import { DEFAULT_TITLE } from './titles.js';
+import {
+  citationSchema,
+  errorCodeSchema,
+  messageRoleSchema,
+  messageStatusSchema,
+  updateConversationRequestSchema,
+  type ErrorCode,
+  type MessageRole,
+  type MessageStatus,
+} from './contract.js';
+
+export const EXPORT_FORMATS = ['md', 'json', 'html'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Identifies the JSON export so unrelated files are rejected on import */
+const TRANSCRIPT_FORMAT = 'chat-transcript';
+const TRANSCRIPT_VERSION = 1;
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+const MAX_IMPORT_MESSAGES = 5000;
+
+export interface TranscriptMessage {
+  role: MessageRole;
+  content: string;
+  status: MessageStatus;
+  error_message: string | null;
+  error_code: ErrorCode | null;
+  citations: Citation[] | null;
+  created_at: string;
+}
+
+export interface Transcript {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: typeof TRANSCRIPT_VERSION;
+  exported_at: string;
+  conversation: ConversationSettings & {
+    title: string | null;
+    title_is_custom: boolean;
+    created_at: string;
+    updated_at: string;
+  };
+  /** The exported branch, oldest first */
+  messages: TranscriptMessage[];
+}
+
+interface ConversationRow extends ConversationSettings {
+  title: string | null;
+  title_is_custom: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Build the JSON transcript of a conversation's current branch.
+ * @returns The transcript, or undefined if the conversation doesn't exist
+ */
+export function buildTranscript(conversationId: string): Transcript | undefined {
+  const row = db.prepare(
+    `SELECT title, title_is_custom, instructions, model, temperature, max_tokens, created_at, updated_at
+     FROM conversations WHERE id = ?`
+  ).get(conversationId) as ConversationRow | undefined;
+  if (!row) return undefined;
+
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    exported_at: new Date().toISOString(),
+    conversation: { ...row, title_is_custom: row.title_is_custom === 1 },
+    messages: messageRepository.getActivePath(conversationId).map((message: MessageRow) => ({
+      role: message.role,
+      content: message.content,
+      status: message.status,
+      error_message: message.error_message,
+      error_code: message.error_code,
+      citations: parseCitations(message.citations) ?? null,
+      created_at: message.created_at,
+    })),
+  };
+}
+
+/**
+ * File name for an export, derived from the conversation title.
+ */
+export function exportFilename(transcript: Transcript, format: ExportFormat): string {
+  const slug = (transcript.conversation.title ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'conversation'}.${format}`;
+}
+
+/**
+ * Parse a stored timestamp. SQLite defaults are "YYYY-MM-DD HH:MM:SS" in
+ * UTC without a zone, which Date would otherwise read as local time.
+ */
+function parseTimestamp(value: string): Date {
+  return new Date(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(value) ? `${value.replace(' ', 'T')}Z` : value);
+}
+
+function formatTimestamp(value: string): string {
+  const date = parseTimestamp(value);
+  return Number.isNaN(date.getTime()) ? value : `${date.toISOString().replace('T', ' ').slice(0, 16)} UTC`;
+}
+
+function roleLabel(role: TranscriptMessage['role']): string {
+  return role === 'user' ? 'You' : 'Assistant';
+}
+
+/** Note shown after replies that did not finish normally */
+function statusNote(message: TranscriptMessage): string | null {
+  if (message.status === 'failed') return `Response failed${message.error_message ? `: ${message.error_message}` : ''}`;
+  if (message.status === 'cancelled') return 'Stopped';
+  if (message.status === 'sending') return 'Incomplete';
+  return null;
+}
+
+/**
+ * Render a transcript as Markdown. Assistant replies are already Markdown
+ * and are included verbatim.
+ */
+export function renderMarkdown(transcript: Transcript): string {
+  const lines = [
+    `# ${transcript.conversation.title || DEFAULT_TITLE}`,
+    '',
+    `_Exported ${formatTimestamp(transcript.exported_at)}_`,
+  ];
+
+  for (const message of transcript.messages) {
+    lines.push('', '---', '', `**${roleLabel(message.role)}** · ${formatTimestamp(message.created_at)}`, '');
+    lines.push(message.content || '_(no content)_');
+
+    const note = statusNote(message);
+    if (note) lines.push('', `_${note}_`);
+
+    if (message.citations?.length) {
+      lines.push('', 'Sources:');
+      for (const citation of message.citations) {
+        lines.push(`${citation.index}. ${formatSourceLabel(citation)}`);
+      }
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const SAFE_URL_PATTERN = /^(https?:|mailto:|#|\/)/i;
+
+/**
+ * Markdown renderer for exports. Raw HTML in a message is shown as text
+ * rather than passed through, and links with other protocols (e.g.
+ * `javascript:`) are reduced to their text.
+ */
+const markdown = new Marked({
+  gfm: true,
+  renderer: {
+    html(token: Tokens.HTML | Tokens.Tag) {
+      return escapeHtml(token.text);
+    },
+    link(token: Tokens.Link) {
+      const text = this.parser.parseInline(token.tokens);
+      if (!SAFE_URL_PATTERN.test(token.href)) return text;
+      return `<a href="${escapeHtml(token.href)}">${text}</a>`;
+    },
+    image(token: Tokens.Image) {
+      return escapeHtml(token.text);
+    },
+  },
+});
+
+const HTML_STYLES = `
+  body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #212121; max-width: 800px; margin: 32px auto; padding: 0 16px; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  .meta { color: #666; font-size: 12px; margin-bottom: 24px; }
+  .message { padding: 12px 16px; border-radius: 8px; margin-bottom: 12px; background: #f5f5f5; page-break-inside: avoid; }
+  .message.user { background: #e3f2fd; }
+  .role { font-size: 12px; color: #666; margin-bottom: 4px; }
+  .user .content { white-space: pre-wrap; }
+  .note { font-size: 12px; color: #c62828; }
+  .sources { font-size: 12px; color: #666; margin: 8px 0 0; padding-left: 20px; }
+  table { border-collapse: collapse; margin: 8px 0; }
+  th, td { border: 1px solid #e0e0e0; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #eeeeee; }
+  pre { background: #263238; color: #eceff1; padding: 12px; border-radius: 6px; overflow-x: auto; }
+  code { font-size: 13px; }
+  @page { margin: 16mm; }
+  @media print { body { margin: 0; max-width: none; } }
+`;
+
+/**
+ * Render a transcript as a standalone HTML document, ready to print to PDF.
+ */
+export function renderHtml(transcript: Transcript): string {
+  const title = escapeHtml(transcript.conversation.title || DEFAULT_TITLE);
+
+  const messages = transcript.messages.map((message) => {
+    const content = message.role === 'user'
+      ? escapeHtml(message.content)
+      : (markdown.parse(message.content) as string);
+    const note = statusNote(message);
+    const sources = message.citations?.length
+      ? `<ol class="sources">${message.citations
+        .map((citation) => `<li value="${citation.index}">${escapeHtml(formatSourceLabel(citation))}</li>`)
+        .join('')}</ol>`
+      : '';
+
+    return `<section class="message ${message.role}">
+  <div class="role">${roleLabel(message.role)} · ${escapeHtml(formatTimestamp(message.created_at))}</div>
+  <div class="content">${content}</div>${note ? `\n  <div class="note">${escapeHtml(note)}</div>` : ''}${sources}
+</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div class="meta">Exported ${escapeHtml(formatTimestamp(transcript.exported_at))}</div>
+${messages.join('\n')}
+</body>
+</html>
+`;
+}
+
+/** `['messages', 2, 'role']` as `messages[2].role` */
+function formatPath(path: (string | number)[]): string {
+  return path.map((key, i) => (typeof key === 'number' ? `[${key}]` : i > 0 ? `.${key}` : key)).join('');
+}
+
+const TYPE_DESCRIPTIONS: Record<string, string> = {
+  string: 'a string',
+  number: 'a number',
+  integer: 'an integer',
+  boolean: 'true or false',
+  array: 'a list',
+  object: 'an object',
+};
+
+/**
+ * Word the issues the schemas leave to zod like the contract's own
+ * messages, starting with the field name: `role must be one of: user,
+ * assistant`. The field's place in the upload is added after parsing.
+ */
+const transcriptErrorMap: z.ZodErrorMap = (issue, ctx) => {
+  // A message the schema set itself
+  if (ctx.defaultError !== z.defaultErrorMap(issue, { ...ctx, defaultError: '' }).message) {
+    return { message: ctx.defaultError };
+  }
+
+  const field = formatPath(issue.path.slice(-1));
+  switch (issue.code) {
+    case 'invalid_type':
+      return {
+        message: `${field} must be ${
+          TYPE_DESCRIPTIONS[issue.expected] ?? `one of: ${issue.expected.replace(/'/g, '').split(' | ').join(', ')}`
+        }`,
+      };
+    case 'invalid_enum_value':
+      return { message: `${field} must be one of: ${issue.options.join(', ')}` };
+    case 'custom':
+      return { message: `${field} must be ${issue.params?.expected ?? 'valid'}` };
+    default:
+      return { message: `${field}: ${ctx.defaultError}` };
+  }
+};
+
+/** An issue's message, prefixed with where its field sits, e.g. `conversation.` or `messages[2]` */
+function describeIssue(issue: z.ZodIssue): string {
+  const parent = formatPath(issue.path.slice(0, -1));
+  if (!parent) return issue.message;
+  return typeof issue.path.at(-1) === 'number' ? `${parent}${issue.message}` : `${parent}.${issue.message}`;
+}
+
+const timestampSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(parseTimestamp(value).getTime()), { params: { expected: 'a timestamp' } })
+  .transform((value) => parseTimestamp(value).toISOString());
+
+/** Roles, statuses and error codes as in the API, so they satisfy the `messages` constraints */
+const transcriptMessageSchema = z.object({
+  role: messageRoleSchema,
+  content: z.string(),
+  status: messageStatusSchema.nullish().transform((status) => status ?? 'sent'),
+  error_message: z.string().nullish().transform((message) => message ?? null),
+  // Older exports have no error codes
+  error_code: errorCodeSchema.nullish().transform((code) => code ?? null),
+  citations: z.array(citationSchema).nullish().transform((citations) => citations ?? null),
+  created_at: timestampSchema.optional(),
+});
+
+/** Settings follow the same rules as PATCH /api/chats/:id; unreadable timestamps are replaced on import */
+const transcriptSchema = z.object(
+  {
+    format: z.literal(TRANSCRIPT_FORMAT, { errorMap: () => ({ message: 'Not a conversation export' }) }),
+    version: z.literal(TRANSCRIPT_VERSION, {
+      errorMap: () => ({ message: `Unsupported export version (expected ${TRANSCRIPT_VERSION})` }),
+    }),
+    exported_at: timestampSchema.optional().catch(undefined),
+    conversation: updateConversationRequestSchema.extend({
+      title_is_custom: z.boolean().catch(false),
+      created_at: timestampSchema.optional().catch(undefined),
+    }),
+    messages: z
+      .array(transcriptMessageSchema)
+      .max(MAX_IMPORT_MESSAGES, `Too many messages (max ${MAX_IMPORT_MESSAGES})`),
+  },
+  { errorMap: () => ({ message: 'Not a conversation export' }) }
+);
+
+/**
+ * Validate an uploaded JSON transcript. Roles and statuses must satisfy the
+ * same constraints as the `messages` table, and settings the same rules as
+ * PATCH /api/chats/:id.
+ */
+export function validateTranscript(body: unknown): { transcript: Transcript } | { error: string } {
+  const result = transcriptSchema.safeParse(body, { errorMap: transcriptErrorMap });
+  if (!result.success) {
+    return { error: describeIssue(result.error.issues[0]) };
+  }
+
+  const { conversation, messages, exported_at } = result.data;
+  const now = new Date().toISOString();
+  return {
+    transcript: {
+      format: TRANSCRIPT_FORMAT,
+      version: TRANSCRIPT_VERSION,
+      exported_at: exported_at ?? now,
+      conversation: {
+        title: conversation.title || null,
+        title_is_custom: conversation.title_is_custom,
+        instructions: conversation.instructions ?? null,
+        model: conversation.model ?? null,
+        temperature: conversation.temperature ?? null,
+        max_tokens: conversation.max_tokens ?? null,
+        created_at: conversation.created_at ?? now,
+        updated_at: now,
+      },
+      messages: messages.map((message) => ({ ...message, created_at: message.created_at ?? now })),
+    },
+  };
+}
+
+/**
+ * Create a new conversation owned by `userId` from a validated transcript.
+ * Every message gets a new id and is chained to the one before it, so the
+ * transcript becomes the conversation's only branch.
+ *
+ * @returns The new conversation id
+ */
+export function importTranscript(transcript: Transcript, userId: string): string {
+  const conversationId = uuidv4();
+  const { conversation } = transcript;
+
+  const insertMessage = db.prepare(
+    `INSERT INTO messages
+       (id, conversation_id, parent_id, role, content, status, error_message, error_code, citations, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO conversations
+         (id, user_id, title, title_is_custom, instructions, model, temperature, max_tokens, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      conversationId,
+      userId,
+      conversation.title ?? DEFAULT_TITLE,
+      conversation.title && conversation.title_is_custom ? 1 : 0,
+      conversation.instructions,
+      conversation.model,
+      conversation.temperature,
+      conversation.max_tokens,
+      conversation.created_at,
+      conversation.updated_at
+    );
+
+    let parentId: string | null = null;
+    for (const message of transcript.messages) {
+      const id = uuidv4();
+      insertMessage.run(
+        id,
+        conversationId,
+        parentId,
+        message.role,
+        message.content,
+        // Nothing is generating an imported reply, so it can't still be sending
+        message.status === 'sending' ? 'cancelled' : message.status,
+        message.error_message,
+        message.error_code,
+        message.citations ? JSON.stringify(message.citations) : null,
+        message.created_at
+      );
+      parentId = id;
+    }
+
+    db.prepare('UPDATE conversations SET active_leaf_id = ? WHERE id = ?').run(parentId, conversationId);
+  })();
+
+  return conversationId;
+}
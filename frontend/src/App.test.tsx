@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import App from './App';
+import type { Conversation, Message } from './types';
+import { createSSEStream, jsonResponse, mockFetch } from './test/fetch';
+
+function conversation(id: string, title: string): Conversation {
+  return {
+    id,
+    title,
+    title_is_custom: true,
+    active_leaf_id: null,
+    preset_id: null,
+    starter_questions: [],
+    instructions: null,
+    model: null,
+    temperature: null,
+    max_tokens: null,
+    created_at: '2026-01-05 09:00:00',
+    updated_at: '2026-01-05 09:00:00',
+  };
+}
+
+function message(id: string, role: Message['role'], content: string, status: Message['status'] = 'sent'): Message {
+  return {
+    id,
+    conversation_id: 'c1',
+    parent_id: null,
+    role,
+    content,
+    status,
+    error_message: null,
+    error_code: null,
+    created_at: '2026-01-05 09:00:00',
+  };
+}
+
+const page = <T,>(items: T[]) => ({ items, nextCursor: null });
+
+describe('App', () => {
+  // What GET /messages returns for the first chat; tests move it along with the stream
+  let c1Messages: Message[];
+
+  beforeEach(() => {
+    c1Messages = [message('u1', 'user', 'What is the fire rating?'), message('a1', 'assistant', 'Two hours.')];
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  function mockApi(routes: Record<string, unknown> = {}) {
+    return mockFetch({
+      'GET /api/chats': page([conversation('c1', 'Fire ratings'), conversation('c2', 'Parking counts')]),
+      'GET /api/chats/c1': conversation('c1', 'Fire ratings'),
+      'GET /api/chats/c2': conversation('c2', 'Parking counts'),
+      'GET /api/chats/c1/messages': () => jsonResponse(page(c1Messages)),
+      'GET /api/chats/c2/messages': page([message('u9', 'user', 'How many stalls?')]),
+      'GET /api/presets': [],
+      ...routes,
+    });
+  }
+
+  function renderApp() {
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    return render(
+      <QueryClientProvider client={queryClient}>
+        <App />
+      </QueryClientProvider>
+    );
+  }
+
+  /** Open the first chat and send a question, returning once the stream has started */
+  async function sendQuestion(stream: ReturnType<typeof createSSEStream>) {
+    renderApp();
+    await userEvent.click(await screen.findByText('Fire ratings'));
+    await screen.findByText('Two hours.');
+
+    await userEvent.type(screen.getByPlaceholderText('Type your message...'), 'And the stairs?{Enter}');
+
+    c1Messages = [...c1Messages, message('u2', 'user', 'And the stairs?'), message('a2', 'assistant', '', 'sending')];
+    stream.send('start', { messageId: 'a2' });
+    await screen.findByText('And the stairs?');
+  }
+
+  test('streams a reply into the conversation', async () => {
+    const stream = createSSEStream();
+    const fetchMock = mockApi({ 'POST /api/chats/c1/messages': stream.respond });
+
+    await sendQuestion(stream);
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/chats/c1/messages',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ content: 'And the stairs?' }) })
+    );
+
+    stream.send('chunk', { content: 'Stairs are ' });
+    stream.send('chunk', { content: 'rated **one hour**.' });
+    expect(await screen.findByText('one hour')).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Stop' })).toBeTruthy();
+
+    c1Messages[3] = message('a2', 'assistant', 'Stairs are rated one hour.');
+    stream.send('done', { messageId: 'a2', content: 'Stairs are rated one hour.' });
+
+    expect(await screen.findByText('Stairs are rated one hour.')).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Send' })).toBeTruthy();
+  });
+
+  test('says it is reconnecting while the server retries, until text arrives', async () => {
+    const stream = createSSEStream();
+    mockApi({ 'POST /api/chats/c1/messages': stream.respond });
+
+    await sendQuestion(stream);
+    expect(screen.queryByText('Reconnecting to AI…')).toBeNull();
+
+    stream.send('status', { state: 'retrying', attempt: 2 });
+    expect(await screen.findByText('Reconnecting to AI…')).toBeTruthy();
+
+    stream.send('chunk', { content: 'Stairs are rated one hour.' });
+    expect(await screen.findByText('Stairs are rated one hour.')).toBeTruthy();
+    expect(screen.queryByText('Reconnecting to AI…')).toBeNull();
+  });
+
+  test('shows a stream error and retries by regenerating the failed reply', async () => {
+    const stream = createSSEStream();
+    const retryStream = createSSEStream();
+    const fetchMock = mockApi({
+      'POST /api/chats/c1/messages': stream.respond,
+      'POST /api/chats/c1/messages/a2/regenerate': retryStream.respond,
+    });
+
+    await sendQuestion(stream);
+    c1Messages[3] = { ...message('a2', 'assistant', '', 'failed'), error_message: 'AI service is busy.' };
+    stream.send('error', { error: 'AI service is busy.' });
+
+    await userEvent.click(await screen.findByRole('button', { name: 'Retry' }));
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/chats/c1/messages/a2/regenerate',
+      expect.objectContaining({ method: 'POST' })
+    );
+
+    c1Messages[3] = message('a2', 'assistant', 'Stairs are rated one hour.');
+    retryStream.send('start', { messageId: 'a2' });
+    retryStream.send('done', { messageId: 'a2', content: 'Stairs are rated one hour.' });
+
+    expect(await screen.findByText('Stairs are rated one hour.')).toBeTruthy();
+    await waitFor(() => expect(screen.queryByText('AI service is busy.')).toBeNull());
+  });
+
+  test('follows changes made in another tab, including a reply it is streaming', async () => {
+    const events = createSSEStream();
+    mockApi({ 'GET /api/events': events.respond });
+
+    renderApp();
+    await userEvent.click(await screen.findByText('Fire ratings'));
+    await screen.findByText('Two hours.');
+
+    c1Messages = [...c1Messages, message('u2', 'user', 'And the stairs?'), message('a2', 'assistant', '', 'sending')];
+    events.send('messages', { type: 'messages', conversationId: 'c1' });
+    expect(await screen.findByText('And the stairs?')).toBeTruthy();
+
+    const chunk = (content: string, offset: number) =>
+      events.send('reply_chunk', { type: 'reply_chunk', conversationId: 'c1', messageId: 'a2', content, offset });
+    chunk('Stairs are ', 0);
+    chunk('rated one hour.', 11);
+    expect(await screen.findByText('Stairs are rated one hour.')).toBeTruthy();
+    // Watching doesn't tie up this tab's input
+    expect(screen.getByRole('button', { name: 'Send' })).toBeTruthy();
+
+    events.send('conversation', { type: 'conversation', conversation: conversation('c1', 'Stair ratings') });
+    expect(await screen.findByRole('heading', { name: 'Stair ratings' })).toBeTruthy();
+  });
+
+  test('switching conversations closes the open stream', async () => {
+    const stream = createSSEStream();
+    mockApi({ 'POST /api/chats/c1/messages': stream.respond });
+
+    await sendQuestion(stream);
+    stream.send('chunk', { content: 'Partial answer' });
+    expect(await screen.findByText('Partial answer')).toBeTruthy();
+
+    await userEvent.click(screen.getByText('Parking counts'));
+
+    expect(await screen.findByText('How many stalls?')).toBeTruthy();
+    expect(stream.aborted).toBe(true);
+    expect(screen.queryByText('Partial answer')).toBeNull();
+    expect(screen.queryByRole('button', { name: 'Stop' })).toBeNull();
+  });
+});
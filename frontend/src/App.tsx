@@ -1,38 +1,168 @@
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useState, useEffect, useRef } from 'react';
 import { apiFetch } from './api/client';
-import type { Conversation, Message } from './types';
+import type { Conversation, Message, Page } from './types';
 import { MessageInput } from './components/MessageInput';
+import { MessageBubble } from './components/MessageBubble';
+import { MessageList } from './components/MessageList';
+import { SettingsDrawer } from './components/SettingsDrawer';
+import { DocumentsDrawer } from './components/DocumentsDrawer';
+import { NewChatButton } from './components/NewChatButton';
+import { SearchPanel } from './components/SearchPanel';
+import { TranscriptActions } from './components/TranscriptActions';
+import { ConversationTitle } from './components/ConversationTitle';
+import { Markdown } from './components/Markdown';
+import { useMessageStream } from './hooks/useMessageStream';
+import { useAuth } from './hooks/useAuth';
+import { useChangeEvents } from './hooks/useChangeEvents';
+
+const drawerButtonStyle = (isOpen: boolean): React.CSSProperties => ({
+  marginBottom: 16,
+  padding: '4px 12px',
+  background: isOpen ? '#e3f2fd' : '#fff',
+  color: '#2196f3',
+  border: '1px solid #2196f3',
+  borderRadius: 8,
+  fontSize: 13,
+  cursor: 'pointer',
+});
 
 function App() {
   const queryClient = useQueryClient();
+  const auth = useAuth();
   const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
   const [streamingMessage, setStreamingMessage] = useState<string>('');
   const [isCreatingChat, setIsCreatingChat] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [openDrawer, setOpenDrawer] = useState<'settings' | 'documents' | null>(null);
+  // Search result to scroll to once its conversation has loaded
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const activatedForFocusRef = useRef<string | null>(null);
 
-  const { data: conversations, isLoading, error } = useQuery({
+  const {
+    data: conversationPages,
+    isLoading,
+    error,
+    hasNextPage: hasMoreConversations,
+    isFetchingNextPage: isLoadingMoreConversations,
+    fetchNextPage: loadMoreConversations,
+  } = useInfiniteQuery({
     queryKey: ['conversations'],
-    queryFn: () => apiFetch<Conversation[]>('/chats'),
+    queryFn: ({ pageParam }) =>
+      apiFetch<Page<Conversation>>(pageParam ? `/chats?before=${pageParam}` : '/chats'),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
+  const conversations = conversationPages?.pages.flatMap((page) => page.items);
 
-  const { data: messages, isLoading: isLoadingMessages, error: messagesError, refetch: refetchMessages } = useQuery({
+  // Fetched on its own, since the selected chat may not be on a loaded page
+  const { data: selectedConversation } = useQuery({
+    queryKey: ['conversations', selectedConversationId],
+    queryFn: () => apiFetch<Conversation>(`/chats/${selectedConversationId}`),
+    enabled: !!selectedConversationId,
+  });
+
+  // Pages run newest to oldest; each page is oldest first
+  const {
+    data: messagePages,
+    isLoading: isLoadingMessages,
+    error: messagesError,
+    refetch: refetchMessages,
+    hasNextPage: hasOlderMessages,
+    isFetchingNextPage: isLoadingOlderMessages,
+    fetchNextPage: loadOlderMessages,
+  } = useInfiniteQuery({
     queryKey: ['messages', selectedConversationId],
-    queryFn: () => apiFetch<Message[]>(`/chats/${selectedConversationId}/messages`),
+    queryFn: ({ pageParam }) =>
+      apiFetch<Page<Message>>(
+        `/chats/${selectedConversationId}/messages${pageParam ? `?before=${pageParam}` : ''}`
+      ),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!selectedConversationId,
   });
+  const messages = messagePages?.pages.slice().reverse().flatMap((page) => page.items);
+
+  // Follow changes made in other tabs, including replies they are streaming
+  useChangeEvents({
+    onConversationDeleted: (conversationId) =>
+      setSelectedConversationId((current) => (current === conversationId ? null : current)),
+  });
+
+  const messageStream = useMessageStream(selectedConversationId, {
+    // Show the saved user turn and the assistant slot being streamed into
+    onStart: () => refetchMessages(),
+    onChunk: (chunk) => setStreamingMessage((prev) => prev + chunk),
+    onSettled: () => {
+      setStreamingMessage('');
+      refetchMessages();
+    },
+  });
+
+  const regenerateMessage = (messageId: string) => {
+    setStreamingMessage('');
+    messageStream.regenerate(messageId);
+  };
+
+  const editMessage = (messageId: string, content: string) => {
+    setStreamingMessage('');
+    messageStream.edit(messageId, content);
+  };
+
+  const switchBranch = async (messageId: string) => {
+    try {
+      await apiFetch(`/chats/${selectedConversationId}/messages/${messageId}/activate`, {
+        method: 'POST',
+      });
+      await refetchMessages();
+    } catch (error) {
+      console.error('Error switching branch:', error);
+    }
+  };
 
-  // Auto-scroll to bottom when messages change
+  // Drop partial text from a stream the previous conversation was showing
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, streamingMessage]);
+    setStreamingMessage('');
+  }, [selectedConversationId]);
 
-  const createNewChat = async () => {
+  // Find a search result: page back through older messages, then try its
+  // branch if it isn't showing. MessageList scrolls to it once loaded.
+  useEffect(() => {
+    if (!focusMessageId || !messages) return;
+
+    if (messages.some((m) => m.id === focusMessageId)) return;
+    if (hasOlderMessages) {
+      if (!isLoadingOlderMessages) loadOlderMessages();
+      return;
+    }
+    if (activatedForFocusRef.current === focusMessageId) {
+      setFocusMessageId(null);
+      return;
+    }
+    activatedForFocusRef.current = focusMessageId;
+    apiFetch(`/chats/${selectedConversationId}/messages/${focusMessageId}/activate`, { method: 'POST' })
+      .then(() => refetchMessages())
+      .catch(() => setFocusMessageId(null));
+  }, [messagePages, focusMessageId, hasOlderMessages, isLoadingOlderMessages]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  const openSearchResult = (conversationId: string, messageId?: string) => {
+    activatedForFocusRef.current = null;
+    setFocusMessageId(messageId ?? null);
+    setSelectedConversationId(conversationId);
+  };
+
+  const createNewChat = async (presetId?: string) => {
     setIsCreatingChat(true);
     try {
       const newChat = await apiFetch<{ id: string }>('/chats', {
         method: 'POST',
-        body: JSON.stringify({ title: 'New Conversation' }),
+        body: JSON.stringify({ presetId }),
       });
       // Invalidate and refetch conversations list
       await queryClient.invalidateQueries({ queryKey: ['conversations'] });
@@ -45,6 +175,11 @@ function App() {
     }
   };
 
+  const openImportedChat = async (conversationId: string) => {
+    await queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    setSelectedConversationId(conversationId);
+  };
+
   const getMessagesByConversationId = (conversationId: string) => {
     setSelectedConversationId(conversationId);
   };
@@ -69,100 +204,160 @@ function App() {
       >
         <h2 style={{ marginBottom: 16, fontSize: 18 }}>Conversations</h2>
 
-        <button
-          style={{
-            marginBottom: 16,
-            padding: '8px 16px',
-            background: isCreatingChat ? '#e0e0e0' : '#2196f3',
-            color: isCreatingChat ? '#999' : '#fff',
-            border: 'none',
-            borderRadius: 8,
-            fontSize: 14,
-            fontWeight: 500,
-            cursor: isCreatingChat ? 'not-allowed' : 'pointer',
-            width: '100%',
-          }}
-          onClick={createNewChat}
-          disabled={isCreatingChat}
-        >
-          {isCreatingChat ? 'Creating...' : '+ New Chat'}
-        </button>
-
-        {isLoading ? (
-          <p style={{ color: '#666', fontSize: 14 }}>Loading...</p>
-        ) : error ? (
-          <p style={{ color: '#d32f2f', fontSize: 14 }}>Error loading conversations</p>
-        ) : conversations && conversations.length > 0 ? (
-          <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
-            {conversations.map((conversation: Conversation) => (
-              <div
-                key={conversation.id}
-                onClick={() => getMessagesByConversationId(conversation.id)}
-                style={{
-                  padding: '12px',
-                  borderRadius: '8px',
-                  cursor: 'pointer',
-                  background: selectedConversationId === conversation.id ? '#e3f2fd' : '#f5f5f5',
-                  border: selectedConversationId === conversation.id ? '1px solid #2196f3' : '1px solid transparent',
-                  transition: 'all 0.2s',
-                }}
-                onMouseEnter={(e) => {
-                  if (selectedConversationId !== conversation.id) {
-                    e.currentTarget.style.background = '#eeeeee';
-                  }
-                }}
-                onMouseLeave={(e) => {
-                  if (selectedConversationId !== conversation.id) {
-                    e.currentTarget.style.background = '#f5f5f5';
-                  }
-                }}
-              >
-                <p style={{ margin: 0, fontSize: 14, fontWeight: 500 }}>
-                  {conversation.title || 'Untitled Conversation'}
-                </p>
-                <p style={{ margin: '4px 0 0 0', fontSize: 12, color: '#666' }}>
-                  {new Date(conversation.updated_at).toLocaleDateString()}
-                </p>
-              </div>
-            ))}
+        <NewChatButton isCreating={isCreatingChat} onCreate={createNewChat} />
+
+        <TranscriptActions conversationId={selectedConversationId} onImported={openImportedChat} />
+
+        <SearchPanel onOpen={openSearchResult}>
+          {isLoading ? (
+            <p style={{ color: '#666', fontSize: 14 }}>Loading...</p>
+          ) : error ? (
+            <p style={{ color: '#d32f2f', fontSize: 14 }}>Error loading conversations</p>
+          ) : conversations && conversations.length > 0 ? (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 8, overflowY: 'auto', minHeight: 0 }}>
+              {conversations.map((conversation: Conversation) => (
+                <div
+                  key={conversation.id}
+                  onClick={() => getMessagesByConversationId(conversation.id)}
+                  style={{
+                    padding: '12px',
+                    borderRadius: '8px',
+                    cursor: 'pointer',
+                    background: selectedConversationId === conversation.id ? '#e3f2fd' : '#f5f5f5',
+                    border: selectedConversationId === conversation.id ? '1px solid #2196f3' : '1px solid transparent',
+                    transition: 'all 0.2s',
+                  }}
+                  onMouseEnter={(e) => {
+                    if (selectedConversationId !== conversation.id) {
+                      e.currentTarget.style.background = '#eeeeee';
+                    }
+                  }}
+                  onMouseLeave={(e) => {
+                    if (selectedConversationId !== conversation.id) {
+                      e.currentTarget.style.background = '#f5f5f5';
+                    }
+                  }}
+                >
+                  <p style={{ margin: 0, fontSize: 14, fontWeight: 500 }}>
+                    {conversation.title || 'Untitled Conversation'}
+                  </p>
+                  <p style={{ margin: '4px 0 0 0', fontSize: 12, color: '#666' }}>
+                    {new Date(conversation.updated_at).toLocaleDateString()}
+                  </p>
+                </div>
+              ))}
+              {hasMoreConversations && (
+                <button
+                  onClick={() => loadMoreConversations()}
+                  disabled={isLoadingMoreConversations}
+                  style={{
+                    padding: 8,
+                    background: 'none',
+                    border: 'none',
+                    color: isLoadingMoreConversations ? '#999' : '#2196f3',
+                    fontSize: 13,
+                    cursor: isLoadingMoreConversations ? 'default' : 'pointer',
+                  }}
+                >
+                  {isLoadingMoreConversations ? 'Loading...' : 'Load more'}
+                </button>
+              )}
+            </div>
+          ) : (
+            <p style={{ color: '#666', fontSize: 14 }}>No conversations</p>
+          )}
+        </SearchPanel>
+
+        {auth && (
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginTop: 'auto',
+              paddingTop: 12,
+              borderTop: '1px solid #e0e0e0',
+              fontSize: 13,
+              color: '#666',
+            }}
+          >
+            <span>
+              Signed in as <strong>{auth.user.username}</strong>
+            </span>
+            <button
+              onClick={auth.logout}
+              style={{ padding: 0, background: 'none', border: 'none', color: '#2196f3', fontSize: 13, cursor: 'pointer' }}
+            >
+              Log out
+            </button>
           </div>
-        ) : (
-          <p style={{ color: '#666', fontSize: 14 }}>No conversations</p>
         )}
       </aside>
 
       <main style={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
         {selectedConversationId ? (
           <>
-            <div style={{ flex: 1, padding: 16, overflowY: 'auto' }}>
-              <h3 style={{ marginTop: 0 }}>Messages</h3>
-              {isLoadingMessages ? (
-                <p style={{ color: '#666' }}>Loading messages...</p>
-              ) : messagesError ? (
-                <p style={{ color: '#d32f2f' }}>Error loading messages</p>
-              ) : messages && messages.length > 0 ? (
-                <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
-                  {messages.map((message: Message) => (
-                    <div
-                      key={message.id}
-                      style={{
-                        padding: '12px 16px',
-                        borderRadius: '8px',
-                        background: message.role === 'user' ? '#e3f2fd' : '#f5f5f5',
-                        alignSelf: message.role === 'user' ? 'flex-end' : 'flex-start',
-                        maxWidth: '70%',
-                      }}
-                    >
-                      <p style={{ margin: 0, fontSize: 12, color: '#666', marginBottom: 4 }}>
-                        {message.role === 'user' ? 'You' : 'Assistant'}
-                      </p>
-                      <p style={{ margin: 0, fontSize: 14 }}>{message.content}</p>
-                      <p style={{ margin: '4px 0 0 0', fontSize: 11, color: '#999' }}>
-                        {new Date(message.created_at).toLocaleString()}
-                      </p>
-                    </div>
-                  ))}
-                  {streamingMessage && (
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '16px 16px 0' }}>
+              {selectedConversation ? (
+                <ConversationTitle
+                  conversation={selectedConversation}
+                  onRenamed={() => queryClient.invalidateQueries({ queryKey: ['conversations'] })}
+                />
+              ) : (
+                <h3 style={{ marginTop: 0 }}>Messages</h3>
+              )}
+              <div style={{ display: 'flex', gap: 8 }}>
+                <button
+                  onClick={() => setOpenDrawer((open) => (open === 'documents' ? null : 'documents'))}
+                  style={drawerButtonStyle(openDrawer === 'documents')}
+                >
+                  📎 Documents
+                </button>
+                <button
+                  onClick={() => setOpenDrawer((open) => (open === 'settings' ? null : 'settings'))}
+                  style={drawerButtonStyle(openDrawer === 'settings')}
+                >
+                  ⚙ Settings
+                </button>
+              </div>
+            </div>
+            {messages && messages.length > 0 ? (
+              <MessageList
+                key={selectedConversationId}
+                messages={messages}
+                hasOlder={hasOlderMessages}
+                isLoadingOlder={isLoadingOlderMessages}
+                onLoadOlder={() => loadOlderMessages()}
+                scrollToMessageId={focusMessageId}
+                onScrolledToMessage={(messageId) => {
+                  setHighlightedMessageId(messageId);
+                  setFocusMessageId(null);
+                }}
+                renderMessage={(message) => (
+                  <MessageBubble
+                    message={message}
+                    // A reply still sending that this tab didn't start is streaming elsewhere
+                    streamingContent={
+                      message.id === messageStream.streamingMessageId
+                        ? streamingMessage
+                        : message.status === 'sending'
+                          ? message.content
+                          : null
+                    }
+                    statusText={
+                      message.id === messageStream.streamingMessageId && messageStream.retryAttempt
+                        ? 'Reconnecting to AI…'
+                        : null
+                    }
+                    isBusy={messageStream.isStreaming}
+                    isHighlighted={message.id === highlightedMessageId}
+                    onRegenerate={regenerateMessage}
+                    onEdit={editMessage}
+                    onSwitchBranch={switchBranch}
+                  />
+                )}
+                footer={
+                  streamingMessage && !messages.some((m) => m.id === messageStream.streamingMessageId) && (
                     <div
                       style={{
                         padding: '12px 16px',
@@ -176,22 +371,64 @@ function App() {
                       <p style={{ margin: 0, fontSize: 12, color: '#666', marginBottom: 4 }}>
                         Assistant <span style={{ animation: 'pulse 1.5s ease-in-out infinite' }}>●</span>
                       </p>
-                      <p style={{ margin: 0, fontSize: 14 }}>{streamingMessage}</p>
+                      <Markdown content={streamingMessage} isStreaming />
                     </div>
-                  )}
-                  <div ref={messagesEndRef} />
-                </div>
-              ) : (
-                <p style={{ color: '#666' }}>No messages in this conversation</p>
-              )}
-            </div>
+                  )
+                }
+              />
+            ) : (
+              <div style={{ flex: 1, padding: 16, overflowY: 'auto' }}>
+                {isLoadingMessages ? (
+                  <p style={{ color: '#666' }}>Loading messages...</p>
+                ) : messagesError ? (
+                  <p style={{ color: '#d32f2f' }}>Error loading messages</p>
+                ) : selectedConversation && selectedConversation.starter_questions.length > 0 ? (
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: 8, alignItems: 'flex-start' }}>
+                    <p style={{ color: '#666', marginBottom: 4 }}>Try one of these to get started:</p>
+                    {selectedConversation.starter_questions.map((question) => (
+                      <button
+                        key={question}
+                        onClick={() => {
+                          setStreamingMessage('');
+                          messageStream.send(question);
+                        }}
+                        disabled={messageStream.isStreaming}
+                        style={{
+                          padding: '8px 12px',
+                          background: '#fff',
+                          border: '1px solid #e0e0e0',
+                          borderRadius: 8,
+                          fontSize: 14,
+                          textAlign: 'left',
+                          cursor: messageStream.isStreaming ? 'not-allowed' : 'pointer',
+                        }}
+                      >
+                        {question}
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p style={{ color: '#666' }}>No messages in this conversation</p>
+                )}
+              </div>
+            )}
             <MessageInput
-              conversationId={selectedConversationId}
-              onChunk={(chunk) => setStreamingMessage((prev) => prev + chunk)}
-              onMessageSent={() => {
+              isSubmitting={messageStream.isStreaming}
+              error={messageStream.error}
+              errorCode={messageStream.errorCode}
+              canRetry={messageStream.canRetry}
+              retryAt={messageStream.retryAt}
+              unsentMessage={messageStream.unsentMessage}
+              onSend={(content) => {
+                setStreamingMessage('');
+                messageStream.send(content);
+              }}
+              onRetry={() => {
                 setStreamingMessage('');
-                refetchMessages();
+                messageStream.retry();
               }}
+              onStop={messageStream.stop}
+              onNewChat={() => createNewChat()}
             />
           </>
         ) : (
@@ -208,6 +445,17 @@ function App() {
           </div>
         )}
       </main>
+
+      {openDrawer === 'settings' && selectedConversation && (
+        <SettingsDrawer
+          conversation={selectedConversation}
+          onClose={() => setOpenDrawer(null)}
+          onSaved={() => queryClient.invalidateQueries({ queryKey: ['conversations'] })}
+        />
+      )}
+      {openDrawer === 'documents' && selectedConversationId && (
+        <DocumentsDrawer conversationId={selectedConversationId} onClose={() => setOpenDrawer(null)} />
+      )}
     </div>
   );
 }
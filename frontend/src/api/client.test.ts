@@ -0,0 +1,80 @@
+import { describe, expect, test, vi } from 'vitest';
+import { subscribeToSSE } from './client';
+import { jsonResponse, mockFetch } from '../test/fetch';
+import type { StreamStart } from '../types';
+
+const encoder = new TextEncoder();
+
+/** A response whose body arrives in exactly these reads */
+function streamOf(reads: string[]): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const read of reads) controller.enqueue(encoder.encode(read));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function subscribe(options: Parameters<typeof subscribeToSSE>[3] = {}) {
+  const handlers = {
+    onStart: vi.fn(),
+    onChunk: vi.fn(),
+    onDone: vi.fn(),
+    onError: vi.fn(),
+  };
+  subscribeToSSE('/chats/c1/messages', { method: 'POST', body: '{"content":"Hi"}' }, handlers, options);
+  return handlers;
+}
+
+describe('subscribeToSSE', () => {
+  test('delivers events whose lines arrive in separate reads', async () => {
+    mockFetch({
+      'POST /api/chats/c1/messages': () =>
+        streamOf([
+          'id: 1\nevent: start\n',
+          'data: {"messageId":"m1"}\n\nid: 2\nevent: chu',
+          'nk\ndata: {"content":"Hel',
+          'lo"}\n\nid: 3\nevent: done\ndata: {"content":"Hello"}\n',
+          '\n',
+        ]),
+    });
+
+    const handlers = subscribe();
+
+    await vi.waitFor(() => expect(handlers.onDone).toHaveBeenCalledWith({ content: 'Hello' }));
+    expect(handlers.onStart).toHaveBeenCalledWith({ messageId: 'm1' });
+    expect(handlers.onChunk).toHaveBeenCalledExactlyOnceWith({ content: 'Hello' });
+    expect(handlers.onError).not.toHaveBeenCalled();
+  });
+
+  test('resumes a dropped stream from the last event id without repeating events', async () => {
+    const fetchMock = mockFetch({
+      'POST /api/chats/c1/messages': () =>
+        streamOf(['retry: 1\n\nid: 1\nevent: start\ndata: {"messageId":"m1"}\n\nid: 2\nevent: chunk\ndata: {"content":"a"}\n\n']),
+      'GET /api/chats/c1/messages/m1/stream': () =>
+        streamOf([
+          'id: 2\nevent: chunk\ndata: {"content":"a"}\n\n',
+          'id: 3\nevent: chunk\ndata: {"content":"b"}\n\nid: 4\nevent: done\ndata: {"content":"ab"}\n\n',
+        ]),
+    });
+
+    const handlers = subscribe({ resumeEndpoint: (start: StreamStart) => `/chats/c1/messages/${start.messageId}/stream` });
+
+    await vi.waitFor(() => expect(handlers.onDone).toHaveBeenCalledWith({ content: 'ab' }));
+    expect(handlers.onChunk.mock.calls).toEqual([[{ content: 'a' }], [{ content: 'b' }]]);
+    expect(fetchMock.mock.calls[1][1]?.headers).toMatchObject({ 'Last-Event-ID': '2' });
+  });
+
+  test('reports an error response without retrying', async () => {
+    const fetchMock = mockFetch({
+      'POST /api/chats/c1/messages': () => jsonResponse({ error: 'Message too long (max 10000 characters)' }, 400),
+    });
+
+    const handlers = subscribe({ resumeEndpoint: () => '/unused' });
+
+    await vi.waitFor(() => expect(handlers.onError).toHaveBeenCalled());
+    expect(handlers.onError.mock.calls[0][0].message).toBe('Message too long (max 10000 characters)');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,40 +1,117 @@
+import { authHeaders, expireSession } from './session';
+import { createSSEParser } from './sse';
+import type {
+  ChangeEvent,
+  ErrorCode,
+  StreamCancelled,
+  StreamChunk,
+  StreamDone,
+  StreamError,
+  StreamStart,
+  StreamStatus,
+} from '../types';
+
 const API_BASE = '/api';
 
 export class ApiError extends Error {
   constructor(
     public status: number,
-    message: string
+    message: string,
+    /** Machine-readable reason, e.g. `rate_limited` */
+    public code?: string,
+    /** Seconds to wait before trying again, from `Retry-After` */
+    public retryAfter?: number
   ) {
     super(message);
     this.name = 'ApiError';
   }
 }
 
+/**
+ * A reply that failed after streaming started, from an SSE `error` event.
+ */
+export class ReplyError extends Error {
+  code: ErrorCode;
+  /** Seconds the AI service asked to wait, if it said */
+  retryAfter?: number;
+
+  constructor({ error, code, retryAfter }: StreamError) {
+    super(error);
+    this.name = 'ReplyError';
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Build the error for a failed response. A 401 means the session has
+ * expired or was revoked.
+ */
+async function toApiError(response: Response): Promise<ApiError> {
+  if (response.status === 401) expireSession();
+  const error = await response
+    .json()
+    .catch(() => ({ error: 'Unknown error' }));
+  const retryAfter = parseInt(response.headers.get('Retry-After') ?? '', 10);
+  return new ApiError(
+    response.status,
+    error.error || 'Request failed',
+    error.code,
+    Number.isFinite(retryAfter) ? retryAfter : undefined
+  );
+}
+
 /**
  * Basic fetch wrapper with error handling
+ *
+ * Sends the session token. FormData bodies are sent as-is so the browser
+ * sets the multipart boundary.
  */
 export async function apiFetch<T>(
   endpoint: string,
   options: RequestInit = {}
 ): Promise<T> {
+  const isFormData = options.body instanceof FormData;
   const response = await fetch(`${API_BASE}${endpoint}`, {
     ...options,
     headers: {
-      'Content-Type': 'application/json',
+      ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
+      ...authHeaders(),
       ...options.headers,
     },
   });
 
   if (!response.ok) {
-    const error = await response
-      .json()
-      .catch(() => ({ error: 'Unknown error' }));
-    throw new ApiError(response.status, error.error || 'Request failed');
+    throw await toApiError(response);
   }
 
+  if (response.status === 204) {
+    return undefined as T;
+  }
   return response.json();
 }
 
+/**
+ * Download a file the API serves as an attachment. Plain links can't send
+ * the session token, so the file is fetched and saved from a blob URL.
+ */
+export async function downloadFile(endpoint: string): Promise<void> {
+  const response = await fetch(`${API_BASE}${endpoint}`, { headers: authHeaders() });
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? 'download';
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoked on the next tick, once the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
 /**
  * Helper for SSE (Server-Sent Events) connections
  *
@@ -46,74 +123,203 @@ export async function apiFetch<T>(
  *     onChunk: (data) => console.log('Chunk:', data),
  *     onDone: (data) => console.log('Done:', data),
  *     onError: (error) => console.error('Error:', error)
+ *   }, {
+ *     resumeEndpoint: (start) => `/chats/123/messages/${start.messageId}/stream`
  *   });
  *
  *   // Later: cleanup() to close connection
+ *
+ * When `resumeEndpoint` is given and the connection drops before a `done`,
+ * `cancelled` or `error` event, the helper reconnects with `Last-Event-ID`
+ * so the server replays only the events this client has not seen yet.
  */
 export function subscribeToSSE(
   endpoint: string,
   fetchOptions: RequestInit,
   handlers: {
-    onChunk?: (data: unknown) => void;
-    onDone?: (data: unknown) => void;
+    onStart?: (data: StreamStart) => void;
+    /** The server is retrying the AI service before the first chunk */
+    onStatus?: (data: StreamStatus) => void;
+    onChunk?: (data: StreamChunk) => void;
+    onDone?: (data: StreamDone) => void;
+    onCancel?: (data: StreamCancelled) => void;
     onError?: (error: Error) => void;
-  }
+  },
+  options: {
+    /** Builds the reconnect endpoint from the `start` event payload */
+    resumeEndpoint?: (start: StreamStart) => string;
+    /** Consecutive failed reconnects before giving up */
+    maxRetries?: number;
+  } = {}
 ): () => void {
   const controller = new AbortController();
+  const { resumeEndpoint, maxRetries = 5 } = options;
+
+  let lastEventId = 0;
+  let startData: StreamStart | null = null;
+  let finished = false;
+  let retryDelay = 1000;
+  let attempt = 0;
+
+  const connect = async (url: string, init: RequestInit) => {
+    const response = await fetch(`${API_BASE}${url}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders(),
+        ...init.headers,
+      },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error('No response body');
+
+    const parser = createSSEParser({
+      onRetry: (delayMs) => {
+        retryDelay = delayMs;
+      },
+      onEvent: (event) => {
+        // Never deliver an event twice, even if the server over-replays
+        const eventId = parseInt(event.lastEventId, 10) || 0;
+        if (eventId && eventId <= lastEventId) return;
+        if (eventId) lastEventId = eventId;
+        attempt = 0;
+
+        let data;
+        try {
+          data = JSON.parse(event.data);
+        } catch {
+          // Ignore malformed data
+          return;
+        }
+
+        if (event.type === 'start') {
+          startData = data;
+          handlers.onStart?.(data);
+        } else if (event.type === 'status') handlers.onStatus?.(data);
+        else if (event.type === 'chunk') handlers.onChunk?.(data);
+        else if (event.type === 'done') {
+          finished = true;
+          handlers.onDone?.(data);
+        } else if (event.type === 'cancelled') {
+          finished = true;
+          handlers.onCancel?.(data);
+        } else if (event.type === 'error') {
+          finished = true;
+          handlers.onError?.(new ReplyError(data));
+        }
+      },
+    });
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.push(value);
+    }
+  };
 
   (async () => {
-    try {
-      const response = await fetch(`${API_BASE}${endpoint}`, {
-        ...fetchOptions,
-        headers: {
-          'Content-Type': 'application/json',
-          ...fetchOptions.headers,
-        },
-        signal: controller.signal,
-      });
-
-      if (!response.ok) {
-        const error = await response
-          .json()
-          .catch(() => ({ error: 'Unknown error' }));
-        throw new Error(error.error || 'Request failed');
+    let url = endpoint;
+    let init = fetchOptions;
+
+    while (true) {
+      try {
+        await connect(url, init);
+        if (finished || controller.signal.aborted) return;
+        // Stream closed without a terminal event: treat as a dropped connection
+        throw new Error('Connection lost');
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        if (!(error instanceof Error) || error.name === 'AbortError') return;
+
+        const canResume =
+          resumeEndpoint &&
+          startData &&
+          !(error instanceof ApiError) &&
+          attempt < maxRetries;
+        if (!canResume) {
+          handlers.onError?.(error);
+          return;
+        }
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('No response body');
+      attempt += 1;
+      await new Promise((resolve) => setTimeout(resolve, retryDelay * attempt));
+      if (controller.signal.aborted) return;
 
-      const decoder = new TextDecoder();
-      let buffer = '';
+      url = resumeEndpoint(startData!);
+      init = { method: 'GET', headers: { 'Last-Event-ID': String(lastEventId) } };
+    }
+  })();
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+  return () => controller.abort();
+}
 
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
+/**
+ * Follow GET /api/events, the server's feed of changes to the user's
+ * conversations (from any tab), until the returned cleanup is called.
+ *
+ * A dropped connection is reopened with backoff. Events sent while it was
+ * down are not replayed, so `onReconnect` should refetch what it shows.
+ * Client errors (a 401, or a server without the endpoint) stop it.
+ */
+export function subscribeToChanges(handlers: {
+  onEvent: (event: ChangeEvent) => void;
+  onReconnect?: () => void;
+}): () => void {
+  const controller = new AbortController();
+
+  (async () => {
+    let hasConnected = false;
+    let failures = 0;
 
-        let currentEvent = '';
-        for (const line of lines) {
-          if (line.startsWith('event:')) {
-            currentEvent = line.slice(6).trim();
-          } else if (line.startsWith('data:')) {
+    while (true) {
+      try {
+        const response = await fetch(`${API_BASE}/events`, {
+          headers: authHeaders(),
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw await toApiError(response);
+        }
+
+        const reader = response.body?.getReader();
+        if (!reader) throw new Error('No response body');
+
+        if (hasConnected) handlers.onReconnect?.();
+        hasConnected = true;
+        failures = 0;
+
+        const parser = createSSEParser({
+          onEvent: (event) => {
+            let data: ChangeEvent;
             try {
-              const data = JSON.parse(line.slice(5).trim());
-              if (currentEvent === 'chunk') handlers.onChunk?.(data);
-              else if (currentEvent === 'done') handlers.onDone?.(data);
-              else if (currentEvent === 'error')
-                handlers.onError?.(new Error(data.error));
+              data = JSON.parse(event.data);
             } catch {
-              // Ignore JSON parse errors for malformed data
+              // Ignore malformed data
+              return;
             }
-          }
+            handlers.onEvent(data);
+          },
+        });
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          parser.push(value);
         }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        if (error instanceof ApiError && error.status < 500) return;
       }
-    } catch (error) {
-      if (error instanceof Error && error.name !== 'AbortError') {
-        handlers.onError?.(error);
-      }
+
+      failures += 1;
+      await new Promise((resolve) => setTimeout(resolve, Math.min(30000, 1000 * 2 ** (failures - 1))));
+      if (controller.signal.aborted) return;
     }
   })();
 
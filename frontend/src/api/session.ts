@@ -0,0 +1,52 @@
+/**
+ * Session token storage
+ *
+ * The bearer token from signing in is kept in localStorage so a reload
+ * stays signed in. Every API request sends it; a 401 response means the
+ * session is gone, and listeners are told so the app can show the login
+ * screen again.
+ */
+
+const TOKEN_KEY = 'chat.sessionToken';
+
+type ExpiredListener = () => void;
+
+const expiredListeners = new Set<ExpiredListener>();
+
+export function getSessionToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function setSessionToken(token: string | null) {
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_KEY);
+  }
+}
+
+/**
+ * Authorization header for the current session, if signed in.
+ */
+export function authHeaders(): Record<string, string> {
+  const token = getSessionToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Forget the token after the server rejected it.
+ */
+export function expireSession() {
+  if (!getSessionToken()) return;
+  setSessionToken(null);
+  expiredListeners.forEach((listener) => listener());
+}
+
+/**
+ * Run `listener` whenever the session expires.
+ * @returns Unsubscribe function
+ */
+export function onSessionExpired(listener: ExpiredListener): () => void {
+  expiredListeners.add(listener);
+  return () => expiredListeners.delete(listener);
+}
@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'vitest';
+import { createSSEParser, type SSEEvent } from './sse';
+
+const encoder = new TextEncoder();
+
+/** Feed `stream` to a parser in reads ending at `splits` (byte offsets) */
+function parse(stream: string | Uint8Array, splits: number[] = []) {
+  const bytes = typeof stream === 'string' ? encoder.encode(stream) : stream;
+  const events: SSEEvent[] = [];
+  const retries: number[] = [];
+  const parser = createSSEParser({
+    onEvent: (event) => events.push(event),
+    onRetry: (delayMs) => retries.push(delayMs),
+  });
+
+  let start = 0;
+  for (const end of [...splits, bytes.length]) {
+    parser.push(bytes.slice(start, end));
+    start = end;
+  }
+  return { events, retries };
+}
+
+const STREAM = [
+  'id: 1',
+  'event: start',
+  'data: {"messageId":"m1"}',
+  '',
+  ': keep-alive',
+  '',
+  'id: 2',
+  'event: chunk',
+  'data: {"content":"Überprüfung — 🏗️ "}',
+  '',
+  'id: 3',
+  'event: done',
+  'data: {"line":1}',
+  'data: {"line":2}',
+  '',
+  '',
+].join('\n');
+
+const EXPECTED: SSEEvent[] = [
+  { type: 'start', data: '{"messageId":"m1"}', lastEventId: '1' },
+  { type: 'chunk', data: '{"content":"Überprüfung — 🏗️ "}', lastEventId: '2' },
+  { type: 'done', data: '{"line":1}\n{"line":2}', lastEventId: '3' },
+];
+
+describe('createSSEParser', () => {
+  test('parses a stream delivered in one read', () => {
+    expect(parse(STREAM).events).toEqual(EXPECTED);
+  });
+
+  test('gives the same events wherever a single read boundary falls', () => {
+    const length = encoder.encode(STREAM).length;
+    for (let split = 1; split < length; split++) {
+      expect(parse(STREAM, [split]).events).toEqual(EXPECTED);
+    }
+  });
+
+  test('gives the same events when read one byte at a time', () => {
+    const length = encoder.encode(STREAM).length;
+    const everyByte = Array.from({ length: length - 1 }, (_, i) => i + 1);
+    expect(parse(STREAM, everyByte).events).toEqual(EXPECTED);
+  });
+
+  test('keeps the event type when its data arrives in a later read', () => {
+    const stream = 'id: 7\nevent: error\ndata: {"error":"Rate limited"}\n\n';
+    const split = stream.indexOf('data:');
+    expect(parse(stream, [split]).events).toEqual([
+      { type: 'error', data: '{"error":"Rate limited"}', lastEventId: '7' },
+    ]);
+  });
+
+  test('accepts CRLF and CR line endings, even split between reads', () => {
+    const crlf = 'event: chunk\r\ndata: a\r\n\r\n';
+    expect(parse(crlf, [crlf.indexOf('\n')]).events).toEqual([{ type: 'chunk', data: 'a', lastEventId: '' }]);
+
+    const cr = 'event: chunk\rdata: b\r\rdata: c\r\r';
+    expect(parse(cr, [cr.indexOf('\r') + 1]).events).toEqual([
+      { type: 'chunk', data: 'b', lastEventId: '' },
+      { type: 'message', data: 'c', lastEventId: '' },
+    ]);
+  });
+
+  test('follows the field parsing rules', () => {
+    const stream = [
+      'data:no space',
+      'data:  two spaces',
+      'data',
+      'unknown: ignored',
+      ':comment',
+      '',
+      '',
+    ].join('\n');
+
+    expect(parse(stream).events).toEqual([{ type: 'message', data: 'no space\n two spaces\n', lastEventId: '' }]);
+  });
+
+  test('keeps the last event id until a new one is sent', () => {
+    const stream = 'id: 4\ndata: a\n\ndata: b\n\nid: bad\0id\ndata: c\n\nid\ndata: d\n\n';
+    expect(parse(stream).events.map((e) => e.lastEventId)).toEqual(['4', '4', '4', '']);
+  });
+
+  test('does not dispatch frames without data or an unterminated last frame', () => {
+    const stream = 'id: 1\nevent: start\n\nevent: chunk\ndata: partial';
+    expect(parse(stream).events).toEqual([]);
+  });
+
+  test('reports valid retry delays', () => {
+    expect(parse('retry: 2500\nretry: soon\n\n').retries).toEqual([2500]);
+  });
+
+  test('strips a leading byte order mark', () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...encoder.encode('data: x\n\n')]);
+    expect(parse(bytes, [1, 2]).events).toEqual([{ type: 'message', data: 'x', lastEventId: '' }]);
+  });
+});
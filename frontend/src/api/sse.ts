@@ -0,0 +1,99 @@
+/**
+ * Server-Sent Events parsing
+ *
+ * A parser for the `text/event-stream` format as the HTML spec defines it,
+ * fed with raw bytes as they come off a fetch body. Network reads can split
+ * the stream anywhere, including between an `event:` line and its `data:`
+ * line or inside a multi-byte character, so all state carries over from one
+ * `push` to the next.
+ *
+ * https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ */
+
+export interface SSEEvent {
+  /** The `event:` field, or 'message' when the frame had none */
+  type: string;
+  /** The `data:` lines joined with newlines */
+  data: string;
+  /** The most recent `id:` seen on the stream, '' if none */
+  lastEventId: string;
+}
+
+export interface SSEParserHandlers {
+  onEvent: (event: SSEEvent) => void;
+  /** The server set a new reconnection delay, in milliseconds */
+  onRetry?: (delayMs: number) => void;
+}
+
+export interface SSEParser {
+  /** Parse the next bytes of the stream, dispatching every completed event */
+  push(chunk: Uint8Array): void;
+}
+
+const LINE_END = /\r\n|\r|\n/g;
+
+export function createSSEParser({ onEvent, onRetry }: SSEParserHandlers): SSEParser {
+  // Decodes UTF-8 across reads and drops a leading byte order mark
+  const decoder = new TextDecoder();
+  let buffer = '';
+  // The last read ended in '\r'; a '\n' opening the next one belongs to it
+  let skipLineFeed = false;
+
+  let eventType = '';
+  let data = '';
+  let lastEventId = '';
+
+  const dispatch = () => {
+    // A frame without data only updates the last event id
+    if (data) {
+      onEvent({ type: eventType || 'message', data: data.slice(0, -1), lastEventId });
+    }
+    eventType = '';
+    data = '';
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') return dispatch();
+    if (line.startsWith(':')) return; // Comment, e.g. a keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        data += `${value}\n`;
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) onRetry?.(parseInt(value, 10));
+        break;
+      // Unknown fields are ignored
+    }
+  };
+
+  return {
+    push(chunk) {
+      let text = decoder.decode(chunk, { stream: true });
+      if (skipLineFeed && text) {
+        if (text.startsWith('\n')) text = text.slice(1);
+        skipLineFeed = false;
+      }
+      buffer += text;
+
+      let start = 0;
+      for (const match of buffer.matchAll(LINE_END)) {
+        processLine(buffer.slice(start, match.index));
+        start = match.index! + match[0].length;
+      }
+      if (start > 0) skipLineFeed = start === buffer.length && buffer.endsWith('\r');
+      buffer = buffer.slice(start);
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { AuthGate } from './AuthGate';
+import { apiFetch } from '../api/client';
+import { getSessionToken, setSessionToken } from '../api/session';
+import { useAuth } from '../hooks/useAuth';
+import { jsonResponse, mockFetch } from '../test/fetch';
+
+const alice = { id: 'u1', username: 'alice', created_at: '2026-01-05 09:00:00' };
+
+function Account() {
+    const auth = useAuth();
+    return (
+        <div>
+            <p>Signed in as {auth?.user.username}</p>
+            <button onClick={() => apiFetch('/chats').catch(() => {})}>Load chats</button>
+            <button onClick={auth?.logout}>Log out</button>
+        </div>
+    );
+}
+
+function renderGate() {
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    return render(
+        <QueryClientProvider client={queryClient}>
+            <AuthGate>
+                <Account />
+            </AuthGate>
+        </QueryClientProvider>
+    );
+}
+
+describe('AuthGate', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    test('signs in and keeps the token for later requests', async () => {
+        const fetchMock = mockFetch({
+            'POST /api/auth/login': { token: 'tok-1', user: alice },
+        });
+        renderGate();
+
+        await userEvent.type(screen.getByLabelText('Username'), 'alice');
+        await userEvent.type(screen.getByLabelText('Password'), 'correct-horse');
+        await userEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+        expect(await screen.findByText('Signed in as alice')).toBeTruthy();
+        expect(getSessionToken()).toBe('tok-1');
+        const [, init] = fetchMock.mock.calls[0];
+        expect(JSON.parse(String(init?.body))).toEqual({ username: 'alice', password: 'correct-horse' });
+    });
+
+    test('shows why signing in failed', async () => {
+        mockFetch({
+            'POST /api/auth/login': () => jsonResponse({ error: 'Invalid username or password' }, 401),
+        });
+        renderGate();
+
+        await userEvent.type(screen.getByLabelText('Username'), 'alice');
+        await userEvent.type(screen.getByLabelText('Password'), 'wrong-password');
+        await userEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+        expect(await screen.findByText('Invalid username or password')).toBeTruthy();
+        expect(getSessionToken()).toBeNull();
+    });
+
+    test('resumes a stored session and returns to sign-in once it is rejected', async () => {
+        setSessionToken('tok-1');
+        const fetchMock = mockFetch({
+            'GET /api/auth/me': alice,
+            'GET /api/chats': () => jsonResponse({ error: 'Authentication required' }, 401),
+        });
+        renderGate();
+
+        expect(await screen.findByText('Signed in as alice')).toBeTruthy();
+        const [, init] = fetchMock.mock.calls[0];
+        expect(new Headers(init?.headers).get('Authorization')).toBe('Bearer tok-1');
+
+        await userEvent.click(screen.getByRole('button', { name: 'Load chats' }));
+
+        expect(await screen.findByRole('button', { name: 'Sign in' })).toBeTruthy();
+        expect(getSessionToken()).toBeNull();
+    });
+
+    test('logs out', async () => {
+        setSessionToken('tok-1');
+        const fetchMock = mockFetch({
+            'GET /api/auth/me': alice,
+            'POST /api/auth/logout': () => new Response(null, { status: 204 }),
+        });
+        renderGate();
+
+        await userEvent.click(await screen.findByRole('button', { name: 'Log out' }));
+
+        await waitFor(() => expect(screen.getByRole('button', { name: 'Sign in' })).toBeTruthy());
+        expect(getSessionToken()).toBeNull();
+        expect(fetchMock.mock.calls.map(([input]) => String(input))).toContain('/api/auth/logout');
+    });
+});
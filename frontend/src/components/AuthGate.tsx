@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback, useMemo, type ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '../api/client';
+import { getSessionToken, onSessionExpired, setSessionToken } from '../api/session';
+import { AuthContext } from '../hooks/useAuth';
+import type { Session, User } from '../types';
+import { LoginScreen } from './LoginScreen';
+
+/**
+ * Shows the login screen until there is a valid session, then renders
+ * `children` with the user available from useAuth. Cached queries are
+ * dropped whenever the user changes so no data carries over between
+ * accounts.
+ */
+export function AuthGate({ children }: { children: ReactNode }) {
+    const queryClient = useQueryClient();
+    const [user, setUser] = useState<User | null>(null);
+    const [isRestoring, setIsRestoring] = useState(() => getSessionToken() !== null);
+
+    // Resume the stored session, if it is still valid
+    useEffect(() => {
+        if (!getSessionToken()) return;
+        apiFetch<User>('/auth/me')
+            .then(setUser)
+            .catch(() => {})
+            .finally(() => setIsRestoring(false));
+    }, []);
+
+    useEffect(
+        () =>
+            onSessionExpired(() => {
+                queryClient.clear();
+                setUser(null);
+            }),
+        [queryClient]
+    );
+
+    const signIn = (session: Session) => {
+        setSessionToken(session.token);
+        queryClient.clear();
+        setUser(session.user);
+    };
+
+    const logout = useCallback(async () => {
+        try {
+            await apiFetch('/auth/logout', { method: 'POST' });
+        } catch (logoutError) {
+            console.error('Error logging out:', logoutError);
+        }
+        setSessionToken(null);
+        queryClient.clear();
+        setUser(null);
+    }, [queryClient]);
+
+    const auth = useMemo(() => (user ? { user, logout } : null), [user, logout]);
+
+    if (isRestoring) {
+        return null;
+    }
+    if (!auth) {
+        return <LoginScreen onSignedIn={signIn} />;
+    }
+    return <AuthContext.Provider value={auth}>{children}</AuthContext.Provider>;
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { apiFetch } from '../api/client';
+import type { Conversation } from '../types';
+
+interface ConversationTitleProps {
+    conversation: Conversation;
+    /** Called after the title was saved */
+    onRenamed?: () => void;
+}
+
+/**
+ * Conversation title with inline renaming. A title set here is kept even
+ * after the server generates one; clearing it lets the next reply rename
+ * the chat again.
+ */
+export function ConversationTitle({ conversation, onRenamed }: ConversationTitleProps) {
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setIsEditing(false);
+        setError(null);
+    }, [conversation.id]);
+
+    const startEditing = () => {
+        setDraft(conversation.title ?? '');
+        setIsEditing(true);
+    };
+
+    const save = async () => {
+        setIsEditing(false);
+        if (draft.trim() === (conversation.title ?? '')) return;
+
+        try {
+            await apiFetch(`/chats/${conversation.id}`, {
+                method: 'PATCH',
+                body: JSON.stringify({ title: draft.trim() || null }),
+            });
+            setError(null);
+            onRenamed?.();
+        } catch (renameError) {
+            setError(renameError instanceof Error ? renameError.message : 'Failed to rename');
+        }
+    };
+
+    if (isEditing) {
+        return (
+            <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={save}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                    if (e.key === 'Escape') setIsEditing(false);
+                }}
+                autoFocus
+                maxLength={200}
+                placeholder="Leave empty for an automatic title"
+                aria-label="Conversation title"
+                style={{
+                    marginBottom: 16,
+                    padding: '4px 8px',
+                    border: '1px solid #2196f3',
+                    borderRadius: 4,
+                    fontSize: 17,
+                    fontWeight: 600,
+                    fontFamily: 'inherit',
+                    minWidth: 320,
+                }}
+            />
+        );
+    }
+
+    return (
+        <div style={{ display: 'flex', alignItems: 'baseline', gap: 8, minWidth: 0 }}>
+            <h3 style={{ marginTop: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {conversation.title || 'Untitled Conversation'}
+            </h3>
+            <button
+                type="button"
+                onClick={startEditing}
+                style={{ padding: 0, background: 'none', border: 'none', color: '#2196f3', fontSize: 12, cursor: 'pointer' }}
+            >
+                ✎ Rename
+            </button>
+            {error && <span style={{ fontSize: 12, color: '#c62828' }}>{error}</span>}
+        </div>
+    );
+}
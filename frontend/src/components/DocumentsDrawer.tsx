@@ -0,0 +1,167 @@
+import { useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '../api/client';
+import type { ConversationDocument } from '../types';
+
+interface DocumentsDrawerProps {
+    conversationId: string;
+    onClose: () => void;
+}
+
+const ACCEPTED_TYPES = '.pdf,.txt,.md,.markdown';
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Side drawer listing the documents uploaded to a conversation. Answers
+ * in the conversation draw on these documents and cite them by page.
+ */
+export function DocumentsDrawer({ conversationId, onClose }: DocumentsDrawerProps) {
+    const queryClient = useQueryClient();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isUploading, setIsUploading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const { data: documents, isLoading } = useQuery({
+        queryKey: ['documents', conversationId],
+        queryFn: () => apiFetch<ConversationDocument[]>(`/chats/${conversationId}/documents`),
+    });
+
+    const refreshDocuments = () =>
+        queryClient.invalidateQueries({ queryKey: ['documents', conversationId] });
+
+    const uploadFile = async (file: File) => {
+        setIsUploading(true);
+        setError(null);
+
+        const body = new FormData();
+        body.append('file', file);
+
+        try {
+            await apiFetch(`/chats/${conversationId}/documents`, { method: 'POST', body });
+            await refreshDocuments();
+        } catch (uploadError) {
+            setError(uploadError instanceof Error ? uploadError.message : 'Failed to upload document');
+        } finally {
+            setIsUploading(false);
+            if (fileInputRef.current) fileInputRef.current.value = '';
+        }
+    };
+
+    const removeDocument = async (documentId: string) => {
+        setError(null);
+        try {
+            await apiFetch(`/chats/${conversationId}/documents/${documentId}`, { method: 'DELETE' });
+            await refreshDocuments();
+        } catch (deleteError) {
+            setError(deleteError instanceof Error ? deleteError.message : 'Failed to remove document');
+        }
+    };
+
+    return (
+        <aside
+            style={{
+                width: 340,
+                background: '#fff',
+                borderLeft: '1px solid #e0e0e0',
+                padding: 16,
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 16,
+                overflowY: 'auto',
+            }}
+        >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <h3 style={{ margin: 0, fontSize: 16 }}>Documents</h3>
+                <button
+                    type="button"
+                    aria-label="Close documents"
+                    onClick={onClose}
+                    style={{ background: 'none', border: 'none', fontSize: 18, cursor: 'pointer', color: '#666' }}
+                >
+                    ×
+                </button>
+            </div>
+
+            <p style={{ margin: 0, fontSize: 12, color: '#999' }}>
+                Upload specs, bid forms or RFIs (PDF, text or Markdown, up to 10 MB). Answers in this
+                conversation will cite them.
+            </p>
+
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept={ACCEPTED_TYPES}
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) uploadFile(file);
+                }}
+                style={{ display: 'none' }}
+            />
+            <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isUploading}
+                style={{
+                    padding: '10px 16px',
+                    background: isUploading ? '#e0e0e0' : '#2196f3',
+                    color: isUploading ? '#999' : '#fff',
+                    border: 'none',
+                    borderRadius: 8,
+                    fontSize: 14,
+                    fontWeight: 500,
+                    cursor: isUploading ? 'not-allowed' : 'pointer',
+                }}
+            >
+                {isUploading ? 'Indexing...' : 'Upload Document'}
+            </button>
+
+            {error && <p style={{ margin: 0, fontSize: 13, color: '#c62828' }}>{error}</p>}
+
+            {isLoading ? (
+                <p style={{ margin: 0, fontSize: 14, color: '#666' }}>Loading...</p>
+            ) : documents && documents.length > 0 ? (
+                <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: 8 }}>
+                    {documents.map((document) => (
+                        <li
+                            key={document.id}
+                            style={{
+                                display: 'flex',
+                                justifyContent: 'space-between',
+                                alignItems: 'center',
+                                gap: 8,
+                                padding: '8px 12px',
+                                background: '#f5f5f5',
+                                borderRadius: 8,
+                            }}
+                        >
+                            <div style={{ minWidth: 0 }}>
+                                <p style={{ margin: 0, fontSize: 14, overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                                    {document.filename}
+                                </p>
+                                <p style={{ margin: '2px 0 0 0', fontSize: 12, color: '#666' }}>
+                                    {document.page_count !== null && `${document.page_count} pages · `}
+                                    {formatSize(document.size_bytes)}
+                                </p>
+                            </div>
+                            <button
+                                type="button"
+                                aria-label={`Remove ${document.filename}`}
+                                onClick={() => removeDocument(document.id)}
+                                style={{ background: 'none', border: 'none', fontSize: 16, cursor: 'pointer', color: '#999' }}
+                            >
+                                ×
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p style={{ margin: 0, fontSize: 14, color: '#666' }}>No documents yet</p>
+            )}
+        </aside>
+    );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { apiFetch } from '../api/client';
+import type { Session } from '../types';
+
+interface LoginScreenProps {
+    onSignedIn: (session: Session) => void;
+}
+
+const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 4,
+    fontSize: 13,
+    fontWeight: 500,
+    color: '#333',
+};
+
+const fieldStyle: React.CSSProperties = {
+    padding: '8px 12px',
+    border: '1px solid #e0e0e0',
+    borderRadius: 8,
+    fontSize: 14,
+    fontFamily: 'inherit',
+    fontWeight: 400,
+};
+
+/**
+ * Sign-in form, which also creates accounts.
+ */
+export function LoginScreen({ onSignedIn }: LoginScreenProps) {
+    const [mode, setMode] = useState<'login' | 'register'>('login');
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const isRegistering = mode === 'register';
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const session = await apiFetch<Session>(`/auth/${mode}`, {
+                method: 'POST',
+                body: JSON.stringify({ username, password }),
+            });
+            onSignedIn(session);
+        } catch (signInError) {
+            setError(signInError instanceof Error ? signInError.message : 'Sign in failed');
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div
+            style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                height: '100vh',
+                background: '#f5f5f5',
+            }}
+        >
+            <form
+                onSubmit={handleSubmit}
+                style={{
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: 16,
+                    width: 320,
+                    padding: 24,
+                    background: '#fff',
+                    border: '1px solid #e0e0e0',
+                    borderRadius: 8,
+                }}
+            >
+                <h2 style={{ margin: 0, fontSize: 18 }}>{isRegistering ? 'Create an account' : 'Sign in'}</h2>
+
+                <label style={labelStyle}>
+                    Username
+                    <input
+                        type="text"
+                        autoComplete="username"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        required
+                        style={fieldStyle}
+                    />
+                </label>
+
+                <label style={labelStyle}>
+                    Password
+                    <input
+                        type="password"
+                        autoComplete={isRegistering ? 'new-password' : 'current-password'}
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        required
+                        style={fieldStyle}
+                    />
+                </label>
+
+                {error && <p style={{ margin: 0, fontSize: 13, color: '#c62828' }}>{error}</p>}
+
+                <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    style={{
+                        padding: '10px 16px',
+                        background: isSubmitting ? '#e0e0e0' : '#2196f3',
+                        color: isSubmitting ? '#999' : '#fff',
+                        border: 'none',
+                        borderRadius: 8,
+                        fontSize: 14,
+                        fontWeight: 500,
+                        cursor: isSubmitting ? 'not-allowed' : 'pointer',
+                    }}
+                >
+                    {isRegistering ? 'Create account' : 'Sign in'}
+                </button>
+
+                <button
+                    type="button"
+                    onClick={() => {
+                        setMode(isRegistering ? 'login' : 'register');
+                        setError(null);
+                    }}
+                    style={{ padding: 0, background: 'none', border: 'none', color: '#2196f3', fontSize: 13, cursor: 'pointer' }}
+                >
+                    {isRegistering ? 'Already have an account? Sign in' : 'New here? Create an account'}
+                </button>
+            </form>
+        </div>
+    );
+}
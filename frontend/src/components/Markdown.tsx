@@ -0,0 +1,124 @@
+import { useState, useEffect, useMemo, type ReactNode } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { completePartialMarkdown } from '../markdown';
+
+interface MarkdownProps {
+    content: string;
+    /** The text is still arriving; unfinished syntax is closed before rendering */
+    isStreaming?: boolean;
+}
+
+const COPIED_RESET_MS = 1500;
+
+const cellStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    border: '1px solid #e0e0e0',
+    textAlign: 'left',
+    verticalAlign: 'top',
+};
+
+/**
+ * Fenced code block with its language and a copy button.
+ */
+function CodeBlock({ language, code }: { language: string | null; code: string }) {
+    const [copied, setCopied] = useState(false);
+
+    useEffect(() => {
+        if (!copied) return;
+        const timer = setTimeout(() => setCopied(false), COPIED_RESET_MS);
+        return () => clearTimeout(timer);
+    }, [copied]);
+
+    const copy = async () => {
+        try {
+            await navigator.clipboard.writeText(code);
+            setCopied(true);
+        } catch {
+            // Clipboard access denied; the code can still be selected by hand
+        }
+    };
+
+    return (
+        <div style={{ margin: '8px 0', borderRadius: 6, overflow: 'hidden', background: '#263238' }}>
+            <div
+                style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    padding: '4px 12px',
+                    background: '#37474f',
+                    fontSize: 11,
+                    color: '#b0bec5',
+                }}
+            >
+                <span>{language ?? 'text'}</span>
+                <button
+                    type="button"
+                    onClick={copy}
+                    style={{ padding: 0, background: 'none', border: 'none', color: '#b0bec5', fontSize: 11, cursor: 'pointer' }}
+                >
+                    {copied ? 'Copied' : 'Copy'}
+                </button>
+            </div>
+            <pre style={{ margin: 0, padding: 12, overflowX: 'auto', fontSize: 13, lineHeight: 1.5, color: '#eceff1' }}>
+                <code>{code}</code>
+            </pre>
+        </div>
+    );
+}
+
+function textOf(children: ReactNode): string {
+    return Array.isArray(children) ? children.join('') : String(children ?? '');
+}
+
+const components: Components = {
+    // Block code is rendered by `code` below; unwrap the default <pre>
+    pre: ({ children }) => <>{children}</>,
+    code: ({ className, children, node }) => {
+        const language = /language-([\w+#-]+)/.exec(className ?? '')?.[1] ?? null;
+        const isBlock = !!language || node?.position?.start.line !== node?.position?.end.line;
+        if (!isBlock) {
+            return (
+                <code style={{ padding: '1px 4px', background: '#e0e0e0', borderRadius: 3, fontSize: 13 }}>
+                    {children}
+                </code>
+            );
+        }
+        return <CodeBlock language={language} code={textOf(children).replace(/\n$/, '')} />;
+    },
+    table: ({ children }) => (
+        <div style={{ margin: '8px 0', overflowX: 'auto' }}>
+            <table style={{ borderCollapse: 'collapse', fontSize: 13 }}>{children}</table>
+        </div>
+    ),
+    th: ({ children, style }) => <th style={{ ...cellStyle, ...style, background: '#eeeeee' }}>{children}</th>,
+    td: ({ children, style }) => <td style={{ ...cellStyle, ...style }}>{children}</td>,
+    p: ({ children }) => <p style={{ margin: '0 0 8px 0' }}>{children}</p>,
+    ul: ({ children }) => <ul style={{ margin: '0 0 8px 0', paddingLeft: 20 }}>{children}</ul>,
+    ol: ({ children }) => <ol style={{ margin: '0 0 8px 0', paddingLeft: 20 }}>{children}</ol>,
+    a: ({ href, children }) => (
+        <a href={href} target="_blank" rel="noopener noreferrer" style={{ color: '#1976d2' }}>
+            {children}
+        </a>
+    ),
+};
+
+/**
+ * Assistant message body rendered as GitHub-flavored markdown. Raw HTML in
+ * the text is shown as text, never injected, and unsafe link protocols
+ * (e.g. `javascript:`) are stripped by react-markdown's default URL filter.
+ */
+export function Markdown({ content, isStreaming }: MarkdownProps) {
+    const source = useMemo(
+        () => (isStreaming ? completePartialMarkdown(content) : content),
+        [content, isStreaming]
+    );
+
+    return (
+        <div style={{ fontSize: 14, lineHeight: 1.5, overflowWrap: 'anywhere', marginBottom: -8 }}>
+            <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+                {source}
+            </ReactMarkdown>
+        </div>
+    );
+}
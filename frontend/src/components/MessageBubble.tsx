@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react';
+import type { Message } from '../types';
+import { Markdown } from './Markdown';
+
+interface MessageBubbleProps {
+    message: Message;
+    /** Live text while this message is being generated, or null */
+    streamingContent?: string | null;
+    /** Shown next to the author while streaming, e.g. "Reconnecting to AI…" */
+    statusText?: string | null;
+    /** Disable actions while another response is streaming */
+    isBusy?: boolean;
+    /** Briefly outline the message, e.g. after jumping to it from search */
+    isHighlighted?: boolean;
+    onRegenerate?: (messageId: string) => void;
+    /** Edit a user message, forking the thread */
+    onEdit?: (messageId: string, content: string) => void;
+    /** Show the branch containing this sibling message */
+    onSwitchBranch?: (messageId: string) => void;
+}
+
+const pagerButtonStyle = (disabled: boolean): React.CSSProperties => ({
+    padding: '0 4px',
+    background: 'none',
+    border: 'none',
+    color: disabled ? '#ccc' : '#666',
+    cursor: disabled ? 'default' : 'pointer',
+    fontSize: 12,
+});
+
+const linkButtonStyle = (disabled?: boolean): React.CSSProperties => ({
+    padding: 0,
+    background: 'none',
+    border: 'none',
+    color: disabled ? '#ccc' : '#2196f3',
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    fontSize: 11,
+});
+
+interface PagerProps {
+    label: string;
+    index: number;
+    total: number;
+    disabled?: boolean;
+    onChange: (index: number) => void;
+}
+
+/**
+ * "< 2/3 >" control for paging through versions or branches.
+ */
+function Pager({ label, index, total, disabled, onChange }: PagerProps) {
+    const hasPrevious = !disabled && index > 0;
+    const hasNext = !disabled && index < total - 1;
+
+    return (
+        <span>
+            <button
+                type="button"
+                aria-label={`Previous ${label}`}
+                disabled={!hasPrevious}
+                onClick={() => onChange(index - 1)}
+                style={pagerButtonStyle(!hasPrevious)}
+            >
+                {'<'}
+            </button>
+            {index + 1}/{total}
+            <button
+                type="button"
+                aria-label={`Next ${label}`}
+                disabled={!hasNext}
+                onClick={() => onChange(index + 1)}
+                style={pagerButtonStyle(!hasNext)}
+            >
+                {'>'}
+            </button>
+        </span>
+    );
+}
+
+export function MessageBubble({
+    message,
+    streamingContent,
+    statusText,
+    isBusy,
+    isHighlighted,
+    onRegenerate,
+    onEdit,
+    onSwitchBranch,
+}: MessageBubbleProps) {
+    const isUser = message.role === 'user';
+    const isStreaming = streamingContent !== null && streamingContent !== undefined;
+
+    // Earlier attempts first, the current answer last
+    const attempts = [
+        ...(message.versions ?? []),
+        { content: message.content, status: message.status, error_message: message.error_message },
+    ];
+    const [attemptIndex, setAttemptIndex] = useState(attempts.length - 1);
+
+    // Jump to the newest attempt whenever one is added
+    useEffect(() => {
+        setAttemptIndex(attempts.length - 1);
+    }, [attempts.length]);
+
+    const attempt = attempts[Math.min(attemptIndex, attempts.length - 1)];
+    const isLatestAttempt = attempt === attempts[attempts.length - 1];
+    const content = isStreaming ? streamingContent : attempt.content;
+
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(message.content);
+
+    const startEditing = () => {
+        setDraft(message.content);
+        setIsEditing(true);
+    };
+
+    const saveEdit = () => {
+        if (!draft.trim() || draft.trim() === message.content) {
+            setIsEditing(false);
+            return;
+        }
+        onEdit?.(message.id, draft.trim());
+        setIsEditing(false);
+    };
+
+    return (
+        <div
+            id={`message-${message.id}`}
+            style={{
+                padding: '12px 16px',
+                borderRadius: '8px',
+                background: isUser ? '#e3f2fd' : '#f5f5f5',
+                alignSelf: isUser ? 'flex-end' : 'flex-start',
+                maxWidth: '70%',
+                outline: isHighlighted ? '2px solid #ffb300' : 'none',
+                transition: 'outline-color 0.3s',
+            }}
+        >
+            <p style={{ margin: 0, fontSize: 12, color: '#666', marginBottom: 4 }}>
+                {isUser ? 'You' : 'Assistant'}
+                {isStreaming && (
+                    <span style={{ animation: 'pulse 1.5s ease-in-out infinite' }}> ●</span>
+                )}
+                {isStreaming && statusText && <span style={{ fontStyle: 'italic' }}> {statusText}</span>}
+            </p>
+            {isEditing ? (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 4, minWidth: 280 }}>
+                    <textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        rows={3}
+                        autoFocus
+                        style={{
+                            padding: 8,
+                            border: '1px solid #e0e0e0',
+                            borderRadius: 4,
+                            fontSize: 14,
+                            fontFamily: 'inherit',
+                            resize: 'vertical',
+                        }}
+                    />
+                    <div style={{ display: 'flex', gap: 12, justifyContent: 'flex-end' }}>
+                        <button type="button" onClick={() => setIsEditing(false)} style={linkButtonStyle()}>
+                            Cancel
+                        </button>
+                        <button type="button" onClick={saveEdit} disabled={isBusy} style={linkButtonStyle(isBusy)}>
+                            Save & Submit
+                        </button>
+                    </div>
+                </div>
+            ) : isUser ? (
+                <p style={{ margin: 0, fontSize: 14, whiteSpace: 'pre-wrap' }}>{content}</p>
+            ) : (
+                <Markdown content={content} isStreaming={isStreaming} />
+            )}
+            {!isStreaming && isLatestAttempt && message.citations && message.citations.length > 0 && (
+                <ol style={{ margin: '8px 0 0 0', padding: 0, listStyle: 'none', fontSize: 12, color: '#666' }}>
+                    <li style={{ fontWeight: 500 }}>Sources</li>
+                    {message.citations.map((citation) => (
+                        <li key={citation.index}>
+                            [{citation.index}] {citation.filename}
+                            {citation.page !== null && `, p. ${citation.page}`}
+                        </li>
+                    ))}
+                </ol>
+            )}
+            {!isStreaming && attempt.status === 'failed' && (
+                <p style={{ margin: '4px 0 0 0', fontSize: 13, color: '#c62828' }}>
+                    {attempt.error_message || 'Response failed'}
+                </p>
+            )}
+            <div
+                style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 8,
+                    marginTop: 4,
+                    fontSize: 11,
+                    color: '#999',
+                }}
+            >
+                <span>
+                    {new Date(message.created_at).toLocaleString()}
+                    {!isStreaming && attempt.status === 'cancelled' && ' · Stopped'}
+                </span>
+                {message.branch && !isStreaming && (
+                    <Pager
+                        label="branch"
+                        index={message.branch.index}
+                        total={message.branch.total}
+                        disabled={isBusy}
+                        onChange={(index) => onSwitchBranch?.(message.branch!.siblingIds[index])}
+                    />
+                )}
+                {!isUser && !isStreaming && attempts.length > 1 && (
+                    <Pager
+                        label="version"
+                        index={attemptIndex}
+                        total={attempts.length}
+                        onChange={setAttemptIndex}
+                    />
+                )}
+                {isUser && !isEditing && onEdit && (
+                    <button type="button" onClick={startEditing} disabled={isBusy} style={linkButtonStyle(isBusy)}>
+                        ✎ Edit
+                    </button>
+                )}
+                {!isUser && !isStreaming && onRegenerate && (
+                    <button
+                        type="button"
+                        onClick={() => onRegenerate(message.id)}
+                        disabled={isBusy}
+                        style={linkButtonStyle(isBusy)}
+                    >
+                        ↻ Regenerate
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
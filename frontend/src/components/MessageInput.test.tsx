@@ -0,0 +1,135 @@
+import { describe, expect, test, vi } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MessageInput } from './MessageInput';
+
+describe('MessageInput', () => {
+    test('sends the trimmed message and clears the field', async () => {
+        const onSend = vi.fn();
+        render(<MessageInput isSubmitting={false} onSend={onSend} />);
+
+        const input = screen.getByPlaceholderText('Type your message...');
+        await userEvent.type(input, '  Which wall types are fire rated?  {Enter}');
+
+        expect(onSend).toHaveBeenCalledExactlyOnceWith('Which wall types are fire rated?');
+        expect(input).toHaveProperty('value', '');
+    });
+
+    test('does not send blank messages', async () => {
+        const onSend = vi.fn();
+        render(<MessageInput isSubmitting={false} onSend={onSend} />);
+
+        await userEvent.type(screen.getByPlaceholderText('Type your message...'), '   {Enter}');
+
+        expect(onSend).not.toHaveBeenCalled();
+        expect(screen.getByRole('button', { name: 'Send' })).toHaveProperty('disabled', true);
+    });
+
+    test('offers Stop instead of Send while a reply streams', async () => {
+        const onStop = vi.fn();
+        render(<MessageInput isSubmitting onSend={vi.fn()} onStop={onStop} />);
+
+        expect(screen.getByPlaceholderText('Type your message...')).toHaveProperty('disabled', true);
+        expect(screen.queryByRole('button', { name: 'Send' })).toBeNull();
+
+        await userEvent.click(screen.getByRole('button', { name: 'Stop' }));
+        expect(onStop).toHaveBeenCalledOnce();
+    });
+
+    test('shows the error with Retry only when the reply can be retried', async () => {
+        const onRetry = vi.fn();
+        const { rerender } = render(
+            <MessageInput isSubmitting={false} error="AI service is busy." onSend={vi.fn()} onRetry={onRetry} />
+        );
+
+        expect(screen.getByText('AI service is busy.')).toBeTruthy();
+        expect(screen.queryByRole('button', { name: 'Retry' })).toBeNull();
+
+        rerender(
+            <MessageInput isSubmitting={false} error="AI service is busy." canRetry onSend={vi.fn()} onRetry={onRetry} />
+        );
+        await userEvent.click(screen.getByRole('button', { name: 'Retry' }));
+        expect(onRetry).toHaveBeenCalledOnce();
+    });
+
+    test('counts down a rate limit before allowing another send', () => {
+        vi.useFakeTimers();
+        try {
+            render(
+                <MessageInput
+                    isSubmitting={false}
+                    error="Too many messages, please slow down"
+                    retryAt={Date.now() + 65_000}
+                    unsentMessage="Which bid is lowest?"
+                    onSend={vi.fn()}
+                />
+            );
+
+            // The rejected message is back in the field, but can't be sent yet
+            expect(screen.getByPlaceholderText('Type your message...')).toHaveProperty('value', 'Which bid is lowest?');
+            expect(screen.getByRole('status').textContent).toBe(
+                'Too many messages, please slow down. You can send again in 1m 05s.'
+            );
+            expect(screen.getByRole('button', { name: 'Send' })).toHaveProperty('disabled', true);
+
+            act(() => vi.advanceTimersByTime(60_000));
+            expect(screen.getByRole('status').textContent).toMatch(/again in 5s\.$/);
+
+            act(() => vi.advanceTimersByTime(5_000));
+            expect(screen.getByRole('button', { name: 'Send' })).toHaveProperty('disabled', false);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    test('explains each error code and offers the way forward that can work', async () => {
+        const onRetry = vi.fn();
+        const onNewChat = vi.fn();
+        const props = { isSubmitting: false, error: 'Server message', canRetry: true, onSend: vi.fn(), onRetry, onNewChat };
+        const { rerender } = render(<MessageInput {...props} errorCode="context_too_long" />);
+
+        expect(screen.getByText('This conversation is too long for the model. Continue in a new chat.')).toBeTruthy();
+        expect(screen.queryByRole('button', { name: 'Retry' })).toBeNull();
+        await userEvent.click(screen.getByRole('button', { name: 'New chat' }));
+        expect(onNewChat).toHaveBeenCalledOnce();
+
+        rerender(<MessageInput {...props} errorCode="auth" />);
+        expect(screen.getByText(/Ask an administrator to check its API key/)).toBeTruthy();
+        expect(screen.queryByRole('button', { name: 'Retry' })).toBeNull();
+        expect(screen.queryByRole('button', { name: 'New chat' })).toBeNull();
+
+        rerender(<MessageInput {...props} errorCode="network" />);
+        expect(screen.getByText('Lost the connection to the AI service.')).toBeTruthy();
+        await userEvent.click(screen.getByRole('button', { name: 'Retry' }));
+        expect(onRetry).toHaveBeenCalledOnce();
+
+        // Codes without their own copy show what the server said
+        rerender(<MessageInput {...props} errorCode="unavailable" />);
+        expect(screen.getByText('Server message')).toBeTruthy();
+        expect(screen.getByRole('button', { name: 'Retry' })).toBeTruthy();
+    });
+
+    test('holds Retry for as long as a busy AI service asked', () => {
+        vi.useFakeTimers();
+        try {
+            render(
+                <MessageInput
+                    isSubmitting={false}
+                    error="AI service is busy. Please try again in a moment."
+                    errorCode="rate_limited"
+                    canRetry
+                    retryAt={Date.now() + 2_000}
+                    onSend={vi.fn()}
+                />
+            );
+
+            expect(screen.getByText('The AI service is busy right now.')).toBeTruthy();
+            expect(screen.getByRole('button', { name: 'Retry in 2s' })).toHaveProperty('disabled', true);
+
+            act(() => vi.advanceTimersByTime(2_000));
+            expect(screen.getByRole('button', { name: 'Retry' })).toHaveProperty('disabled', false);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
@@ -1,72 +1,120 @@
-import { useState, useRef, useEffect } from 'react';
-import { subscribeToSSE } from '../api/client';
+import { useState, useEffect } from 'react';
+import type { ErrorCode } from '../types';
 
 interface MessageInputProps {
-    conversationId: string;
-    onChunk?: (chunk: string) => void;
-    onMessageSent?: () => void;
+    isSubmitting: boolean;
+    error?: string | null;
+    /** Why the reply failed; picks the explanation and the way forward */
+    errorCode?: ErrorCode | null;
+    /** Whether the failed response can be regenerated */
+    canRetry?: boolean;
+    /** When sending is allowed again after hitting a rate limit (ms timestamp) */
+    retryAt?: number | null;
+    /** A message the server turned away; put back in the field to send later */
+    unsentMessage?: string | null;
+    onSend: (message: string) => void;
+    onRetry?: () => void;
+    onStop?: () => void;
+    /** Offered when the conversation has outgrown the model's context */
+    onNewChat?: () => void;
 }
 
-export function MessageInput({ conversationId, onChunk, onMessageSent }: MessageInputProps) {
-    const [message, setMessage] = useState('');
-    const [isSubmitting, setIsSubmitting] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-    const [lastFailedMessage, setLastFailedMessage] = useState<string>('');
-    const cleanupRef = useRef<(() => void) | null>(null);
+/**
+ * What to tell the user about a failed reply, and what to offer. Retrying
+ * can't get past a filter, a full context window or a broken setup. Codes
+ * not listed show the server's message and offer Retry.
+ */
+const ERROR_HELP: Partial<Record<ErrorCode, { message: string; action: 'retry' | 'new_chat' | null }>> = {
+    rate_limited: { message: 'The AI service is busy right now.', action: 'retry' },
+    quota_exceeded: {
+        message: 'The AI service has used up its quota. Ask an administrator to check the account.',
+        action: null,
+    },
+    auth: {
+        message: "The AI service isn't set up correctly. Ask an administrator to check its API key.",
+        action: null,
+    },
+    timeout: { message: 'The AI service took too long to answer.', action: 'retry' },
+    content_filter: {
+        message: 'The reply was blocked by the content filter. Try rephrasing your message.',
+        action: null,
+    },
+    context_too_long: {
+        message: 'This conversation is too long for the model. Continue in a new chat.',
+        action: 'new_chat',
+    },
+    network: { message: 'Lost the connection to the AI service.', action: 'retry' },
+    empty_response: { message: 'The AI service sent back an empty reply.', action: 'retry' },
+    invalid_request: {
+        message: "The AI service couldn't accept this request. Check the chat's model and settings.",
+        action: null,
+    },
+    interrupted: { message: 'The reply was cut off when the server restarted.', action: 'retry' },
+    internal: { message: 'Something went wrong on our side while writing the reply.', action: 'retry' },
+};
 
-    // Cleanup SSE stream on component unmount to prevent memory leaks
-    useEffect(() => {
-        return () => {
-            cleanupRef.current?.();
-        };
-    }, []);
+const errorButtonStyle = (disabled: boolean): React.CSSProperties => ({
+    padding: '6px 12px',
+    background: disabled ? '#e57373' : '#c62828',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 4,
+    fontSize: 13,
+    fontWeight: 500,
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    marginLeft: 12,
+    whiteSpace: 'nowrap',
+});
 
-    const submitMessage = async (messageToSend: string) => {
-        if (!messageToSend.trim()) return;
+/** e.g. `42s`, `3m 05s`, `5h 12m` */
+function formatWait(seconds: number): string {
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
 
-        // Cancel any ongoing stream before starting a new one to prevent race conditions
-        cleanupRef.current?.();
+export function MessageInput({
+    isSubmitting,
+    error,
+    errorCode,
+    canRetry,
+    retryAt,
+    unsentMessage,
+    onSend,
+    onRetry,
+    onStop,
+    onNewChat,
+}: MessageInputProps) {
+    const [message, setMessage] = useState('');
+    const [now, setNow] = useState(() => Date.now());
 
-        setIsSubmitting(true);
-        setError(null);
+    // Tick the countdown while rate limited
+    useEffect(() => {
+        if (!retryAt) return;
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [retryAt]);
 
-        // Use SSE streaming for real-time responses
-        cleanupRef.current = subscribeToSSE(
-            `/chats/${conversationId}/messages`,
-            {
-                method: 'POST',
-                body: JSON.stringify({ content: messageToSend.trim() }),
-            },
-            {
-                onChunk: (data: any) => {
-                    // Pass chunks to parent for real-time display
-                    console.log('Streaming chunk:', data.content);
-                    onChunk?.(data.content);
-                },
-                onDone: (data: any) => {
-                    console.log('Stream complete:', data);
-                    setMessage('');
-                    setLastFailedMessage('');
-                    setIsSubmitting(false);
-                    onMessageSent?.();
-                },
-                onError: (error: Error) => {
-                    console.error('Stream error:', error);
-                    setError(error.message);
-                    setLastFailedMessage(messageToSend);
-                    setIsSubmitting(false);
-                },
-            }
-        );
-    };
+    useEffect(() => {
+        if (unsentMessage) setMessage((current) => current || unsentMessage);
+    }, [unsentMessage]);
+
+    const secondsToWait = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+    const canSend = message.trim() !== '' && secondsToWait === 0;
+    // Rejected before a reply started (a 429), rather than a reply that failed
+    const isTurnedAway = secondsToWait > 0 && !errorCode;
+    const help = errorCode ? ERROR_HELP[errorCode] : undefined;
+    const action = help ? help.action : 'retry';
 
-    const handleSubmit = async (e: React.FormEvent) => {
+    const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        await submitMessage(message);
-    };
+        if (!canSend) return;
 
-    const handleRetry = async () => {
-        await submitMessage(lastFailedMessage);
+        // Clear right away: the message is saved server-side and Retry regenerates the reply
+        onSend(message.trim());
+        setMessage('');
     };
 
     return (
@@ -81,7 +129,21 @@ export function MessageInput({ conversationId, onChunk, onMessageSent }: Message
                 background: '#fff',
             }}
         >
-            {error && (
+            {error && isTurnedAway && (
+                <div
+                    role="status"
+                    style={{
+                        padding: '12px',
+                        background: '#fff8e1',
+                        color: '#8d6e00',
+                        borderRadius: 4,
+                        fontSize: 14,
+                    }}
+                >
+                    {error}. You can send again in {formatWait(secondsToWait)}.
+                </div>
+            )}
+            {error && !isTurnedAway && (
                 <div
                     style={{
                         padding: '12px',
@@ -94,24 +156,27 @@ export function MessageInput({ conversationId, onChunk, onMessageSent }: Message
                         alignItems: 'center',
                     }}
                 >
-                    <span>{error}</span>
-                    <button
-                        onClick={handleRetry}
-                        disabled={isSubmitting}
-                        style={{
-                            padding: '6px 12px',
-                            background: '#c62828',
-                            color: '#fff',
-                            border: 'none',
-                            borderRadius: 4,
-                            fontSize: 13,
-                            fontWeight: 500,
-                            cursor: isSubmitting ? 'not-allowed' : 'pointer',
-                            marginLeft: 12,
-                        }}
-                    >
-                        Retry
-                    </button>
+                    <span>{help?.message ?? error}</span>
+                    {action === 'retry' && canRetry && (
+                        <button
+                            type="button"
+                            onClick={onRetry}
+                            disabled={isSubmitting || secondsToWait > 0}
+                            style={errorButtonStyle(isSubmitting || secondsToWait > 0)}
+                        >
+                            {secondsToWait > 0 ? `Retry in ${formatWait(secondsToWait)}` : 'Retry'}
+                        </button>
+                    )}
+                    {action === 'new_chat' && onNewChat && (
+                        <button
+                            type="button"
+                            onClick={onNewChat}
+                            disabled={isSubmitting}
+                            style={errorButtonStyle(isSubmitting)}
+                        >
+                            New chat
+                        </button>
+                    )}
                 </div>
             )}
             <div style={{ display: 'flex', gap: 8 }}>
@@ -137,33 +202,52 @@ export function MessageInput({ conversationId, onChunk, onMessageSent }: Message
                         e.currentTarget.style.borderColor = '#e0e0e0';
                     }}
                 />
-                <button
-                    type="submit"
-                    disabled={isSubmitting || !message.trim()}
-                    style={{
-                        padding: '12px 24px',
-                        background: isSubmitting || !message.trim() ? '#e0e0e0' : '#2196f3',
-                        color: isSubmitting || !message.trim() ? '#999' : '#fff',
-                        border: 'none',
-                        borderRadius: 8,
-                        fontSize: 14,
-                        fontWeight: 500,
-                        cursor: isSubmitting || !message.trim() ? 'not-allowed' : 'pointer',
-                        transition: 'background 0.2s',
-                    }}
-                    onMouseEnter={(e) => {
-                        if (!isSubmitting && message.trim()) {
-                            e.currentTarget.style.background = '#1976d2';
-                        }
-                    }}
-                    onMouseLeave={(e) => {
-                        if (!isSubmitting && message.trim()) {
-                            e.currentTarget.style.background = '#2196f3';
-                        }
-                    }}
-                >
-                    {isSubmitting ? 'Sending...' : 'Send'}
-                </button>
+                {isSubmitting ? (
+                    <button
+                        type="button"
+                        onClick={onStop}
+                        style={{
+                            padding: '12px 24px',
+                            background: '#fff',
+                            color: '#c62828',
+                            border: '1px solid #c62828',
+                            borderRadius: 8,
+                            fontSize: 14,
+                            fontWeight: 500,
+                            cursor: 'pointer',
+                        }}
+                    >
+                        Stop
+                    </button>
+                ) : (
+                    <button
+                        type="submit"
+                        disabled={!canSend}
+                        style={{
+                            padding: '12px 24px',
+                            background: !canSend ? '#e0e0e0' : '#2196f3',
+                            color: !canSend ? '#999' : '#fff',
+                            border: 'none',
+                            borderRadius: 8,
+                            fontSize: 14,
+                            fontWeight: 500,
+                            cursor: !canSend ? 'not-allowed' : 'pointer',
+                            transition: 'background 0.2s',
+                        }}
+                        onMouseEnter={(e) => {
+                            if (canSend) {
+                                e.currentTarget.style.background = '#1976d2';
+                            }
+                        }}
+                        onMouseLeave={(e) => {
+                            if (canSend) {
+                                e.currentTarget.style.background = '#2196f3';
+                            }
+                        }}
+                    >
+                        Send
+                    </button>
+                )}
             </div>
         </form>
     );
@@ -0,0 +1,151 @@
+import { useEffect, useLayoutEffect, useRef, type ReactNode } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import type { Message } from '../types';
+
+interface MessageListProps {
+    /** Loaded messages, oldest first */
+    messages: Message[];
+    hasOlder: boolean;
+    isLoadingOlder: boolean;
+    onLoadOlder: () => void;
+    renderMessage: (message: Message) => ReactNode;
+    /** Rendered below the messages, e.g. a reply that has no row yet */
+    footer?: ReactNode;
+    /** Message to bring into view, e.g. a search result */
+    scrollToMessageId?: string | null;
+    onScrolledToMessage?: (messageId: string) => void;
+}
+
+/** Distance from the top (px) at which older messages are requested */
+const LOAD_OLDER_THRESHOLD = 200;
+/** Distance from the bottom (px) within which new content keeps the view pinned */
+const STICK_TO_BOTTOM_THRESHOLD = 80;
+
+/**
+ * Virtualized, bottom-anchored message history. Only the bubbles near the
+ * viewport are mounted. Scrolling near the top loads older messages, and
+ * the view stays put while they are prepended. New messages and streaming
+ * text follow the bottom only if the user is already there.
+ */
+export function MessageList({
+    messages,
+    hasOlder,
+    isLoadingOlder,
+    onLoadOlder,
+    renderMessage,
+    footer,
+    scrollToMessageId,
+    onScrolledToMessage,
+}: MessageListProps) {
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const isAtBottomRef = useRef(true);
+    const previousFirstIdRef = useRef<string | null>(null);
+    const previousScrollTopRef = useRef(0);
+
+    const virtualizer = useVirtualizer({
+        count: messages.length,
+        getScrollElement: () => scrollRef.current,
+        estimateSize: () => 120,
+        getItemKey: (index) => messages[index].id,
+        gap: 12,
+        overscan: 6,
+    });
+
+    const handleScroll = () => {
+        const element = scrollRef.current;
+        if (!element) return;
+        previousScrollTopRef.current = element.scrollTop;
+        isAtBottomRef.current =
+            element.scrollHeight - element.scrollTop - element.clientHeight < STICK_TO_BOTTOM_THRESHOLD;
+        if (element.scrollTop < LOAD_OLDER_THRESHOLD && hasOlder && !isLoadingOlder) {
+            onLoadOlder();
+        }
+    };
+
+    // Keep the previously first message in place when older ones are prepended
+    useLayoutEffect(() => {
+        const firstId = messages[0]?.id ?? null;
+        const previousFirstId = previousFirstIdRef.current;
+        previousFirstIdRef.current = firstId;
+        if (!previousFirstId || firstId === previousFirstId) return;
+
+        const prependedCount = messages.findIndex((message) => message.id === previousFirstId);
+        if (prependedCount <= 0) return;
+
+        const start = virtualizer.measurementsCache[prependedCount]?.start ?? 0;
+        virtualizer.scrollToOffset(start + previousScrollTopRef.current);
+    }, [messages]);
+
+    // Follow new content while pinned to the bottom
+    useLayoutEffect(() => {
+        const element = scrollRef.current;
+        if (element && isAtBottomRef.current && !scrollToMessageId) {
+            element.scrollTop = element.scrollHeight;
+        }
+    });
+
+    // A short first page may not fill the pane, so no scroll event would ever fire
+    useEffect(() => {
+        const element = scrollRef.current;
+        if (element && hasOlder && !isLoadingOlder && element.scrollHeight <= element.clientHeight) {
+            onLoadOlder();
+        }
+    }, [messages.length, hasOlder, isLoadingOlder]);
+
+    useEffect(() => {
+        if (!scrollToMessageId) return;
+        const index = messages.findIndex((message) => message.id === scrollToMessageId);
+        if (index === -1) return;
+
+        isAtBottomRef.current = false;
+        virtualizer.scrollToIndex(index, { align: 'center' });
+        onScrolledToMessage?.(scrollToMessageId);
+    }, [scrollToMessageId, messages]);
+
+    return (
+        <div style={{ flex: 1, minHeight: 0, position: 'relative', display: 'flex', flexDirection: 'column' }}>
+            {isLoadingOlder && (
+                <p
+                    style={{
+                        position: 'absolute',
+                        top: 0,
+                        left: '50%',
+                        transform: 'translateX(-50%)',
+                        zIndex: 1,
+                        margin: 0,
+                        padding: '4px 12px',
+                        background: '#fff',
+                        borderRadius: 8,
+                        fontSize: 12,
+                        color: '#666',
+                    }}
+                >
+                    Loading older messages...
+                </p>
+            )}
+            <div ref={scrollRef} onScroll={handleScroll} style={{ flex: 1, overflowY: 'auto', padding: '0 16px 16px' }}>
+                <div style={{ position: 'relative', height: virtualizer.getTotalSize() }}>
+                    {virtualizer.getVirtualItems().map((item) => (
+                        <div
+                            key={item.key}
+                            data-index={item.index}
+                            ref={virtualizer.measureElement}
+                            style={{
+                                position: 'absolute',
+                                top: 0,
+                                left: 0,
+                                width: '100%',
+                                transform: `translateY(${item.start}px)`,
+                                display: 'flex',
+                                flexDirection: 'column',
+                            }}
+                        >
+                            {renderMessage(messages[item.index])}
+                        </div>
+                    ))}
+                </div>
+                {footer && <div style={{ display: 'flex', flexDirection: 'column', marginTop: 12 }}>{footer}</div>}
+            </div>
+        </div>
+    );
+}
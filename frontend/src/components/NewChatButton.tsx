@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiFetch } from '../api/client';
+import type { Preset } from '../types';
+
+interface NewChatButtonProps {
+    isCreating: boolean;
+    /** Create a chat, optionally from a preset */
+    onCreate: (presetId?: string) => void;
+}
+
+const menuItemStyle: React.CSSProperties = {
+    display: 'block',
+    width: '100%',
+    padding: '8px 12px',
+    background: 'none',
+    border: 'none',
+    textAlign: 'left',
+    cursor: 'pointer',
+};
+
+/**
+ * "+ New Chat" button with a menu for starting from a shared preset.
+ */
+export function NewChatButton({ isCreating, onCreate }: NewChatButtonProps) {
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+
+    const { data: presets } = useQuery({
+        queryKey: ['presets'],
+        queryFn: () => apiFetch<Preset[]>('/presets'),
+    });
+
+    const choose = (presetId?: string) => {
+        setIsMenuOpen(false);
+        onCreate(presetId);
+    };
+
+    return (
+        <div style={{ position: 'relative', marginBottom: 16 }}>
+            <button
+                style={{
+                    padding: '8px 16px',
+                    background: isCreating ? '#e0e0e0' : '#2196f3',
+                    color: isCreating ? '#999' : '#fff',
+                    border: 'none',
+                    borderRadius: 8,
+                    fontSize: 14,
+                    fontWeight: 500,
+                    cursor: isCreating ? 'not-allowed' : 'pointer',
+                    width: '100%',
+                }}
+                onClick={() => setIsMenuOpen((open) => !open)}
+                disabled={isCreating}
+                aria-haspopup="menu"
+                aria-expanded={isMenuOpen}
+            >
+                {isCreating ? 'Creating...' : '+ New Chat'}
+            </button>
+
+            {isMenuOpen && (
+                <div
+                    role="menu"
+                    style={{
+                        position: 'absolute',
+                        top: '100%',
+                        left: 0,
+                        right: 0,
+                        marginTop: 4,
+                        background: '#fff',
+                        border: '1px solid #e0e0e0',
+                        borderRadius: 8,
+                        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
+                        zIndex: 10,
+                        overflow: 'hidden',
+                    }}
+                >
+                    <button role="menuitem" onClick={() => choose()} style={menuItemStyle}>
+                        <span style={{ fontSize: 14, fontWeight: 500 }}>Blank chat</span>
+                    </button>
+                    {presets?.map((preset) => (
+                        <button
+                            key={preset.id}
+                            role="menuitem"
+                            onClick={() => choose(preset.id)}
+                            style={{ ...menuItemStyle, borderTop: '1px solid #f0f0f0' }}
+                        >
+                            <span style={{ display: 'block', fontSize: 14, fontWeight: 500 }}>{preset.name}</span>
+                            {preset.description && (
+                                <span style={{ display: 'block', fontSize: 12, color: '#666', marginTop: 2 }}>
+                                    {preset.description}
+                                </span>
+                            )}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
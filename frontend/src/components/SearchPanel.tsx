@@ -0,0 +1,185 @@
+import { useState, useEffect, type ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiFetch } from '../api/client';
+import type { SearchFilters, SearchResults } from '../types';
+
+interface SearchPanelProps {
+    /** Open a conversation, scrolled to `messageId` when given */
+    onOpen: (conversationId: string, messageId?: string) => void;
+    /** Shown while there is no search query (the conversation list) */
+    children: ReactNode;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+const fieldStyle: React.CSSProperties = {
+    padding: '6px 8px',
+    border: '1px solid #e0e0e0',
+    borderRadius: 8,
+    fontSize: 12,
+    fontFamily: 'inherit',
+    minWidth: 0,
+};
+
+const resultStyle: React.CSSProperties = {
+    display: 'block',
+    width: '100%',
+    padding: '8px 12px',
+    background: '#f5f5f5',
+    border: 'none',
+    borderRadius: 8,
+    textAlign: 'left',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+};
+
+/**
+ * Render a server snippet, turning the match markers into <mark> elements.
+ */
+function Snippet({ text }: { text: string }) {
+    const parts = text.split(HIGHLIGHT_START);
+    return (
+        <>
+            {parts[0]}
+            {parts.slice(1).map((part, i) => {
+                const [match, rest = ''] = part.split(HIGHLIGHT_END);
+                return (
+                    <span key={i}>
+                        <mark style={{ background: '#fff59d', padding: 0 }}>{match}</mark>
+                        {rest}
+                    </span>
+                );
+            })}
+        </>
+    );
+}
+
+function buildSearchPath(query: string, filters: SearchFilters): string {
+    const params = new URLSearchParams({ q: query });
+    if (filters.role) params.set('role', filters.role);
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+    return `/search?${params}`;
+}
+
+/**
+ * Sidebar search box with role and date filters. While a query is entered
+ * the matching conversations and messages replace the sidebar contents.
+ */
+export function SearchPanel({ onOpen, children }: SearchPanelProps) {
+    const [query, setQuery] = useState('');
+    const [debouncedQuery, setDebouncedQuery] = useState('');
+    const [filters, setFilters] = useState<SearchFilters>({});
+
+    useEffect(() => {
+        const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [query]);
+
+    const { data: results, isFetching, error } = useQuery({
+        queryKey: ['search', debouncedQuery, filters],
+        queryFn: () => apiFetch<SearchResults>(buildSearchPath(debouncedQuery, filters)),
+        enabled: debouncedQuery.length > 0,
+    });
+
+    const isSearching = query.trim().length > 0;
+    const hasResults = !!results && (results.conversations.length > 0 || results.messages.length > 0);
+
+    return (
+        <>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 8, marginBottom: 16 }}>
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search messages..."
+                    aria-label="Search messages"
+                    style={{ ...fieldStyle, padding: '8px 12px', fontSize: 14 }}
+                />
+                {isSearching && (
+                    <div style={{ display: 'flex', gap: 4 }}>
+                        <select
+                            value={filters.role ?? ''}
+                            onChange={(e) =>
+                                setFilters((prev) => ({
+                                    ...prev,
+                                    role: (e.target.value || undefined) as SearchFilters['role'],
+                                }))
+                            }
+                            aria-label="Filter by author"
+                            style={fieldStyle}
+                        >
+                            <option value="">Anyone</option>
+                            <option value="user">You</option>
+                            <option value="assistant">Assistant</option>
+                        </select>
+                        <input
+                            type="date"
+                            value={filters.from ?? ''}
+                            onChange={(e) => setFilters((prev) => ({ ...prev, from: e.target.value || undefined }))}
+                            aria-label="From date"
+                            style={{ ...fieldStyle, flex: 1 }}
+                        />
+                        <input
+                            type="date"
+                            value={filters.to ?? ''}
+                            onChange={(e) => setFilters((prev) => ({ ...prev, to: e.target.value || undefined }))}
+                            aria-label="To date"
+                            style={{ ...fieldStyle, flex: 1 }}
+                        />
+                    </div>
+                )}
+            </div>
+
+            {!isSearching ? (
+                children
+            ) : error ? (
+                <p style={{ color: '#d32f2f', fontSize: 14 }}>
+                    {error instanceof Error ? error.message : 'Search failed'}
+                </p>
+            ) : !results || (isFetching && !hasResults) ? (
+                <p style={{ color: '#666', fontSize: 14 }}>Searching...</p>
+            ) : !hasResults ? (
+                <p style={{ color: '#666', fontSize: 14 }}>No matches</p>
+            ) : (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 8, overflowY: 'auto', minHeight: 0 }}>
+                    {results.conversations.map((conversation) => (
+                        <button
+                            key={conversation.id}
+                            type="button"
+                            onClick={() => onOpen(conversation.id)}
+                            style={resultStyle}
+                        >
+                            <p style={{ margin: 0, fontSize: 14, fontWeight: 500 }}>
+                                <Snippet text={conversation.snippet} />
+                            </p>
+                            <p style={{ margin: '4px 0 0 0', fontSize: 12, color: '#666' }}>
+                                Conversation · {new Date(conversation.updated_at).toLocaleDateString()}
+                            </p>
+                        </button>
+                    ))}
+                    {results.messages.map((message) => (
+                        <button
+                            key={message.id}
+                            type="button"
+                            onClick={() => onOpen(message.conversation_id, message.id)}
+                            style={resultStyle}
+                        >
+                            <p style={{ margin: 0, fontSize: 13 }}>
+                                <Snippet text={message.snippet} />
+                            </p>
+                            <p style={{ margin: '4px 0 0 0', fontSize: 12, color: '#666' }}>
+                                {message.conversation_title || 'Untitled Conversation'} ·{' '}
+                                {message.role === 'user' ? 'You' : 'Assistant'} ·{' '}
+                                {new Date(message.created_at).toLocaleDateString()}
+                            </p>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </>
+    );
+}
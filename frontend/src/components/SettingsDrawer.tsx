@@ -0,0 +1,186 @@
+import { useState, useEffect } from 'react';
+import { apiFetch } from '../api/client';
+import type { Conversation, ConversationSettings } from '../types';
+
+interface SettingsDrawerProps {
+    conversation: Conversation;
+    onClose: () => void;
+    /** Called after the settings were saved */
+    onSaved?: () => void;
+}
+
+const SUGGESTED_MODELS = ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'];
+
+const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 4,
+    fontSize: 13,
+    fontWeight: 500,
+    color: '#333',
+};
+
+const fieldStyle: React.CSSProperties = {
+    padding: '8px 12px',
+    border: '1px solid #e0e0e0',
+    borderRadius: 8,
+    fontSize: 14,
+    fontFamily: 'inherit',
+    fontWeight: 400,
+};
+
+const hintStyle: React.CSSProperties = { fontSize: 12, fontWeight: 400, color: '#999' };
+
+/**
+ * Side drawer for editing the selected conversation's persona and
+ * generation settings. Empty fields fall back to the server defaults.
+ */
+export function SettingsDrawer({ conversation, onClose, onSaved }: SettingsDrawerProps) {
+    const [instructions, setInstructions] = useState('');
+    const [model, setModel] = useState('');
+    const [temperature, setTemperature] = useState('');
+    const [maxTokens, setMaxTokens] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Load the current values when a different conversation is selected
+    useEffect(() => {
+        setInstructions(conversation.instructions ?? '');
+        setModel(conversation.model ?? '');
+        setTemperature(conversation.temperature?.toString() ?? '');
+        setMaxTokens(conversation.max_tokens?.toString() ?? '');
+        setError(null);
+    }, [conversation.id]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError(null);
+
+        const settings: ConversationSettings = {
+            instructions: instructions.trim() || null,
+            model: model.trim() || null,
+            temperature: temperature === '' ? null : Number(temperature),
+            max_tokens: maxTokens === '' ? null : Number(maxTokens),
+        };
+
+        try {
+            await apiFetch(`/chats/${conversation.id}`, {
+                method: 'PATCH',
+                body: JSON.stringify(settings),
+            });
+            onSaved?.();
+            onClose();
+        } catch (saveError) {
+            setError(saveError instanceof Error ? saveError.message : 'Failed to save settings');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <aside
+            style={{
+                width: 340,
+                background: '#fff',
+                borderLeft: '1px solid #e0e0e0',
+                padding: 16,
+                display: 'flex',
+                flexDirection: 'column',
+                overflowY: 'auto',
+            }}
+        >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 }}>
+                <h3 style={{ margin: 0, fontSize: 16 }}>Chat Settings</h3>
+                <button
+                    type="button"
+                    aria-label="Close settings"
+                    onClick={onClose}
+                    style={{ background: 'none', border: 'none', fontSize: 18, cursor: 'pointer', color: '#666' }}
+                >
+                    ×
+                </button>
+            </div>
+
+            <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+                <label style={labelStyle}>
+                    System prompt
+                    <textarea
+                        value={instructions}
+                        onChange={(e) => setInstructions(e.target.value)}
+                        placeholder="Default Muro assistant"
+                        rows={8}
+                        style={{ ...fieldStyle, resize: 'vertical' }}
+                    />
+                    <span style={hintStyle}>e.g. "You are a spec reviewer. Flag conflicts between sections."</span>
+                </label>
+
+                <label style={labelStyle}>
+                    Model
+                    <input
+                        type="text"
+                        list="settings-models"
+                        value={model}
+                        onChange={(e) => setModel(e.target.value)}
+                        placeholder="Server default"
+                        style={fieldStyle}
+                    />
+                    <datalist id="settings-models">
+                        {SUGGESTED_MODELS.map((name) => (
+                            <option key={name} value={name} />
+                        ))}
+                    </datalist>
+                </label>
+
+                <label style={labelStyle}>
+                    Temperature
+                    <input
+                        type="number"
+                        min={0}
+                        max={2}
+                        step={0.1}
+                        value={temperature}
+                        onChange={(e) => setTemperature(e.target.value)}
+                        placeholder="Default"
+                        style={fieldStyle}
+                    />
+                    <span style={hintStyle}>0 is focused and repeatable, 2 is most creative.</span>
+                </label>
+
+                <label style={labelStyle}>
+                    Max response tokens
+                    <input
+                        type="number"
+                        min={1}
+                        max={16384}
+                        step={1}
+                        value={maxTokens}
+                        onChange={(e) => setMaxTokens(e.target.value)}
+                        placeholder="1024"
+                        style={fieldStyle}
+                    />
+                    <span style={hintStyle}>Raise this for long answers such as bid tables.</span>
+                </label>
+
+                {error && <p style={{ margin: 0, fontSize: 13, color: '#c62828' }}>{error}</p>}
+
+                <button
+                    type="submit"
+                    disabled={isSaving}
+                    style={{
+                        padding: '10px 16px',
+                        background: isSaving ? '#e0e0e0' : '#2196f3',
+                        color: isSaving ? '#999' : '#fff',
+                        border: 'none',
+                        borderRadius: 8,
+                        fontSize: 14,
+                        fontWeight: 500,
+                        cursor: isSaving ? 'not-allowed' : 'pointer',
+                    }}
+                >
+                    {isSaving ? 'Saving...' : 'Save Settings'}
+                </button>
+            </form>
+        </aside>
+    );
+}
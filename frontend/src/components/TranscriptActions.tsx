@@ -0,0 +1,99 @@
+import { useRef, useState } from 'react';
+import { apiFetch, downloadFile } from '../api/client';
+
+interface TranscriptActionsProps {
+    /** Conversation offered for export, if one is open */
+    conversationId: string | null;
+    /** Called with the id of a newly imported conversation */
+    onImported: (conversationId: string) => void;
+}
+
+const EXPORT_FORMATS = [
+    { format: 'md', label: 'Markdown' },
+    { format: 'html', label: 'HTML' },
+    { format: 'json', label: 'JSON' },
+] as const;
+
+const actionStyle: React.CSSProperties = {
+    padding: 0,
+    background: 'none',
+    border: 'none',
+    color: '#2196f3',
+    fontSize: 12,
+    fontFamily: 'inherit',
+    cursor: 'pointer',
+    textDecoration: 'none',
+};
+
+/**
+ * Sidebar links for downloading the open conversation and for importing a
+ * JSON export as a new conversation.
+ */
+export function TranscriptActions({ conversationId, onImported }: TranscriptActionsProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const exportAs = async (format: string) => {
+        setError(null);
+        try {
+            await downloadFile(`/chats/${conversationId}/export?format=${format}`);
+        } catch (exportError) {
+            setError(exportError instanceof Error ? exportError.message : 'Export failed');
+        }
+    };
+
+    const importFile = async (file: File) => {
+        setIsImporting(true);
+        setError(null);
+        try {
+            const { id } = await apiFetch<{ id: string }>('/chats/import', {
+                method: 'POST',
+                body: await file.text(),
+            });
+            onImported(id);
+        } catch (importError) {
+            setError(importError instanceof Error ? importError.message : 'Import failed');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <div style={{ marginBottom: 16, fontSize: 12, color: '#666' }}>
+            <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8 }}>
+                {conversationId && (
+                    <>
+                        <span>Export:</span>
+                        {EXPORT_FORMATS.map(({ format, label }) => (
+                            <button key={format} type="button" onClick={() => exportAs(format)} style={actionStyle}>
+                                {label}
+                            </button>
+                        ))}
+                        <span>·</span>
+                    </>
+                )}
+                <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isImporting}
+                    style={{ ...actionStyle, color: isImporting ? '#999' : '#2196f3' }}
+                >
+                    {isImporting ? 'Importing...' : 'Import JSON'}
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    style={{ display: 'none' }}
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) importFile(file);
+                    }}
+                />
+            </div>
+            {error && <p style={{ margin: '4px 0 0 0', color: '#c62828' }}>{error}</p>}
+        </div>
+    );
+}
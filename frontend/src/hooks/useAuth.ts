@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react';
+import type { User } from '../types';
+
+export interface AuthContextValue {
+    user: User;
+    logout: () => void;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+/**
+ * The signed-in user and a logout action, provided by AuthGate; null
+ * outside of it.
+ */
+export function useAuth(): AuthContextValue | null {
+    return useContext(AuthContext);
+}
@@ -0,0 +1,105 @@
+import { useEffect, useRef } from 'react';
+import { useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { subscribeToChanges } from '../api/client';
+import type { ChangeEvent, Message, Page } from '../types';
+
+type ReplyChunk = Extract<ChangeEvent, { type: 'reply_chunk' }>;
+type MessagePages = InfiniteData<Page<Message>, string | null>;
+
+interface UseChangeEventsOptions {
+    /** Called when a conversation is deleted, e.g. from another tab */
+    onConversationDeleted?: (conversationId: string) => void;
+}
+
+/**
+ * Keeps the `['conversations']` and `['messages', id]` caches in step with
+ * changes made anywhere, including other tabs, by following /api/events.
+ * Text streamed into a reply is appended to its cached message, so any
+ * tab showing the conversation can watch the reply being written.
+ */
+export function useChangeEvents({ onConversationDeleted }: UseChangeEventsOptions = {}) {
+    const queryClient = useQueryClient();
+    const handlersRef = useRef({ onConversationDeleted });
+    handlersRef.current = { onConversationDeleted };
+
+    useEffect(() => {
+        // Chunks that arrived before the text they follow: the message isn't
+        // cached yet, or a refetch replaced it with an older snapshot
+        const pendingChunks = new Map<string, ReplyChunk[]>();
+
+        const applyChunk = (chunk: ReplyChunk) => {
+            const queued = [...(pendingChunks.get(chunk.messageId) ?? []), chunk].sort(
+                (a, b) => a.offset - b.offset
+            );
+            let waiting = queued;
+
+            queryClient.setQueryData<MessagePages>(['messages', chunk.conversationId], (data) => {
+                // Not showing this conversation; it loads with the text so far
+                if (!data) {
+                    waiting = [];
+                    return data;
+                }
+                return {
+                    ...data,
+                    pages: data.pages.map((page) => ({
+                        ...page,
+                        items: page.items.map((message) => {
+                            if (message.id !== chunk.messageId || message.status !== 'sending') return message;
+
+                            let content = message.content;
+                            waiting = [];
+                            for (const next of queued) {
+                                if (next.offset > content.length) waiting.push(next);
+                                // Skip text the cached message already has
+                                else if (next.offset + next.content.length > content.length) {
+                                    content = content.slice(0, next.offset) + next.content;
+                                }
+                            }
+                            return { ...message, content };
+                        }),
+                    })),
+                };
+            });
+
+            if (waiting.length > 0) pendingChunks.set(chunk.messageId, waiting);
+            else pendingChunks.delete(chunk.messageId);
+        };
+
+        const refetchAll = () => {
+            pendingChunks.clear();
+            queryClient.invalidateQueries({ queryKey: ['conversations'] });
+            queryClient.invalidateQueries({ queryKey: ['messages'] });
+        };
+
+        const unsubscribe = subscribeToChanges({
+            onEvent: (event) => {
+                switch (event.type) {
+                    case 'conversation':
+                        queryClient.setQueryData(['conversations', event.conversation.id], event.conversation);
+                        // The list is ordered by activity, so let it reload
+                        queryClient.invalidateQueries({ queryKey: ['conversations'], exact: true });
+                        break;
+                    case 'conversation_deleted':
+                        queryClient.removeQueries({ queryKey: ['conversations', event.conversationId] });
+                        queryClient.removeQueries({ queryKey: ['messages', event.conversationId] });
+                        queryClient.invalidateQueries({ queryKey: ['conversations'], exact: true });
+                        handlersRef.current.onConversationDeleted?.(event.conversationId);
+                        break;
+                    case 'messages':
+                        // The refetch brings the latest text of any reply
+                        for (const [messageId, chunks] of pendingChunks) {
+                            if (chunks[0].conversationId === event.conversationId) pendingChunks.delete(messageId);
+                        }
+                        queryClient.invalidateQueries({ queryKey: ['messages', event.conversationId] });
+                        break;
+                    case 'reply_chunk':
+                        applyChunk(event);
+                        break;
+                }
+            },
+            onReconnect: refetchAll,
+        });
+
+        return unsubscribe;
+    }, [queryClient]);
+}
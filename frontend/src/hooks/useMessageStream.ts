@@ -0,0 +1,185 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { ApiError, ReplyError, apiFetch, subscribeToSSE } from '../api/client';
+import type { ErrorCode } from '../types';
+
+interface UseMessageStreamOptions {
+    /** Called once the server has created the assistant message */
+    onStart?: (messageId: string) => void;
+    onChunk?: (chunk: string) => void;
+    /** Called when the stream ends (done, cancelled or error) */
+    onSettled?: () => void;
+}
+
+/**
+ * Owns the SSE stream for a conversation: sending new messages, editing
+ * user messages into new branches, regenerating assistant messages,
+ * retrying and stopping.
+ */
+export function useMessageStream(
+    conversationId: string | null,
+    { onStart, onChunk, onSettled }: UseMessageStreamOptions = {}
+) {
+    const [isStreaming, setIsStreaming] = useState(false);
+    const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+    // Attempt number while the server retries the AI service, before any text arrives
+    const [retryAttempt, setRetryAttempt] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    // Why the last reply failed, when the server said
+    const [errorCode, setErrorCode] = useState<ErrorCode | null>(null);
+    const [failedMessageId, setFailedMessageId] = useState<string | null>(null);
+    // Set while rate limited: when sending works again, and the message
+    // that was turned away (it was not saved)
+    const [retryAt, setRetryAt] = useState<number | null>(null);
+    const [unsentMessage, setUnsentMessage] = useState<string | null>(null);
+    const cleanupRef = useRef<(() => void) | null>(null);
+
+    // Keep the latest callbacks without restarting streams when they change
+    const handlersRef = useRef({ onStart, onChunk, onSettled });
+    handlersRef.current = { onStart, onChunk, onSettled };
+
+    // Close the stream when switching conversations or unmounting
+    useEffect(() => {
+        setError(null);
+        setErrorCode(null);
+        setFailedMessageId(null);
+        setRetryAt(null);
+        setUnsentMessage(null);
+        return () => {
+            cleanupRef.current?.();
+            cleanupRef.current = null;
+            setIsStreaming(false);
+            setStreamingMessageId(null);
+            setRetryAttempt(null);
+        };
+    }, [conversationId]);
+
+    // The rate limit has passed. A turned-away request leaves nothing to
+    // retry, so its error goes too; a failed reply keeps its Retry.
+    useEffect(() => {
+        if (retryAt === null) return;
+        const timer = setTimeout(() => {
+            setRetryAt(null);
+            if (!failedMessageId) setError(null);
+        }, retryAt - Date.now());
+        return () => clearTimeout(timer);
+    }, [retryAt, failedMessageId]);
+
+    const stream = useCallback(
+        (endpoint: string, method: 'POST' | 'PATCH', body?: { content: string }) => {
+            if (!conversationId) return;
+
+            // Cancel any ongoing stream before starting a new one to prevent race conditions
+            cleanupRef.current?.();
+
+            setIsStreaming(true);
+            setError(null);
+            setErrorCode(null);
+            setFailedMessageId(null);
+            setRetryAt(null);
+            setUnsentMessage(null);
+
+            const settle = () => {
+                setIsStreaming(false);
+                setStreamingMessageId(null);
+                setRetryAttempt(null);
+                handlersRef.current.onSettled?.();
+            };
+
+            let messageId: string | null = null;
+            cleanupRef.current = subscribeToSSE(
+                endpoint,
+                {
+                    method,
+                    body: body === undefined ? undefined : JSON.stringify(body),
+                },
+                {
+                    onStart: (data) => {
+                        messageId = data.messageId;
+                        setStreamingMessageId(data.messageId);
+                        handlersRef.current.onStart?.(data.messageId);
+                    },
+                    onStatus: (data) => {
+                        setRetryAttempt(data.attempt);
+                    },
+                    onChunk: (data) => {
+                        setRetryAttempt(null);
+                        handlersRef.current.onChunk?.(data.content);
+                    },
+                    onDone: () => settle(),
+                    onCancel: () => settle(),
+                    onError: (streamError: Error) => {
+                        console.error('Stream error:', streamError);
+                        setError(streamError.message);
+                        setFailedMessageId(messageId);
+                        if (streamError instanceof ReplyError) {
+                            setErrorCode(streamError.code);
+                            if (streamError.retryAfter) setRetryAt(Date.now() + streamError.retryAfter * 1000);
+                        }
+                        if (streamError instanceof ApiError && streamError.status === 429) {
+                            setRetryAt(Date.now() + (streamError.retryAfter ?? 0) * 1000);
+                            if (method === 'POST' && body) setUnsentMessage(body.content);
+                        }
+                        settle();
+                    },
+                },
+                {
+                    // Resume the same generation if the connection drops mid-stream
+                    resumeEndpoint: (start) =>
+                        `/chats/${conversationId}/messages/${start.messageId}/stream`,
+                }
+            );
+        },
+        [conversationId]
+    );
+
+    const send = useCallback(
+        (content: string) => stream(`/chats/${conversationId}/messages`, 'POST', { content }),
+        [conversationId, stream]
+    );
+
+    const edit = useCallback(
+        (messageId: string, content: string) =>
+            stream(`/chats/${conversationId}/messages/${messageId}`, 'PATCH', { content }),
+        [conversationId, stream]
+    );
+
+    const regenerate = useCallback(
+        (messageId: string) =>
+            stream(`/chats/${conversationId}/messages/${messageId}/regenerate`, 'POST'),
+        [conversationId, stream]
+    );
+
+    // Retry regenerates the failed assistant message instead of re-posting the user text
+    const retry = useCallback(() => {
+        if (failedMessageId) regenerate(failedMessageId);
+    }, [failedMessageId, regenerate]);
+
+    // Ask the server to stop generating; the stream then ends with a `cancelled` event
+    const stop = useCallback(async () => {
+        if (!streamingMessageId) return;
+
+        try {
+            await apiFetch(`/chats/${conversationId}/messages/${streamingMessageId}/cancel`, {
+                method: 'POST',
+            });
+        } catch (stopError) {
+            console.error('Error stopping stream:', stopError);
+        }
+    }, [conversationId, streamingMessageId]);
+
+    return {
+        isStreaming,
+        streamingMessageId,
+        retryAttempt,
+        error,
+        errorCode,
+        canRetry: failedMessageId !== null,
+        send,
+        edit,
+        regenerate,
+        retry,
+        stop,
+        retryAt,
+        unsentMessage,
+    };
+}
@@ -0,0 +1,80 @@
+/**
+ * Streaming Markdown
+ *
+ * Partial replies often end mid-construct: an open code fence, half a
+ * table row, an unmatched `**`. Rendered as-is, these flash as raw syntax
+ * or swallow the rest of the message. `completePartialMarkdown` closes or
+ * holds back the unfinished tail so every intermediate render is well
+ * formed; the final text is rendered untouched.
+ */
+
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/;
+const TABLE_ROW_PATTERN = /^\s*\|/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-*:?\s*)*\|?\s*$/;
+
+/**
+ * The fence that is still open at the end of `lines`, if any.
+ */
+function findOpenFence(lines: string[]): string | null {
+  let open: string | null = null;
+  for (const line of lines) {
+    const match = line.match(FENCE_PATTERN);
+    if (!match) continue;
+    if (!open) {
+      open = match[1];
+    } else if (match[1][0] === open[0] && match[1].length >= open.length && line.trim() === match[1]) {
+      open = null;
+    }
+  }
+  return open;
+}
+
+/**
+ * Close a trailing unmatched inline marker, e.g. "**bold" becomes "**bold**".
+ */
+function closeInlineMarkers(line: string): string {
+  // Inline code first: markers inside it are literal
+  const backticks = (line.match(/`/g) ?? []).length;
+  if (backticks % 2 === 1) return `${line}\``;
+
+  const outsideCode = line.replace(/`[^`]*`/g, '');
+  for (const marker of ['**', '__', '~~']) {
+    if (outsideCode.split(marker).length % 2 === 0) return `${line}${marker}`;
+  }
+  return line;
+}
+
+/**
+ * Make a partial markdown reply safe to render mid-stream.
+ */
+export function completePartialMarkdown(text: string): string {
+  const lines = text.split('\n');
+
+  const openFence = findOpenFence(lines);
+  if (openFence) {
+    // Close the block so the code renders as code while it streams
+    return `${text}\n${openFence}`;
+  }
+
+  // Hold back a table row that is still being written
+  if (lines.length > 0 && TABLE_ROW_PATTERN.test(lines[lines.length - 1])) {
+    lines.pop();
+  }
+
+  // A header row without its delimiter row yet would show as plain pipes
+  const last = lines[lines.length - 1];
+  const previous = lines[lines.length - 2];
+  if (
+    last !== undefined &&
+    TABLE_ROW_PATTERN.test(last) &&
+    !TABLE_DELIMITER_PATTERN.test(last) &&
+    (previous === undefined || !TABLE_ROW_PATTERN.test(previous))
+  ) {
+    lines.pop();
+  }
+
+  if (lines.length > 0) {
+    lines[lines.length - 1] = closeInlineMarkers(lines[lines.length - 1]);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,71 @@
+import { vi } from 'vitest';
+
+type RouteHandler = (init: RequestInit) => Response | Promise<Response>;
+
+/**
+ * Responses by `METHOD /path`, e.g. `'GET /api/chats'`. A plain value is
+ * sent as a JSON body; a function gets the request options and builds the
+ * response itself.
+ */
+export type Routes = Record<string, unknown>;
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Replace the global fetch with one that answers from `routes`. Unknown
+ * routes get a 404. Returns the mock, so tests can inspect its calls.
+ */
+export function mockFetch(routes: Routes) {
+  const fetchMock = vi.fn(async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const route = `${init.method ?? 'GET'} ${String(input)}`;
+    if (!(route in routes)) {
+      return jsonResponse({ error: `No mock for ${route}` }, 404);
+    }
+    const handler = routes[route];
+    return typeof handler === 'function' ? (handler as RouteHandler)(init) : jsonResponse(handler);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+/**
+ * An SSE response body the test writes to frame by frame. Like a real
+ * fetch body, it errors once the request is aborted.
+ */
+export function createSSEStream() {
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  let nextId = 1;
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+  });
+
+  const stream = {
+    aborted: false,
+
+    /** Respond to a request with this stream */
+    respond(init: RequestInit): Response {
+      init.signal?.addEventListener('abort', () => {
+        stream.aborted = true;
+        controller.error(new DOMException('The operation was aborted.', 'AbortError'));
+      });
+      return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+    },
+
+    send(event: string, data: unknown) {
+      controller.enqueue(encoder.encode(`id: ${nextId++}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+    },
+
+    close() {
+      controller.close();
+    },
+  };
+  return stream;
+}
@@ -1,19 +1,33 @@
-export interface Conversation {
-  id: string;
-  title: string | null;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface Message {
-  id: string;
-  conversation_id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  status: 'sending' | 'sent' | 'failed';
-  error_message?: string;
-  created_at: string;
-}
+/**
+ * API shapes come from the backend's request/response contract, so
+ * both sides change together.
+ */
+export type {
+  BranchInfo,
+  ChangeEvent,
+  Citation,
+  Conversation,
+  ConversationDocument,
+  ConversationSearchResult,
+  ConversationSettings,
+  ErrorCode,
+  Message,
+  MessageSearchResult,
+  MessageStatus,
+  MessageVersion,
+  Page,
+  Preset,
+  SearchFilters,
+  SearchResults,
+  Session,
+  StreamCancelled,
+  StreamChunk,
+  StreamDone,
+  StreamError,
+  StreamStart,
+  StreamStatus,
+  User,
+} from '../../backend/src/contract';
 
 export interface ApiError {
   error: string;